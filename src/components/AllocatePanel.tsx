@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { AlertCircle, Crosshair, PlusSquare } from 'lucide-react';
+import type { AllocationResult, AllocationStrategy, SubnetTree } from '../types/subnetTree';
+import { allocateNextFree, findNextFree, getNode } from '../utils/subnetTree';
+
+interface AllocatePanelProps {
+  tree: SubnetTree;
+  onAllocate: (result: AllocationResult) => void;
+  onLocate: (nodeId: string) => void;
+}
+
+function AllocatePanel({ tree, onAllocate, onLocate }: AllocatePanelProps) {
+  const rootPrefix = tree.nodes[tree.rootId]?.prefix ?? 0;
+  const prefixes = Array.from({ length: tree.minPrefix - rootPrefix + 1 }, (_, i) => rootPrefix + i);
+
+  const [prefix, setPrefix] = useState(() => Math.max(rootPrefix, Math.min(24, tree.minPrefix)));
+  const [strategy, setStrategy] = useState<AllocationStrategy>('first-fit');
+  const [alignTo, setAlignTo] = useState('');
+  const [withinId, setWithinId] = useState('');
+  const [label, setLabel] = useState('');
+
+  const within = withinId.trim();
+  const withinError = within && !getNode(tree, within) ? `${within} is not a node in this plan` : null;
+  const options = {
+    strategy,
+    alignTo: alignTo === '' ? undefined : Number(alignTo),
+    withinId: within || undefined,
+    label
+  };
+  // Cheap enough to recompute on every change, so the preview is always current
+  const chosen = withinError ? null : findNextFree(tree, prefix, options);
+
+  const handleAllocate = () => {
+    const result = allocateNextFree(tree, prefix, options);
+    if (!result) return;
+    onAllocate(result);
+    setLabel('');
+  };
+
+  return (
+    <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+      <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+        <PlusSquare className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+        Allocate Next Free Block
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div>
+          <label htmlFor="allocate-prefix" className="input-label">Size</label>
+          <select
+            id="allocate-prefix"
+            value={prefix}
+            onChange={(e) => setPrefix(Number(e.target.value))}
+            className="input-field text-sm"
+          >
+            {prefixes.map((value) => (
+              <option key={value} value={value}>/{value} ({(2 ** (32 - value)).toLocaleString()} IPs)</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="allocate-strategy" className="input-label">Strategy</label>
+          <select
+            id="allocate-strategy"
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as AllocationStrategy)}
+            className="input-field text-sm"
+          >
+            <option value="first-fit">First fit (lowest address)</option>
+            <option value="best-fit">Best fit (smallest gap)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="allocate-align" className="input-label">Prefer alignment</label>
+          <select
+            id="allocate-align"
+            value={alignTo}
+            onChange={(e) => setAlignTo(e.target.value)}
+            className="input-field text-sm"
+          >
+            <option value="">None</option>
+            {prefixes.filter((value) => value < prefix).map((value) => (
+              <option key={value} value={value}>/{value} boundary</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="allocate-within" className="input-label">Inside (optional)</label>
+          <input
+            id="allocate-within"
+            type="text"
+            value={withinId}
+            onChange={(e) => setWithinId(e.target.value)}
+            placeholder={tree.rootId}
+            className="input-field font-mono text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="allocate-label" className="input-label">Label</label>
+          <input
+            id="allocate-label"
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="web-tier"
+            className="input-field text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <div className="text-xs text-slate-600 dark:text-slate-400" aria-live="polite">
+          {withinError ? (
+            <span className="text-red-600 dark:text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              {withinError}
+            </span>
+          ) : chosen ? (
+            <span className="flex items-center gap-2">
+              Next block:
+              <span className="font-mono font-semibold text-slate-900 dark:text-slate-100">{chosen.id}</span>
+              <button
+                onClick={() => onLocate(chosen.id)}
+                className="inline-flex items-center gap-1 underline hover:text-slate-900 dark:hover:text-slate-100"
+              >
+                <Crosshair className="w-3 h-3" />
+                Show in tree
+              </button>
+            </span>
+          ) : (
+            `No free /${prefix} ${within ? `inside ${within}` : 'in this plan'}`
+          )}
+        </div>
+        <button
+          onClick={handleAllocate}
+          disabled={!chosen}
+          className="px-3 py-1.5 text-xs rounded-lg bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 font-semibold disabled:opacity-50"
+        >
+          Allocate /{prefix}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default AllocatePanel;
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import type { SubnetTree } from '../types/subnetTree';
+import {
+  forecastCapacity,
+  getAssignedUtilization,
+  getFragmentation,
+  getFreeBlockHistogram,
+  getNodeUtilization
+} from '../utils/treeAnalytics';
+
+interface AnalyticsPanelProps {
+  tree: SubnetTree;
+  onLocate: (nodeId: string) => void;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+function UsageBar({ percent }: { percent: number }) {
+  return (
+    <div className="h-1.5 w-full rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+      <div className="h-full rounded-full bg-red-500 dark:bg-red-400" style={{ width: `${Math.min(percent, 100)}%` }} />
+    </div>
+  );
+}
+
+function AnalyticsPanel({ tree, onLocate }: AnalyticsPanelProps) {
+  const rootPrefix = tree.nodes[tree.rootId]?.prefix ?? 0;
+  const prefixes = Array.from({ length: tree.minPrefix - rootPrefix + 1 }, (_, i) => rootPrefix + i);
+  const [forecastPrefix, setForecastPrefix] = useState(() => Math.max(rootPrefix, Math.min(24, tree.minPrefix)));
+
+  const overall = useMemo(() => getNodeUtilization(tree, tree.rootId), [tree]);
+  const assigned = useMemo(() => getAssignedUtilization(tree), [tree]);
+  const fragmentation = useMemo(() => getFragmentation(tree), [tree]);
+  const histogram = useMemo(() => getFreeBlockHistogram(tree), [tree]);
+  const largestBucket = Math.max(1, ...histogram.map((bucket) => bucket.count));
+  const capacity = forecastCapacity(tree, forecastPrefix);
+
+  return (
+    <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+      <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+        <BarChart3 className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+        Plan Analytics
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+        <div className="flex flex-col gap-2">
+          <div className="text-slate-600 dark:text-slate-400">Utilization</div>
+          <div className="text-xl font-bold text-slate-900 dark:text-slate-100">
+            {formatPercent(overall?.percent ?? 0)}
+          </div>
+          <UsageBar percent={overall?.percent ?? 0} />
+          <div className="text-slate-600 dark:text-slate-400">
+            {(overall?.used ?? 0).toLocaleString()} of {(overall?.usable ?? 0).toLocaleString()} usable IPs in use or reserved
+          </div>
+          <ul className="flex flex-col gap-1.5 mt-1" aria-label="Utilization by assigned range">
+            {assigned.map((range) => (
+              <li key={range.nodeId} className="flex flex-col gap-0.5">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => onLocate(range.nodeId)}
+                    className="font-mono text-slate-800 dark:text-slate-200 hover:underline"
+                  >
+                    {range.nodeId}
+                  </button>
+                  <span className="text-slate-600 dark:text-slate-400">{formatPercent(range.percent)}</span>
+                </div>
+                <UsageBar percent={range.percent} />
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="text-slate-600 dark:text-slate-400">Fragmentation</div>
+          <div className="text-xl font-bold text-slate-900 dark:text-slate-100">
+            {formatPercent(fragmentation.score * 100)}
+          </div>
+          <div className="text-slate-600 dark:text-slate-400">
+            {fragmentation.freeIPs.toLocaleString()} free IPs in {fragmentation.pieces} block{fragmentation.pieces === 1 ? '' : 's'}
+            {' '}(fewest possible: {fragmentation.idealPieces})
+          </div>
+          <div className="text-slate-600 dark:text-slate-400 mt-1">Free blocks by size</div>
+          {histogram.length === 0 ? (
+            <div className="text-slate-500 dark:text-slate-400">No free space</div>
+          ) : (
+            <ul className="flex flex-col gap-1" aria-label="Free block histogram">
+              {histogram.map((bucket) => (
+                <li key={bucket.prefix} className="flex items-center gap-2">
+                  <span className="w-8 font-mono text-slate-800 dark:text-slate-200">/{bucket.prefix}</span>
+                  <div className="flex-1 h-2 rounded bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 dark:bg-green-400"
+                      style={{ width: `${(bucket.count / largestBucket) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right text-slate-600 dark:text-slate-400">
+                    {bucket.count} ({bucket.totalIPs.toLocaleString()} IPs)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label htmlFor="forecast-prefix" className="text-slate-600 dark:text-slate-400">Capacity forecast</label>
+          <select
+            id="forecast-prefix"
+            value={forecastPrefix}
+            onChange={(e) => setForecastPrefix(Number(e.target.value))}
+            className="input-field text-sm"
+          >
+            {prefixes.map((value) => (
+              <option key={value} value={value}>/{value}</option>
+            ))}
+          </select>
+          <div className="text-xl font-bold text-slate-900 dark:text-slate-100" aria-live="polite">
+            {capacity.toLocaleString()} more /{forecastPrefix}
+            {capacity === 1 ? '' : 's'}
+          </div>
+          <div className="text-slate-600 dark:text-slate-400">
+            Fit in the current free blocks without moving anything
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsPanel;
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { AlertCircle, ClipboardList, Eye } from 'lucide-react';
+import type { AllocationImportRow, SubnetTree, TreePlanConfig } from '../types/subnetTree';
+import { applyAllocationImport, previewAllocationImport } from '../utils/subnetTree';
+
+interface BulkAllocationPanelProps {
+  tree: SubnetTree;
+  config: TreePlanConfig;
+  onApply: (updatedTree: SubnetTree, appliedRows: AllocationImportRow[]) => void;
+}
+
+const PLACEHOLDER = `10.1.241.0/27 IN_USE web-tier
+10.1.241.32/27 RESERVED future-web
+10.1.250.0/24 UNAVAILABLE`;
+
+function BulkAllocationPanel({ tree, config, onApply }: BulkAllocationPanelProps) {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<AllocationImportRow[] | null>(null);
+
+  const validRows = preview?.filter((row) => row.errors.length === 0) ?? [];
+  const conflictCount = (preview?.length ?? 0) - validRows.length;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    // Any edit invalidates the dry run
+    setPreview(null);
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onApply(applyAllocationImport(tree, preview), validRows);
+    setText('');
+    setPreview(null);
+  };
+
+  return (
+    <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+      <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+        <ClipboardList className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+        Bulk Allocation Import
+      </div>
+
+      <label htmlFor="bulk-allocations" className="input-label">
+        One allocation per line: CIDR STATUS [label] (labels become node names)
+      </label>
+      <textarea
+        id="bulk-allocations"
+        value={text}
+        onChange={(e) => handleTextChange(e.target.value)}
+        rows={6}
+        placeholder={PLACEHOLDER}
+        className="input-field font-mono text-xs"
+      />
+
+      <div className="flex items-center justify-between mt-3">
+        <div className="text-xs text-slate-600 dark:text-slate-400">
+          {preview
+            ? `${validRows.length} ready • ${conflictCount} conflict${conflictCount === 1 ? '' : 's'}`
+            : 'Preview to check for conflicts before applying'}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPreview(previewAllocationImport(tree, config, text))}
+            disabled={!text.trim()}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Eye className="w-4 h-4" />
+            Preview
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={validRows.length === 0}
+            className="px-3 py-1.5 text-xs rounded-lg bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 font-semibold disabled:opacity-50"
+          >
+            Apply {validRows.length > 0 ? validRows.length : ''}
+          </button>
+        </div>
+      </div>
+
+      {preview && preview.length > 0 && (
+        <div className="mt-3 max-h-64 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400 sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2 font-medium">Line</th>
+                <th className="text-left px-3 py-2 font-medium">CIDR</th>
+                <th className="text-left px-3 py-2 font-medium">Change</th>
+                <th className="text-left px-3 py-2 font-medium">Label</th>
+                <th className="text-left px-3 py-2 font-medium">Conflicts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((row) => (
+                <tr key={row.line} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="px-3 py-1.5 text-slate-500 dark:text-slate-400">{row.line}</td>
+                  <td className="px-3 py-1.5 font-mono text-slate-900 dark:text-slate-100">{row.cidr}</td>
+                  <td className="px-3 py-1.5 text-slate-700 dark:text-slate-300">
+                    {row.currentStatus ?? '—'} → {row.status ?? '?'}
+                  </td>
+                  <td className="px-3 py-1.5 text-slate-700 dark:text-slate-300">{row.label}</td>
+                  <td className="px-3 py-1.5">
+                    {row.errors.map((message) => (
+                      <div key={message} className="text-red-600 dark:text-red-400 flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                        {message}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BulkAllocationPanel;
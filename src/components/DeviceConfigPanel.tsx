@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { ConfigTarget, ConfigTemplate } from '../types/deviceConfig';
+import { generateDeviceConfig } from '../utils/deviceConfig';
+import { exportDeviceConfig } from '../utils/exportUtils';
+
+const TEMPLATE_LABELS: Record<ConfigTemplate, string> = {
+  'cisco-ios': 'Cisco IOS interfaces',
+  'cisco-acl': 'Cisco IOS access list',
+  junos: 'JunOS prefix-list',
+  iptables: 'iptables rules',
+  nftables: 'nftables set',
+  'linux-ip': 'Linux ip addr / ip route'
+};
+
+// Templates that name a list, chain or set rather than configuring interfaces
+const LIST_TEMPLATES: ConfigTemplate[] = ['cisco-acl', 'junos', 'iptables', 'nftables'];
+const INTERFACE_TEMPLATES: ConfigTemplate[] = ['cisco-ios', 'iptables', 'linux-ip'];
+
+interface DeviceConfigPanelProps {
+  targets: ConfigTarget[];
+}
+
+function DeviceConfigPanel({ targets }: DeviceConfigPanelProps) {
+  const [template, setTemplate] = useState<ConfigTemplate>('cisco-ios');
+  const [listName, setListName] = useState('SUBNETS');
+  const [interfaceName, setInterfaceName] = useState('');
+
+  const options = { listName, interfaceName };
+  const config = generateDeviceConfig(targets, template, options);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="input-group">
+          <label htmlFor="config-template" className="input-label">Template</label>
+          <select
+            id="config-template"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value as ConfigTemplate)}
+            className="input-field text-sm"
+          >
+            {(Object.keys(TEMPLATE_LABELS) as ConfigTemplate[]).map((value) => (
+              <option key={value} value={value}>{TEMPLATE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        {LIST_TEMPLATES.includes(template) && (
+          <div className="input-group">
+            <label htmlFor="config-list-name" className="input-label">List name</label>
+            <input
+              id="config-list-name"
+              type="text"
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              className="input-field font-mono text-sm"
+            />
+          </div>
+        )}
+        {INTERFACE_TEMPLATES.includes(template) && (
+          <div className="input-group">
+            <label htmlFor="config-interface" className="input-label">Interface</label>
+            <input
+              id="config-interface"
+              type="text"
+              value={interfaceName}
+              onChange={(e) => setInterfaceName(e.target.value)}
+              placeholder={template === 'cisco-ios' ? 'GigabitEthernet0/0' : 'eth0'}
+              className="input-field font-mono text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      <pre
+        aria-label="Generated config"
+        className="max-h-72 overflow-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 font-mono text-xs text-gray-800 dark:text-gray-200"
+      >
+        {config}
+      </pre>
+
+      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>{targets.length} subnet{targets.length === 1 ? '' : 's'}</span>
+        <button
+          type="button"
+          onClick={() => exportDeviceConfig(targets, template, options)}
+          disabled={targets.length === 0}
+          className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Download config
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default DeviceConfigPanel;
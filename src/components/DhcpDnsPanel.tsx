@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { DhcpFormat, ReverseZoneFormat, ServiceTarget } from '../types/dhcpDns';
+import { generateDhcpScope, generateReverseZones } from '../utils/dhcpDns';
+
+interface DhcpDnsPanelProps {
+  target: ServiceTarget;
+}
+
+// Comma, space or newline separated list
+function splitList(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+function DhcpDnsPanel({ target }: DhcpDnsPanelProps) {
+  const [dhcpFormat, setDhcpFormat] = useState<DhcpFormat>('kea');
+  const [router, setRouter] = useState('');
+  const [exclusions, setExclusions] = useState('');
+  const [dnsServers, setDnsServers] = useState('');
+  const [zoneFormat, setZoneFormat] = useState<ReverseZoneFormat>('bind');
+  const [nameServers, setNameServers] = useState('ns1.example.com.');
+
+  let dhcpConfig = '';
+  let dhcpError = '';
+  try {
+    dhcpConfig = generateDhcpScope(target, dhcpFormat, {
+      router,
+      exclusions: splitList(exclusions),
+      dnsServers: splitList(dnsServers)
+    });
+  } catch (err) {
+    dhcpError = err instanceof Error ? err.message : 'Could not build the DHCP scope';
+  }
+  const zones = generateReverseZones(target, zoneFormat, { nameServers: splitList(nameServers) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="input-group">
+          <label htmlFor="dhcp-format" className="input-label">DHCP server</label>
+          <select
+            id="dhcp-format"
+            value={dhcpFormat}
+            onChange={(e) => setDhcpFormat(e.target.value as DhcpFormat)}
+            className="input-field text-sm"
+          >
+            <option value="kea">ISC Kea</option>
+            <option value="dhcpd">ISC dhcpd</option>
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="dhcp-router" className="input-label">Router</label>
+          <input
+            id="dhcp-router"
+            type="text"
+            value={router}
+            onChange={(e) => setRouter(e.target.value)}
+            placeholder="First usable address"
+            className="input-field font-mono text-sm"
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="dhcp-exclusions" className="input-label">Exclusions</label>
+          <input
+            id="dhcp-exclusions"
+            type="text"
+            value={exclusions}
+            onChange={(e) => setExclusions(e.target.value)}
+            placeholder="10.0.0.2-10.0.0.9, 10.0.0.250/31"
+            className="input-field font-mono text-sm"
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="dhcp-dns" className="input-label">DNS servers</label>
+          <input
+            id="dhcp-dns"
+            type="text"
+            value={dnsServers}
+            onChange={(e) => setDnsServers(e.target.value)}
+            placeholder="10.0.0.53"
+            className="input-field font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      {dhcpError ? (
+        <div className="status-error animate-scale-in">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {dhcpError}
+        </div>
+      ) : (
+        <pre
+          aria-label="DHCP scope"
+          className="max-h-72 overflow-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 font-mono text-xs text-gray-800 dark:text-gray-200"
+        >
+          {dhcpConfig}
+        </pre>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="input-group">
+          <label htmlFor="zone-format" className="input-label">DNS server</label>
+          <select
+            id="zone-format"
+            value={zoneFormat}
+            onChange={(e) => setZoneFormat(e.target.value as ReverseZoneFormat)}
+            className="input-field text-sm"
+          >
+            <option value="bind">BIND zone file</option>
+            <option value="powerdns">PowerDNS (pdnsutil)</option>
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="zone-nameservers" className="input-label">Name servers</label>
+          <input
+            id="zone-nameservers"
+            type="text"
+            value={nameServers}
+            onChange={(e) => setNameServers(e.target.value)}
+            className="input-field font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      <pre
+        aria-label="Reverse zones"
+        className="max-h-72 overflow-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 font-mono text-xs text-gray-800 dark:text-gray-200"
+      >
+        {zones}
+      </pre>
+    </div>
+  );
+}
+
+export default DhcpDnsPanel;
@@ -0,0 +1,72 @@
+import { History, Redo2, Undo2 } from 'lucide-react';
+import type { HistoryEntry, HistoryState } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: HistoryState<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (entryId: number) => void;
+}
+
+function HistoryPanel({ history, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const entries: { entry: HistoryEntry<unknown>; position: 'past' | 'present' | 'future' }[] = [
+    ...history.past.map((entry) => ({ entry, position: 'past' as const })),
+    { entry: history.present, position: 'present' as const },
+    ...history.future.map((entry) => ({ entry, position: 'future' as const }))
+  ];
+
+  const buttonClass = 'px-2 py-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <History className="w-4 h-4" />
+          {history.past.length} undo • {history.future.length} redo
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={history.past.length === 0}
+            className={buttonClass}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={history.future.length === 0}
+            className={buttonClass}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-3 h-3" />
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto space-y-1" aria-label="History">
+        {entries.map(({ entry, position }) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJump(entry.id)}
+              aria-current={position === 'present' ? 'step' : undefined}
+              className={`w-full text-left px-2 py-1 rounded-md text-xs font-mono transition-colors ${
+                position === 'present'
+                  ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300 font-semibold'
+                  : position === 'future'
+                    ? 'text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, FileUp, X } from 'lucide-react';
+import type { SubnetInfo } from '../types/subnet';
+import type { ImportMode, ImportParseResult, ImportRow } from '../types/import';
+import type { TreePlanConfig } from '../types/subnetTree';
+import {
+  checkSubnetOverlaps,
+  getImportableSubnets,
+  parseImportText,
+  validatePlanImport
+} from '../utils/importUtils';
+
+interface ImportPanelProps {
+  currentSubnets: SubnetInfo[];
+  currentPlan: TreePlanConfig;
+  onImportSubnets: (subnets: SubnetInfo[], mode: ImportMode) => void;
+  onImportPlan: (config: TreePlanConfig, mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  rootCidr: 'Root',
+  assignedCidrs: 'Assigned',
+  inUseCidrs: 'In Use',
+  reservedCidrs: 'Reserved',
+  unavailableCidrs: 'Unavailable'
+};
+
+function ReportTable({ rows, showField }: { rows: ImportRow[]; showField: boolean }) {
+  return (
+    <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-xl">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400 sticky top-0">
+          <tr>
+            <th className="text-left px-3 py-2 font-medium">Row</th>
+            <th className="text-left px-3 py-2 font-medium">Entry</th>
+            {showField && <th className="text-left px-3 py-2 font-medium">List</th>}
+            <th className="text-left px-3 py-2 font-medium">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={`${row.field ?? ''}-${row.row}`} className="border-t border-gray-100 dark:border-gray-800">
+              <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400">{row.row}</td>
+              <td className="px-3 py-1.5 font-mono text-gray-900 dark:text-gray-100">{row.entry}</td>
+              {showField && (
+                <td className="px-3 py-1.5 text-gray-600 dark:text-gray-400">{row.field ? FIELD_LABELS[row.field] : ''}</td>
+              )}
+              <td className="px-3 py-1.5">
+                {row.errors.length === 0 ? (
+                  <span className="text-green-700 dark:text-green-400 flex items-center gap-1">
+                    <CheckCircle className="w-3 h-3" />
+                    OK
+                  </span>
+                ) : (
+                  row.errors.map((message) => (
+                    <div key={message} className="text-red-600 dark:text-red-400 flex items-center gap-1">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                      {message}
+                    </div>
+                  ))
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ImportPanel({ currentSubnets, currentPlan, onImportSubnets, onImportPlan, onClose }: ImportPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>('replace');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseImportText(await file.text()));
+  };
+
+  const data = parsed?.data ?? null;
+
+  const subnetRows = useMemo(() => {
+    if (!data || data.format === 'plan') return null;
+    return checkSubnetOverlaps(data.rows, mode === 'merge' ? currentSubnets : []);
+  }, [data, mode, currentSubnets]);
+
+  const planReport = useMemo(() => {
+    if (!data || data.format !== 'plan') return null;
+    return validatePlanImport(data.config, currentPlan, mode);
+  }, [data, mode, currentPlan]);
+
+  const importable = subnetRows ? getImportableSubnets(subnetRows) : [];
+  const rows = subnetRows ?? planReport?.rows ?? [];
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+  const handleImport = () => {
+    if (planReport) {
+      onImportPlan(planReport.config, mode);
+    } else {
+      onImportSubnets(importable, mode);
+    }
+    onClose();
+  };
+
+  const canImport = planReport ? planReport.isValid : importable.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true" aria-label="Import">
+      <div className="card-elevated w-full max-w-3xl p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+            <FileUp className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            Import Subnets or Plan
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            aria-label="Close import"
+          >
+            <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <label htmlFor="import-file" className="input-label">
+          Exported JSON, exported CSV, or planner JSON
+        </label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-700 dark:text-gray-300 mb-4"
+        />
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="mb-4 space-y-1">
+            {parsed.errors.map((message) => (
+              <div key={message} className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                <span className="font-mono">{fileName}</span>
+                {' • '}
+                {data.format === 'plan' ? 'Planner configuration' : `${data.format.toUpperCase()} subnet export`}
+                {' • '}
+                {validCount} of {rows.length} rows valid
+              </div>
+              <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-lg" role="radiogroup" aria-label="Import mode">
+                {(['replace', 'merge'] as const).map((option) => (
+                  <button
+                    key={option}
+                    role="radio"
+                    aria-checked={mode === option}
+                    onClick={() => setMode(option)}
+                    className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+                      mode === option
+                        ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {planReport && planReport.errors.map((message) => (
+              <div key={message} className="mb-2 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {message}
+              </div>
+            ))}
+
+            <ReportTable rows={rows} showField={data.format === 'plan'} />
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button onClick={onClose} className="btn-secondary">Cancel</button>
+              <button onClick={handleImport} disabled={!canImport} className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed">
+                {planReport
+                  ? (mode === 'merge' ? 'Merge into plan' : 'Replace plan')
+                  : `${mode === 'merge' ? 'Merge' : 'Import'} ${importable.length} subnet${importable.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+            {!planReport && importable.length < rows.length && (
+              <div className="mt-2 text-xs text-right text-gray-500 dark:text-gray-400">
+                Rows with errors are skipped.
+              </div>
+            )}
+            {planReport && !planReport.isValid && (
+              <div className="mt-2 text-xs text-right text-gray-500 dark:text-gray-400">
+                Fix the plan errors before importing.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ImportPanel;
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { AlertCircle, Zap, CheckCircle, HelpCircle, ChevronRight } from 'lucide-react';
-import type { SubnetInput } from '../types/subnet';
+import type { AddressNotation, PrefixNotation, ReservationProfileId, SubnetInput } from '../types/subnet';
+import { reservationProfileLabels, reservationProfiles } from '../config/reservationProfiles';
+import { detectIPVersion, getMaxPrefix, parseSubnetNotation } from '../utils/subnetCalculations';
 
 interface InputFormProps {
   input: SubnetInput;
@@ -9,9 +11,29 @@ interface InputFormProps {
   error: string;
 }
 
+const NOTATION_LABELS: Record<AddressNotation | PrefixNotation, string> = {
+  dotted: 'dotted address',
+  hex: 'hex address',
+  integer: 'integer address',
+  prefix: 'prefix length',
+  mask: 'subnet mask',
+  wildcard: 'wildcard mask'
+};
+
 function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
   const [ipFocused, setIPFocused] = useState(false);
   const [cidrFocused, setCIDRFocused] = useState(false);
+  const reservation = input.reservation ?? reservationProfiles.classic;
+  const maxPrefix = getMaxPrefix(detectIPVersion(input.ipAddress));
+  // A dash means an address range, which is split into CIDR blocks instead of using the prefix
+  const isRange = input.ipAddress.includes('-');
+  // Anything beyond a plain dotted address goes through the notation parser
+  const notation = !isRange && detectIPVersion(input.ipAddress) === 4 && /[\s/]|^0x|^\d+$/i.test(input.ipAddress.trim())
+    ? parseSubnetNotation(input.ipAddress)
+    : null;
+  const hasNotationPrefix = notation?.cidr !== undefined;
+  const isReady = !!input.ipAddress && (notation?.isValid ?? true) &&
+    (isRange || hasNotationPrefix || (input.cidr >= 0 && input.cidr <= maxPrefix));
 
   const handleIPChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onChange({ ...input, ipAddress: e.target.value });
@@ -32,6 +54,25 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
     // If not a valid number, don't update the state (preserve current value)
   };
 
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as ReservationProfileId;
+    if (id === 'classic') {
+      onChange({ ...input, reservation: undefined });
+    } else if (id === 'custom') {
+      onChange({
+        ...input,
+        reservation: { id, reservedFirst: reservation.reservedFirst, reservedLast: reservation.reservedLast }
+      });
+    } else {
+      onChange({ ...input, reservation: reservationProfiles[id] });
+    }
+  };
+
+  const handleCustomChange = (field: 'reservedFirst' | 'reservedLast', value: string) => {
+    const parsedValue = parseInt(value, 10);
+    onChange({ ...input, reservation: { ...reservation, id: 'custom', [field]: isNaN(parsedValue) ? 0 : Math.max(parsedValue, 0) } });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onCalculate();
@@ -73,9 +114,36 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
             >
               <p>Enter IPv4 address (e.g., 192.168.1.0)</p>
               <p>Valid range: 0.0.0.0 to 255.255.255.255</p>
+              <p>IPv6 is also accepted (e.g., 2001:db8::)</p>
+              <p>Or a range (e.g., 10.1.2.5 - 10.1.3.77)</p>
+              <p>Also: 192.168.1.0/24, 192.168.1.0 255.255.255.0,</p>
+              <p>192.168.1.0 0.0.0.255, 0xC0A80100 or 3232235776</p>
             </div>
           )}
         </div>
+        {isRange && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Range input: split into CIDR blocks, prefix length not used
+          </p>
+        )}
+        {notation && (
+          <p
+            className={`text-xs mt-1 ${notation.isValid ? 'text-gray-500 dark:text-gray-400' : 'text-amber-700 dark:text-amber-400'}`}
+            aria-live="polite"
+          >
+            {notation.isValid ? (
+              <>
+                Read as <span className="font-mono">{notation.ipAddress}{hasNotationPrefix ? `/${notation.cidr}` : ''}</span>
+                {' '}({[notation.addressNotation, notation.prefixNotation]
+                  .filter((kind) => kind !== undefined)
+                  .map((kind) => NOTATION_LABELS[kind])
+                  .join(', ')})
+              </>
+            ) : (
+              notation.error
+            )}
+          </p>
+        )}
       </div>
 
       {/* CIDR Input */}
@@ -91,13 +159,14 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
               type="number"
               inputMode="numeric"
               min="0"
-              max="32"
+              max={maxPrefix}
               step="1"
               value={input.cidr}
               onChange={handleCIDRChange}
               onFocus={() => setCIDRFocused(true)}
               onBlur={() => setCIDRFocused(false)}
               onKeyPress={handleKeyPress}
+              disabled={isRange || hasNotationPrefix}
               placeholder="24"
               className={`input-field ${error && !cidrFocused ? 'border-red-500' : ''}`}
               aria-describedby={error ? 'error-message' : undefined}
@@ -110,7 +179,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
               role="tooltip"
               aria-hidden="true"
             >
-              <p>Network prefix length (0-32)</p>
+              <p>Network prefix length (0-{maxPrefix})</p>
               <div className="mt-1 space-y-1">
                 <p>/8 = 255.0.0.0 (Class A)</p>
                 <p>/16 = 255.255.0.0 (Class B)</p>
@@ -121,6 +190,55 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
         </div>
       </div>
 
+      {/* Reservation Profile */}
+      <div className="input-group">
+        <label htmlFor="reservation-profile" className="input-label">
+          Reservation profile
+        </label>
+        <select
+          id="reservation-profile"
+          value={reservation.id}
+          onChange={handleProfileChange}
+          className="input-field"
+        >
+          {(Object.keys(reservationProfileLabels) as ReservationProfileId[]).map((id) => (
+            <option key={id} value={id}>{reservationProfileLabels[id]}</option>
+          ))}
+        </select>
+        {reservation.id === 'custom' && (
+          <div className="grid grid-cols-2 gap-3 mt-2">
+            <div>
+              <label htmlFor="reserved-first" className="input-label">Reserved at start</label>
+              <input
+                id="reserved-first"
+                type="number"
+                min="0"
+                step="1"
+                value={reservation.reservedFirst}
+                onChange={(e) => handleCustomChange('reservedFirst', e.target.value)}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label htmlFor="reserved-last" className="input-label">Reserved at end</label>
+              <input
+                id="reserved-last"
+                type="number"
+                min="0"
+                step="1"
+                value={reservation.reservedLast}
+                onChange={(e) => handleCustomChange('reservedLast', e.target.value)}
+                className="input-field"
+              />
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Reserves {reservation.reservedFirst} at the start and {reservation.reservedLast} at the end of each IPv4 subnet
+          {reservation.id === 'classic' ? ' (not /31 or /32)' : reservation.id === 'rfc3021' ? ' (not /31)' : ''}
+        </p>
+      </div>
+
       {/* Error Message */}
       {error && (
         <div id="error-message" className="status-error animate-scale-in">
@@ -133,7 +251,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
       <button
         type="submit"
         className="btn-primary-large w-full flex items-center justify-center gap-3"
-        disabled={!input.ipAddress || input.cidr < 0 || input.cidr > 32}
+        disabled={!isReady}
       >
         <Zap className="w-5 h-5" />
         Calculate Network
@@ -141,7 +259,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
       </button>
       
       {/* Validation Status */}
-      {input.ipAddress && input.cidr >= 0 && input.cidr <= 32 && (
+      {isReady && (
         <div className="status-success animate-scale-in">
           <CheckCircle className="w-4 h-4" />
           <span>Ready to calculate</span>
@@ -157,7 +275,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
           <button
             type="button"
-            onClick={() => onChange({ ipAddress: '192.168.1.0', cidr: 24 })}
+            onClick={() => onChange({ ...input, ipAddress: '192.168.1.0', cidr: 24 })}
             className="text-left p-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl hover:border-primary-300 dark:hover:border-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-all duration-200 group"
           >
             <div className="font-mono text-sm font-semibold text-gray-900 dark:text-white group-hover:text-primary-700 dark:group-hover:text-primary-300">
@@ -169,7 +287,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
           </button>
           <button
             type="button"
-            onClick={() => onChange({ ipAddress: '10.0.0.0', cidr: 8 })}
+            onClick={() => onChange({ ...input, ipAddress: '10.0.0.0', cidr: 8 })}
             className="text-left p-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl hover:border-primary-300 dark:hover:border-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-all duration-200 group"
           >
             <div className="font-mono text-sm font-semibold text-gray-900 dark:text-white group-hover:text-primary-700 dark:group-hover:text-primary-300">
@@ -181,7 +299,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
           </button>
           <button
             type="button"
-            onClick={() => onChange({ ipAddress: '172.16.0.0', cidr: 12 })}
+            onClick={() => onChange({ ...input, ipAddress: '172.16.0.0', cidr: 12 })}
             className="text-left p-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl hover:border-primary-300 dark:hover:border-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-all duration-200 group"
           >
             <div className="font-mono text-sm font-semibold text-gray-900 dark:text-white group-hover:text-primary-700 dark:group-hover:text-primary-300">
@@ -193,7 +311,7 @@ function InputForm({ input, onChange, onCalculate, error }: InputFormProps) {
           </button>
           <button
             type="button"
-            onClick={() => onChange({ ipAddress: '203.0.113.0', cidr: 26 })}
+            onClick={() => onChange({ ...input, ipAddress: '203.0.113.0', cidr: 26 })}
             className="text-left p-3 border-2 border-gray-200 dark:border-gray-700 rounded-xl hover:border-primary-300 dark:hover:border-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-all duration-200 group"
           >
             <div className="font-mono text-sm font-semibold text-gray-900 dark:text-white group-hover:text-primary-700 dark:group-hover:text-primary-300">
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { AlertCircle, Check, X } from 'lucide-react';
+import type { NodeMetadata } from '../types/subnetTree';
+import { validateMetadata } from '../utils/nodeMetadata';
+
+interface NodeMetadataEditorProps {
+  nodeId: string;
+  metadata?: NodeMetadata;
+  onSave: (metadata: NodeMetadata) => void;
+  onCancel: () => void;
+}
+
+interface MetadataDraft {
+  name: string;
+  description: string;
+  vlanId: string;
+  site: string;
+  owner: string;
+  tags: string;
+  attributes: string;
+}
+
+function toDraft(metadata: NodeMetadata = {}): MetadataDraft {
+  return {
+    name: metadata.name ?? '',
+    description: metadata.description ?? '',
+    vlanId: metadata.vlanId !== undefined ? String(metadata.vlanId) : '',
+    site: metadata.site ?? '',
+    owner: metadata.owner ?? '',
+    tags: (metadata.tags ?? []).join(', '),
+    attributes: Object.entries(metadata.attributes ?? {}).map(([key, value]) => `${key}=${value}`).join('\n')
+  };
+}
+
+function fromDraft(draft: MetadataDraft): NodeMetadata {
+  const attributes = draft.attributes
+    .split('\n')
+    .map((line) => line.split('='))
+    .filter(([key]) => key.trim())
+    .map(([key, ...value]) => [key, value.join('=')]);
+
+  return {
+    name: draft.name,
+    description: draft.description,
+    vlanId: draft.vlanId.trim() === '' ? undefined : Number(draft.vlanId),
+    site: draft.site,
+    owner: draft.owner,
+    tags: draft.tags.split(','),
+    attributes: Object.fromEntries(attributes)
+  };
+}
+
+const TEXT_FIELDS: { field: keyof MetadataDraft; label: string; placeholder: string }[] = [
+  { field: 'name', label: 'Name', placeholder: 'web-tier' },
+  { field: 'vlanId', label: 'VLAN ID', placeholder: '120' },
+  { field: 'site', label: 'Site', placeholder: 'dc1' },
+  { field: 'owner', label: 'Owner', placeholder: 'platform-team' },
+  { field: 'tags', label: 'Tags', placeholder: 'prod, dmz' }
+];
+
+function NodeMetadataEditor({ nodeId, metadata, onSave, onCancel }: NodeMetadataEditorProps) {
+  const [draft, setDraft] = useState<MetadataDraft>(() => toDraft(metadata));
+  const candidate = fromDraft(draft);
+  const errors = validateMetadata(candidate);
+
+  const update = (field: keyof MetadataDraft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const fieldId = (field: string) => `metadata-${nodeId}-${field}`;
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (errors.length === 0) onSave(candidate); }}
+      className="mt-2 p-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 space-y-3"
+      aria-label={`Metadata for ${nodeId}`}
+    >
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+          <div key={field}>
+            <label htmlFor={fieldId(field)} className="text-[11px] text-slate-600 dark:text-slate-400">{label}</label>
+            <input
+              id={fieldId(field)}
+              type={field === 'vlanId' ? 'number' : 'text'}
+              value={draft[field]}
+              onChange={(e) => update(field, e.target.value)}
+              placeholder={placeholder}
+              className="input-field text-xs py-1"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div>
+          <label htmlFor={fieldId('description')} className="text-[11px] text-slate-600 dark:text-slate-400">Description</label>
+          <textarea
+            id={fieldId('description')}
+            value={draft.description}
+            onChange={(e) => update('description', e.target.value)}
+            rows={2}
+            className="input-field text-xs"
+          />
+        </div>
+        <div>
+          <label htmlFor={fieldId('attributes')} className="text-[11px] text-slate-600 dark:text-slate-400">Attributes (key=value per line)</label>
+          <textarea
+            id={fieldId('attributes')}
+            value={draft.attributes}
+            onChange={(e) => update('attributes', e.target.value)}
+            rows={2}
+            placeholder="gateway=10.1.241.1"
+            className="input-field font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          {errors.map((message) => (
+            <div key={message} className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              {message}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-2 py-1 rounded-md text-[11px] font-semibold border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" />
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={errors.length > 0}
+            className="px-2 py-1 rounded-md text-[11px] font-semibold bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default NodeMetadataEditor;
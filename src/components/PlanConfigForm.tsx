@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, Settings2 } from 'lucide-react';
+import type { PlanConfigField, PlanConfigValidation, TreePlanConfig } from '../types/subnetTree';
+import { validatePlanConfig } from '../utils/subnetTree';
+
+interface PlanConfigFormProps {
+  config: TreePlanConfig;
+  onChange: (config: TreePlanConfig) => void;
+}
+
+type ListField = 'assignedCidrs' | 'inUseCidrs' | 'reservedCidrs' | 'unavailableCidrs';
+
+const LIST_FIELDS: { field: ListField; label: string }[] = [
+  { field: 'assignedCidrs', label: 'Assigned' },
+  { field: 'inUseCidrs', label: 'In Use' },
+  { field: 'reservedCidrs', label: 'Reserved' },
+  { field: 'unavailableCidrs', label: 'Unavailable' }
+];
+
+interface PlanConfigDraft {
+  rootCidr: string;
+  minPrefix: string;
+  assignedCidrs: string;
+  inUseCidrs: string;
+  reservedCidrs: string;
+  unavailableCidrs: string;
+}
+
+function toDraft(config: TreePlanConfig): PlanConfigDraft {
+  return {
+    rootCidr: config.rootCidr,
+    minPrefix: String(config.minPrefix),
+    assignedCidrs: config.assignedCidrs.join('\n'),
+    inUseCidrs: (config.inUseCidrs ?? []).join('\n'),
+    reservedCidrs: (config.reservedCidrs ?? []).join('\n'),
+    unavailableCidrs: (config.unavailableCidrs ?? []).join('\n')
+  };
+}
+
+function parseList(text: string): string[] {
+  return text.split(/[\s,]+/).map((cidr) => cidr.trim()).filter(Boolean);
+}
+
+function fromDraft(draft: PlanConfigDraft, base: TreePlanConfig): TreePlanConfig {
+  return {
+    ...base,
+    rootCidr: draft.rootCidr.trim(),
+    minPrefix: draft.minPrefix.trim() === '' ? NaN : Number(draft.minPrefix),
+    assignedCidrs: parseList(draft.assignedCidrs),
+    inUseCidrs: parseList(draft.inUseCidrs),
+    reservedCidrs: parseList(draft.reservedCidrs),
+    unavailableCidrs: parseList(draft.unavailableCidrs)
+  };
+}
+
+function FieldErrors({ validation, field }: { validation: PlanConfigValidation; field: PlanConfigField }) {
+  const messages = validation.errors[field];
+  if (!messages || messages.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {messages.map((message) => (
+        <div key={message} className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3 flex-shrink-0" />
+          {message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PlanConfigForm({ config, onChange }: PlanConfigFormProps) {
+  const [draft, setDraft] = useState<PlanConfigDraft>(() => toDraft(config));
+  const [validation, setValidation] = useState<PlanConfigValidation>({ isValid: true, errors: {} });
+
+  const updateDraft = (field: keyof PlanConfigDraft, value: string) => {
+    const nextDraft = { ...draft, [field]: value };
+    const candidate = fromDraft(nextDraft, config);
+    const result = validatePlanConfig(candidate);
+
+    setDraft(nextDraft);
+    setValidation(result);
+
+    if (result.isValid) {
+      onChange(candidate);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs">
+          <Settings2 className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+          Plan Configuration
+        </div>
+        {validation.isValid ? (
+          <span className="text-xs text-green-700 dark:text-green-400 flex items-center gap-1">
+            <CheckCircle className="w-3 h-3" />
+            Tree up to date
+          </span>
+        ) : (
+          <span className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+            <AlertCircle className="w-3 h-3" />
+            Fix errors to rebuild
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="plan-root-cidr" className="input-label">Root CIDR</label>
+          <input
+            id="plan-root-cidr"
+            type="text"
+            value={draft.rootCidr}
+            onChange={(e) => updateDraft('rootCidr', e.target.value)}
+            className="input-field font-mono"
+            autoComplete="off"
+          />
+          <FieldErrors validation={validation} field="rootCidr" />
+        </div>
+        <div>
+          <label htmlFor="plan-min-prefix" className="input-label">Minimum Prefix</label>
+          <input
+            id="plan-min-prefix"
+            type="number"
+            min="0"
+            max="32"
+            value={draft.minPrefix}
+            onChange={(e) => updateDraft('minPrefix', e.target.value)}
+            className="input-field font-mono"
+          />
+          <FieldErrors validation={validation} field="minPrefix" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {LIST_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label htmlFor={`plan-${field}`} className="input-label">{label} CIDRs</label>
+            <textarea
+              id={`plan-${field}`}
+              value={draft[field]}
+              onChange={(e) => updateDraft(field, e.target.value)}
+              rows={5}
+              placeholder="One CIDR per line"
+              className="input-field font-mono text-xs"
+            />
+            <FieldErrors validation={validation} field={field} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default PlanConfigForm;
@@ -1,6 +1,7 @@
 import { Copy, Check, Network, Wifi, Shield, Users, Globe, Zap, ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
 import type { SubnetInfo } from '../types/subnet';
+import { reservationProfileLabels } from '../config/reservationProfiles';
 
 interface ResultsTableProps {
   subnet: SubnetInfo;
@@ -9,6 +10,7 @@ interface ResultsTableProps {
 function ResultsTable({ subnet }: ResultsTableProps) {
   const [copiedField, setCopiedField] = useState<string>('');
   const [showBinaryExpanded, setShowBinaryExpanded] = useState<boolean>(false);
+  const { classification } = subnet;
 
   const copyToClipboard = async (text: string, field: string) => {
     try {
@@ -117,6 +119,36 @@ function ResultsTable({ subnet }: ResultsTableProps) {
 
   return (
     <div className="space-y-6">
+      {/* Address classification badges */}
+      {classification && (
+        <ul className="flex flex-wrap items-center gap-2 text-xs" aria-label="Address classification">
+          {classification.addressClass && (
+            <li className="px-2 py-0.5 rounded-full font-semibold bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200">
+              Class {classification.addressClass}
+            </li>
+          )}
+          {classification.specialPurpose.map((block) => (
+            <li
+              key={block.cidr}
+              title={`${block.cidr} (${block.rfc})`}
+              className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200"
+            >
+              {block.name}
+            </li>
+          ))}
+          <li
+            className={`px-2 py-0.5 rounded-full flex items-center gap-1 ${
+              classification.globallyRoutable
+                ? 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+            }`}
+          >
+            <Globe className="w-3 h-3" />
+            {classification.globallyRoutable ? 'Globally routable' : 'Not globally routable'}
+          </li>
+        </ul>
+      )}
+
       {/* Consolidated Network Analysis - 2 columns on desktop, 1 on mobile */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         {/* Left Column - Core Network Info */}
@@ -228,11 +260,12 @@ function ResultsTable({ subnet }: ResultsTableProps) {
               <div className="w-4 h-4 rounded-full bg-emerald-500 flex-shrink-0"></div>
               <div className="min-w-0">
                 <div className="text-sm font-medium text-gray-900 dark:text-white">First IP</div>
-                <div className="font-mono text-sm text-gray-900 dark:text-white">{subnet.firstUsable}</div>
+                <div className="font-mono text-sm text-gray-900 dark:text-white">{subnet.firstUsable || 'None'}</div>
               </div>
             </div>
             <button
               onClick={() => copyToClipboard(subnet.firstUsable, 'First Usable IP')}
+              disabled={!subnet.firstUsable}
               className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
               title="Copy First Usable IP"
             >
@@ -250,11 +283,12 @@ function ResultsTable({ subnet }: ResultsTableProps) {
               <div className="w-4 h-4 rounded-full bg-emerald-600 flex-shrink-0"></div>
               <div className="min-w-0">
                 <div className="text-sm font-medium text-gray-900 dark:text-white">Last IP</div>
-                <div className="font-mono text-sm text-gray-900 dark:text-white">{subnet.lastUsable}</div>
+                <div className="font-mono text-sm text-gray-900 dark:text-white">{subnet.lastUsable || 'None'}</div>
               </div>
             </div>
             <button
               onClick={() => copyToClipboard(subnet.lastUsable, 'Last Usable IP')}
+              disabled={!subnet.lastUsable}
               className="opacity-0 group-hover:opacity-100 transition-opacity p-1 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
               title="Copy Last Usable IP"
             >
@@ -275,6 +309,13 @@ function ResultsTable({ subnet }: ResultsTableProps) {
             <div className="text-center p-3 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg">
               <div className="text-lg font-bold text-emerald-600 dark:text-emerald-400">{subnet.usableHosts.toLocaleString()}</div>
               <div className="text-xs text-emerald-600 dark:text-emerald-400">Usable</div>
+              {subnet.reservation && (
+                <div className="text-[10px] text-emerald-700/80 dark:text-emerald-300/80 mt-0.5">
+                  {subnet.reservation.id === 'custom'
+                    ? `${subnet.reservation.reservedFirst} + ${subnet.reservation.reservedLast} reserved`
+                    : reservationProfileLabels[subnet.reservation.id]}
+                </div>
+              )}
             </div>
           </div>
 
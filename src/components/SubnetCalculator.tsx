@@ -1,28 +1,194 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { Calculator, Network, Divide, Moon, Sun, Download, Share2, Zap, Globe, Target, Star } from 'lucide-react';
-import type { SubnetInfo, SubnetInput } from '../types/subnet';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Calculator, Network, Divide, Moon, Sun, Download, Share2, Zap, Globe, Target, Star, Layers, Map, History, Upload, Combine, Terminal, Server, Cloud, ImageDown } from 'lucide-react';
+import type { IPRange, ReservationProfile, SubnetInfo, SubnetInput } from '../types/subnet';
+import type { VlsmResult } from '../types/vlsm';
+import type { TreePlanConfig } from '../types/subnetTree';
+import type { SharedState, Workspace } from '../types/workspace';
+import type { ImportMode } from '../types/import';
+import { defaultPlanConfig } from '../config/samplePlan';
 import { 
   validateIPAddress, 
   validateCIDR, 
   calculateSubnet,
+  detectIPVersion,
   divideSubnet,
-  joinSubnets
+  getMaxPrefix,
+  getSmallestCommonSubnet,
+  joinSubnets,
+  parseIPRange,
+  parseSubnetNotation,
+  withReservation
 } from '../utils/subnetCalculations';
+import { rangeToSubnets } from '../utils/cidrSet';
+import { subnetsToConfigTargets } from '../utils/deviceConfig';
+import { validateIPv6Address, validateIPv6Prefix } from '../utils/ipv6Calculations';
 import InputForm from './InputForm';
 import ResultsTable from './ResultsTable';
 import SubnetVisualization from './SubnetVisualization';
+import VlsmPanel from './VlsmPanel';
+import SummarizePanel from './SummarizePanel';
+import DeviceConfigPanel from './DeviceConfigPanel';
+import DhcpDnsPanel from './DhcpDnsPanel';
+import TerraformPanel from './TerraformPanel';
+import SubnetPlanner from './SubnetPlanner';
+import WorkspaceMenu from './WorkspaceMenu';
+import HistoryPanel from './HistoryPanel';
+import ImportPanel from './ImportPanel';
 import { useDarkMode } from '../hooks/useDarkMode';
-import { exportToJSON, exportToCSV, shareSubnetData } from '../utils/exportUtils';
+import { useHistory } from '../hooks/useHistory';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { restoreCalculatorSession, toCalculatorSession } from '../utils/workspaceStorage';
+import { exportToJSON, exportToCSV, exportToPNG, exportToSVG, shareSubnetData } from '../utils/exportUtils';
+import { renderSubnetBlocksSvg } from '../utils/imageExport';
+import { buildShareUrl, decodeShareState, readShareHash } from '../utils/urlState';
+
+type AppView = 'calculator' | 'planner';
+
+interface CalculatorSnapshot {
+  subnet: SubnetInfo | null;
+  subnets: SubnetInfo[];
+  // Set when the subnets are the blocks of an address range
+  range?: IPRange;
+}
+
+type PlannerSnapshot = Pick<Workspace, 'planConfig' | 'statusOverrides'>;
+
+function toPlannerSnapshot(workspace: Workspace): PlannerSnapshot {
+  return { planConfig: workspace.planConfig, statusOverrides: workspace.statusOverrides };
+}
+
+function subnetKey(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
 
 function SubnetCalculator() {
-  const [input, setInput] = useState<SubnetInput>({ ipAddress: '192.168.1.0', cidr: 24 });
-  const [subnet, setSubnet] = useState<SubnetInfo | null>(null);
+  const {
+    workspaces,
+    activeWorkspace,
+    selectWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    duplicateWorkspace,
+    deleteWorkspace,
+    updateActiveWorkspace
+  } = useWorkspaces();
+  const [initialSession] = useState(() => restoreCalculatorSession(activeWorkspace.calculator));
+  const [activeView, setActiveView] = useState<AppView>('calculator');
+  const [input, setInput] = useState<SubnetInput>(initialSession.input);
+  const calculatorHistory = useHistory<CalculatorSnapshot>({
+    subnet: initialSession.subnet,
+    subnets: initialSession.subnets
+  });
+  const plannerHistory = useHistory<PlannerSnapshot>(() => toPlannerSnapshot(activeWorkspace));
+  const { subnet, subnets, range } = calculatorHistory.present;
+  const { push: pushCalculator } = calculatorHistory;
+  const { push: pushPlanner } = plannerHistory;
   const [error, setError] = useState<string>('');
-  const [subnets, setSubnets] = useState<SubnetInfo[]>([]);
-  const [selectedSubnet, setSelectedSubnet] = useState<string>('');
+  const [selectedSubnet, setSelectedSubnet] = useState<string>(initialSession.selectedSubnet);
+  const [loadedWorkspaceId, setLoadedWorkspaceId] = useState(activeWorkspace.id);
   const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
+  const [imageScale, setImageScale] = useState<number>(2);
+  const [showImport, setShowImport] = useState<boolean>(false);
   const { isDark, toggleDarkMode } = useDarkMode();
   const exportMenuRef = useRef<HTMLDivElement>(null);
+
+  // Load the workspace state when another workspace becomes active.
+  // History does not carry across workspaces.
+  if (activeWorkspace.id !== loadedWorkspaceId) {
+    const session = restoreCalculatorSession(activeWorkspace.calculator);
+    setLoadedWorkspaceId(activeWorkspace.id);
+    setInput(session.input);
+    calculatorHistory.reset({ subnet: session.subnet, subnets: session.subnets });
+    plannerHistory.reset(toPlannerSnapshot(activeWorkspace));
+    setSelectedSubnet(session.selectedSubnet);
+    setError('');
+  }
+
+  // Persist calculator state into the active workspace
+  useEffect(() => {
+    updateActiveWorkspace({ calculator: toCalculatorSession(input, subnet, subnets, selectedSubnet) });
+  }, [input, subnet, subnets, selectedSubnet, updateActiveWorkspace]);
+
+  // Persist planner state into the active workspace
+  const plannerState = plannerHistory.present;
+  useEffect(() => {
+    updateActiveWorkspace(plannerState);
+  }, [plannerState, updateActiveWorkspace]);
+
+  // Restore state shared through the URL hash into a new workspace
+  useEffect(() => {
+    const encoded = readShareHash(window.location.hash);
+    if (!encoded) return;
+
+    // Drop the hash first so reloads and repeated effect runs import once
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    decodeShareState(encoded).then((state) => {
+      if (!state) {
+        setError('Shared link is invalid or was created by a newer version');
+        return;
+      }
+      createWorkspace('Shared link', { calculator: state.calculator, ...state.planner });
+      if (state.planner && state.calculator.subnetCidrs.length === 0) {
+        setActiveView('planner');
+      }
+    });
+  }, [createWorkspace]);
+
+  const handleShare = useCallback(async (includePlanner: boolean) => {
+    const state: SharedState = {
+      calculator: toCalculatorSession(input, subnet, subnets, selectedSubnet),
+      ...(includePlanner ? { planner: plannerState } : {})
+    };
+
+    let url = window.location.href;
+    try {
+      url = await buildShareUrl(state);
+    } catch (err) {
+      console.error('Failed to encode share link:', err);
+    }
+    shareSubnetData(subnets, url);
+  }, [input, subnet, subnets, selectedSubnet, plannerState]);
+
+  const handlePlanConfigChange = useCallback((planConfig: TreePlanConfig) => {
+    pushPlanner((prev) => ({ ...prev, planConfig }), 'Edit plan configuration', true);
+  }, [pushPlanner]);
+
+  const handlePlanChange = useCallback((change: Partial<PlannerSnapshot>, label: string) => {
+    pushPlanner((prev) => ({ ...prev, ...change }), label);
+  }, [pushPlanner]);
+
+  const handlePlannerReset = useCallback(() => {
+    pushPlanner({ planConfig: defaultPlanConfig, statusOverrides: {} }, 'Reset plan');
+  }, [pushPlanner]);
+
+  const activeHistory = activeView === 'planner' ? plannerHistory : calculatorHistory;
+  const { undo: undoActive, redo: redoActive } = activeHistory;
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) act on the visible view. Text
+  // fields keep their native undo.
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoActive();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoActive();
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undoActive, redoActive]);
   
   // Close export menu when clicking outside
   useEffect(() => {
@@ -38,6 +204,32 @@ function SubnetCalculator() {
     }
   }, [showExportMenu]);
 
+  // Switching the reservation profile recalculates the usable ranges already on screen
+  const handleInputChange = useCallback((next: SubnetInput) => {
+    setInput(next);
+    const profileKey = (profile?: ReservationProfile) =>
+      profile ? `${profile.id}:${profile.reservedFirst}:${profile.reservedLast}` : 'classic';
+    if (profileKey(next.reservation) === profileKey(input.reservation)) return;
+
+    // Typing custom counts coalesces into one undo step
+    pushCalculator(prev => ({
+      ...prev,
+      subnet: prev.subnet && withReservation(prev.subnet, next.reservation),
+      subnets: prev.subnets.map(s => withReservation(s, next.reservation))
+    }), `Reservation profile ${next.reservation?.id ?? 'classic'}`, next.reservation?.id === 'custom');
+  }, [input.reservation, pushCalculator]);
+
+  // Images follow the current theme so they match what is on screen
+  const renderBlocksImage = () =>
+    renderSubnetBlocksSvg(subnets, { theme: isDark ? 'dark' : 'light', selectedSubnet });
+
+  const handleExportPNG = () => {
+    setError('');
+    exportToPNG(renderBlocksImage(), 'subnet-blocks', imageScale).catch((err) => {
+      setError(`Unable to create the PNG: ${err instanceof Error ? err.message : 'rendering failed'}`);
+    });
+  };
+
   const handleCalculate = useCallback(() => {
     setError('');
     
@@ -45,85 +237,177 @@ function SubnetCalculator() {
     if (import.meta.env.MODE === 'test') {
       console.log('handleCalculate called with input:', input);
     }
-    
+
+    // A range becomes its CIDR blocks, analysed as the smallest subnet holding them all
+    if (input.ipAddress.includes('-')) {
+      try {
+        const parsed = parseIPRange(input.ipAddress);
+        pushCalculator(
+          {
+            subnet: withReservation(getSmallestCommonSubnet(parsed.start, parsed.end), input.reservation),
+            subnets: rangeToSubnets(parsed.start, parsed.end).map(s => withReservation(s, input.reservation)),
+            range: parsed
+          },
+          `Range ${parsed.start} - ${parsed.end}`
+        );
+        setSelectedSubnet('');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid range');
+      }
+      return;
+    }
+
+    const isIPv6 = detectIPVersion(input.ipAddress) === 6;
+
+    // IPv4 may also be typed as ip/prefix, ip mask, ip wildcard, hex or an integer
+    let target = input;
+    if (!isIPv6) {
+      const parsed = parseSubnetNotation(input.ipAddress);
+      if (!parsed.isValid || !parsed.ipAddress) {
+        setError(parsed.error || 'Invalid IP address');
+        return;
+      }
+      target = { ...input, ipAddress: parsed.ipAddress, cidr: parsed.cidr ?? input.cidr };
+      if (target.ipAddress !== input.ipAddress || target.cidr !== input.cidr) {
+        setInput(target);
+      }
+    }
+
     // Validate IP address
-    const ipValidation = validateIPAddress(input.ipAddress);
+    const ipValidation = isIPv6 ? validateIPv6Address(target.ipAddress) : validateIPAddress(target.ipAddress);
     if (!ipValidation.isValid) {
       setError(ipValidation.error || 'Invalid IP address');
       return;
     }
 
     // Validate CIDR - check both the input value and any potential out-of-range issues
-    const cidrValidation = validateCIDR(input.cidr);
+    const cidrValidation = isIPv6 ? validateIPv6Prefix(target.cidr) : validateCIDR(target.cidr);
     if (!cidrValidation.isValid) {
       setError(cidrValidation.error || 'Invalid CIDR notation');
       return;
     }
 
     try {
-      const result = calculateSubnet(input);
-      setSubnet(result);
-      setSubnets([result]);
-      setSelectedSubnet(`${result.networkAddress}/${result.cidr}`);
+      const result = calculateSubnet(target);
+      pushCalculator({ subnet: result, subnets: [result] }, `Calculate ${subnetKey(result)}`);
+      setSelectedSubnet(subnetKey(result));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Calculation error');
     }
-  }, [input]);
+  }, [input, pushCalculator]);
 
   const handleDivideSubnet = useCallback((subnetToDiv: SubnetInfo) => {
     try {
       const [subnet1, subnet2] = divideSubnet(subnetToDiv);
       
       // Replace the original subnet with its two halves
-      setSubnets(prev => {
-        const index = prev.findIndex(s => 
+      pushCalculator(prev => {
+        const index = prev.subnets.findIndex(s => 
           s.networkAddress === subnetToDiv.networkAddress && s.cidr === subnetToDiv.cidr
         );
         if (index !== -1) {
-          const newSubnets = [...prev];
+          const newSubnets = [...prev.subnets];
           newSubnets.splice(index, 1, subnet1, subnet2);
-          return newSubnets;
+          return { ...prev, subnets: newSubnets };
         }
-        return [...prev, subnet1, subnet2];
-      });
+        return { ...prev, subnets: [...prev.subnets, subnet1, subnet2] };
+      }, `Divide ${subnetKey(subnetToDiv)}`);
       
-      setSelectedSubnet(`${subnet1.networkAddress}/${subnet1.cidr}`);
+      setSelectedSubnet(subnetKey(subnet1));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Division error');
     }
-  }, []);
+  }, [pushCalculator]);
 
   const handleJoinSubnets = useCallback((subnet1: SubnetInfo, subnet2: SubnetInfo) => {
     try {
       const joined = joinSubnets(subnet1, subnet2);
       
       // Replace both subnets with the joined one
-      setSubnets(prev => {
-        const filtered = prev.filter(s => 
+      pushCalculator(prev => {
+        const filtered = prev.subnets.filter(s => 
           !(
             (s.networkAddress === subnet1.networkAddress && s.cidr === subnet1.cidr) ||
             (s.networkAddress === subnet2.networkAddress && s.cidr === subnet2.cidr)
           )
         );
-        return [...filtered, joined];
-      });
+        return { ...prev, subnets: [...filtered, joined] };
+      }, `Join ${subnetKey(subnet1)} + ${subnetKey(subnet2)}`);
       
-      setSelectedSubnet(`${joined.networkAddress}/${joined.cidr}`);
+      setSelectedSubnet(subnetKey(joined));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Join error');
     }
-  }, []);
+  }, [pushCalculator]);
+
+  const handleApplyVlsm = useCallback((result: VlsmResult) => {
+    const allocated = result.allocations.map(allocation => allocation.subnet);
+    const first = allocated[0];
+
+    setError('');
+    pushCalculator(
+      { subnet: result.parent, subnets: [...allocated, ...result.freeBlocks] },
+      `VLSM in ${subnetKey(result.parent)}`
+    );
+    setSelectedSubnet(first ? subnetKey(first) : '');
+  }, [pushCalculator]);
+
+  const handleImportSubnets = useCallback((rows: SubnetInfo[], mode: ImportMode) => {
+    const imported = rows.map(s => withReservation(s, input.reservation));
+    const count = `${imported.length} subnet${imported.length === 1 ? '' : 's'}`;
+    if (mode === 'merge') {
+      pushCalculator(prev => ({
+        subnet: prev.subnet ?? imported[0],
+        subnets: [...prev.subnets, ...imported]
+      }), `Merge ${count}`);
+    } else {
+      pushCalculator({ subnet: imported[0], subnets: imported }, `Import ${count}`);
+    }
+    setSelectedSubnet(subnetKey(imported[0]));
+    setError('');
+    setActiveView('calculator');
+  }, [input.reservation, pushCalculator]);
+
+  const handleImportPlan = useCallback((planConfig: TreePlanConfig, mode: ImportMode) => {
+    pushPlanner(prev => ({
+      planConfig,
+      statusOverrides: mode === 'merge' ? prev.statusOverrides : {}
+    }), mode === 'merge' ? 'Merge imported plan' : 'Import plan');
+    setActiveView('planner');
+  }, [pushPlanner]);
 
   const handleReset = useCallback(() => {
-    setSubnet(null);
-    setSubnets([]);
+    pushCalculator({ subnet: null, subnets: [] }, 'Reset calculator');
     setSelectedSubnet('');
     setError('');
-  }, []);
+  }, [pushCalculator]);
 
   const selectedSubnetInfo = subnets.find(s => 
     `${s.networkAddress}/${s.cidr}` === selectedSubnet
   );
+  const analyzedSubnet = selectedSubnetInfo || subnet;
+
+  // The hidden planner and generated config panels don't depend on the form input, so keep typing from re-rendering them
+  const plannerPanel = useMemo(() => (
+    <SubnetPlanner
+      key={activeWorkspace.id}
+      config={plannerState.planConfig}
+      statusOverrides={plannerState.statusOverrides}
+      onConfigChange={handlePlanConfigChange}
+      onPlanChange={handlePlanChange}
+      onReset={handlePlannerReset}
+      isDark={isDark}
+    />
+  ), [activeWorkspace.id, plannerState, handlePlanConfigChange, handlePlanChange, handlePlannerReset, isDark]);
+  const configTargets = useMemo(() => subnetsToConfigTargets(subnets), [subnets]);
+  const deviceConfigPanel = useMemo(() => <DeviceConfigPanel targets={configTargets} />, [configTargets]);
+  const terraformPanel = useMemo(() => <TerraformPanel targets={configTargets} />, [configTargets]);
+  const dhcpDnsPanel = useMemo(() => analyzedSubnet && (
+    <DhcpDnsPanel
+      key={`${analyzedSubnet.networkAddress}/${analyzedSubnet.cidr}`}
+      target={analyzedSubnet}
+    />
+  ), [analyzedSubnet]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 transition-colors duration-300">
@@ -151,9 +435,41 @@ function SubnetCalculator() {
             </div>
           </div>
           
+          {/* Center - View Tabs */}
+          <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl" role="tablist" aria-label="Views">
+            {([
+              { view: 'calculator', label: 'Calculator', Icon: Calculator },
+              { view: 'planner', label: 'Planner', Icon: Map }
+            ] as const).map(({ view, label, Icon }) => (
+              <button
+                key={view}
+                role="tab"
+                aria-selected={activeView === view}
+                onClick={() => setActiveView(view)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 ${
+                  activeView === view
+                    ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+          
           {/* Right - Controls */}
           <div className="flex items-center gap-2">
-            {subnets.length > 0 && (
+            <WorkspaceMenu
+              workspaces={workspaces}
+              activeWorkspaceId={activeWorkspace.id}
+              onSelect={selectWorkspace}
+              onCreate={createWorkspace}
+              onRename={renameWorkspace}
+              onDuplicate={duplicateWorkspace}
+              onDelete={deleteWorkspace}
+            />
+            {activeView === 'calculator' && subnets.length > 0 && (
               <div className="relative" ref={exportMenuRef}>
                 <button
                   onClick={() => setShowExportMenu(!showExportMenu)}
@@ -180,16 +496,67 @@ function SubnetCalculator() {
                       Export as CSV
                     </button>
                     <button
-                      onClick={() => { shareSubnetData(subnets); setShowExportMenu(false); }}
+                      onClick={() => { exportToSVG(renderBlocksImage(), 'subnet-blocks'); setShowExportMenu(false); }}
+                      className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
+                    >
+                      <ImageDown className="w-4 h-4 text-sky-500" />
+                      Blocks as SVG
+                    </button>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => { handleExportPNG(); setShowExportMenu(false); }}
+                        className="flex-1 text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
+                      >
+                        <ImageDown className="w-4 h-4 text-sky-500" />
+                        Blocks as PNG
+                      </button>
+                      <select
+                        value={imageScale}
+                        onChange={(e) => setImageScale(Number(e.target.value))}
+                        className="text-xs rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-1 py-1"
+                        aria-label="PNG scale"
+                      >
+                        {[1, 2, 3, 4].map((scale) => (
+                          <option key={scale} value={scale}>{scale}x</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      onClick={() => { handleShare(false); setShowExportMenu(false); }}
                       className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
                     >
                       <Share2 className="w-4 h-4 text-purple-500" />
                       Share Results
                     </button>
+                    <button
+                      onClick={() => { handleShare(true); setShowExportMenu(false); }}
+                      className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2"
+                    >
+                      <Share2 className="w-4 h-4 text-purple-500" />
+                      Share with Plan
+                    </button>
                   </div>
                 )}
               </div>
             )}
+            <button
+              onClick={() => setShowImport(true)}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              title="Import subnets or plan"
+              aria-label="Import subnets or plan"
+            >
+              <Upload className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </button>
+            {activeView === 'planner' && (
+              <button
+                onClick={() => handleShare(true)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                title="Share plan link"
+                aria-label="Share plan link"
+              >
+                <Share2 className="w-5 h-5 text-purple-500" />
+              </button>
+            )}
             <button
               onClick={toggleDarkMode}
               className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
@@ -201,8 +568,31 @@ function SubnetCalculator() {
           </div>
         </div>
 
+        {showImport && (
+          <ImportPanel
+            currentSubnets={subnets}
+            currentPlan={plannerState.planConfig}
+            onImportSubnets={handleImportSubnets}
+            onImportPlan={handleImportPlan}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {/* Planner View - kept mounted so tree edits survive tab switches */}
+        <div className={activeView === 'planner' ? '' : 'hidden'}>
+          <div className="subnet-card mb-6">
+            <HistoryPanel
+              history={plannerHistory.history}
+              onUndo={plannerHistory.undo}
+              onRedo={plannerHistory.redo}
+              onJump={plannerHistory.jumpTo}
+            />
+          </div>
+          {plannerPanel}
+        </div>
+
         {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className={`grid grid-cols-1 lg:grid-cols-3 gap-8 ${activeView === 'calculator' ? '' : 'hidden'}`}>
           {/* Input Section */}
           <div className="lg:col-span-1">
             <div className="subnet-card relative">
@@ -219,7 +609,7 @@ function SubnetCalculator() {
               </div>
               <InputForm
                 input={input}
-                onChange={setInput}
+                onChange={handleInputChange}
                 onCalculate={handleCalculate}
                 error={error}
               />
@@ -251,7 +641,7 @@ function SubnetCalculator() {
                     Reset Calculator
                   </button>
                   
-                  {selectedSubnetInfo && selectedSubnetInfo.cidr < 32 && (
+                  {selectedSubnetInfo && selectedSubnetInfo.cidr < getMaxPrefix(selectedSubnetInfo.version) && (
                     <button
                       onClick={() => handleDivideSubnet(selectedSubnetInfo)}
                       className="btn-primary w-full flex items-center justify-center gap-2"
@@ -264,6 +654,87 @@ function SubnetCalculator() {
                 </div>
               )}
             </div>
+
+            {/* VLSM Allocation */}
+            <div className="subnet-card relative mt-8">
+              <div className="subnet-header">
+                <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-xl">
+                  <Layers className="w-5 h-5 text-green-600 dark:text-green-400" />
+                </div>
+                VLSM Allocation
+              </div>
+              <VlsmPanel
+                defaultParent={`${input.ipAddress}/${input.cidr}`}
+                reservation={input.reservation}
+                onApply={handleApplyVlsm}
+              />
+            </div>
+
+            {/* Route Summarization */}
+            <div className="subnet-card relative mt-8">
+              <div className="subnet-header">
+                <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-xl">
+                  <Combine className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                </div>
+                Route Summarization
+              </div>
+              <SummarizePanel />
+            </div>
+
+            {/* Device Config */}
+            {subnets.length > 0 && (
+              <div className="subnet-card relative mt-8">
+                <div className="subnet-header">
+                  <div className="p-2 bg-slate-100 dark:bg-slate-800 rounded-xl">
+                    <Terminal className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+                  </div>
+                  Device Config
+                </div>
+                {deviceConfigPanel}
+              </div>
+            )}
+
+            {/* Terraform */}
+            {subnets.length > 0 && (
+              <div className="subnet-card relative mt-8">
+                <div className="subnet-header">
+                  <div className="p-2 bg-violet-100 dark:bg-violet-900/30 rounded-xl">
+                    <Cloud className="w-5 h-5 text-violet-600 dark:text-violet-400" />
+                  </div>
+                  Terraform
+                </div>
+                {terraformPanel}
+              </div>
+            )}
+
+            {/* DHCP & Reverse DNS */}
+            {analyzedSubnet && (
+              <div className="subnet-card relative mt-8">
+                <div className="subnet-header">
+                  <div className="p-2 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl">
+                    <Server className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+                  </div>
+                  DHCP &amp; Reverse DNS
+                </div>
+                {dhcpDnsPanel}
+              </div>
+            )}
+
+            {/* Command History */}
+            <div className="subnet-card relative mt-8">
+              <div className="subnet-header">
+                <div className="p-2 bg-gray-100 dark:bg-gray-800 rounded-xl">
+                  <History className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                </div>
+                History
+              </div>
+              <HistoryPanel
+                history={calculatorHistory.history}
+                onUndo={calculatorHistory.undo}
+                onRedo={calculatorHistory.redo}
+                onJump={calculatorHistory.jumpTo}
+              />
+            </div>
           </div>
 
           {/* Results Section */}
@@ -301,6 +772,7 @@ function SubnetCalculator() {
                   </div>
                   <SubnetVisualization
                     subnets={subnets}
+                    range={range}
                     selectedSubnet={selectedSubnet}
                     onSelectSubnet={setSelectedSubnet}
                     onDivideSubnet={handleDivideSubnet}
@@ -350,7 +822,9 @@ function SubnetCalculator() {
             <span>Keyboard shortcuts: </span>
             <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">Tab</kbd> to navigate, 
             <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">Enter</kbd> to select, 
-            <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">D</kbd> to divide
+            <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">D</kbd> to divide, 
+            <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">Ctrl+Z</kbd> /
+            <kbd className="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">Ctrl+Shift+Z</kbd> to undo / redo
           </div>
         </div>
       </div>
@@ -1,8 +1,46 @@
-import { useMemo, useState } from 'react';
-import { ChevronDown, Eye, EyeOff, Leaf, Map, RefreshCcw, Shield, Sparkles } from 'lucide-react';
-import type { ExplicitStatus, SubnetNode, SubnetTree } from '../types/subnetTree';
-import { defaultPlanConfig } from '../config/samplePlan';
-import { buildSubnetTree, calculateStatusTotals, getFreeBlocks, updateNodeStatus } from '../utils/subnetTree';
+import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { AlertCircle, BarChart3, ChevronDown, Cloud, ChevronUp, ClipboardList, Download, Eraser, Eye, EyeOff, Filter, Leaf, Map, PlusSquare, RefreshCcw, Search, Server, Shield, Sparkles, Tag, Terminal, X } from 'lucide-react';
+import type {
+  AllocationImportRow,
+  AllocationResult,
+  ExplicitStatus,
+  FlatTreeRow,
+  MetadataGroupKey,
+  NodeMetadata,
+  StatusOverrides,
+  SubnetNode,
+  SubnetTree,
+  TreePlanConfig
+} from '../types/subnetTree';
+import {
+  applyStatusOverrides,
+  buildSubnetTree,
+  calculateStatusTotals,
+  expandNodes,
+  flattenTree,
+  getFreeBlocks,
+  getLargestFreeBlock,
+  getNode,
+  getStatusOverrides,
+  hasImplicitChildren,
+  parseCidrRange,
+  releaseSubtree,
+  updateNodeStatus
+} from '../utils/subnetTree';
+import { calculateMetadataTotals, searchNodeMetadata, setNodeMetadata } from '../utils/nodeMetadata';
+import { exportPlanToCSV, exportPlanToJSON, exportToPNG, exportToSVG } from '../utils/exportUtils';
+import { renderPlannerTreeSvg } from '../utils/imageExport';
+import { getAncestorIds, searchPlannerTree } from '../utils/treeSearch';
+import { planToConfigTargets } from '../utils/deviceConfig';
+import PlanConfigForm from './PlanConfigForm';
+import AllocatePanel from './AllocatePanel';
+import AnalyticsPanel from './AnalyticsPanel';
+import BulkAllocationPanel from './BulkAllocationPanel';
+import DeviceConfigPanel from './DeviceConfigPanel';
+import DhcpDnsPanel from './DhcpDnsPanel';
+import TerraformPanel from './TerraformPanel';
+import NodeMetadataEditor from './NodeMetadataEditor';
+import VirtualList from './VirtualList';
 
 const STATUS_STYLES: Record<string, string> = {
   IN_USE: 'bg-slate-200 text-slate-900 border-slate-300',
@@ -12,6 +50,50 @@ const STATUS_STYLES: Record<string, string> = {
   PARTIAL: 'bg-[repeating-linear-gradient(135deg,#e2e8f0_0,#e2e8f0_12px,#f8fafc_12px,#f8fafc_24px)] text-slate-800 border-slate-300'
 };
 
+// Fixed row heights (px) for the virtualized tree, including the gap below each row
+const ROW_HEIGHT = 62;
+const METADATA_HEIGHT = 24;
+const EDITOR_HEIGHT = 280;
+const INDENT_WIDTH = 20;
+const TREE_VIEWPORT_HEIGHT = 640;
+const FREE_BLOCK_LIMIT = 8;
+
+const METADATA_GROUPS: { group: MetadataGroupKey; label: string }[] = [
+  { group: 'site', label: 'Site' },
+  { group: 'owner', label: 'Owner' },
+  { group: 'vlan', label: 'VLAN' },
+  { group: 'tag', label: 'Tag' }
+];
+
+// Fields edited through PlanConfigForm; other config changes leave its drafts alone
+function sameFormFields(a: TreePlanConfig, b: TreePlanConfig): boolean {
+  const lists = ['assignedCidrs', 'inUseCidrs', 'reservedCidrs', 'unavailableCidrs'] as const;
+  return (
+    a.rootCidr === b.rootCidr &&
+    a.minPrefix === b.minPrefix &&
+    lists.every((field) => (a[field] ?? []).join() === (b[field] ?? []).join())
+  );
+}
+
+function MetadataSummary({ metadata }: { metadata: NodeMetadata }) {
+  const details = [
+    metadata.vlanId !== undefined ? `VLAN ${metadata.vlanId}` : null,
+    metadata.site,
+    metadata.owner
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-600 dark:text-slate-400">
+      {metadata.name && <span className="font-semibold text-slate-800 dark:text-slate-200">{metadata.name}</span>}
+      {details.length > 0 && <span>{details.join(' • ')}</span>}
+      {metadata.tags?.map((tag) => (
+        <span key={tag} className="px-1.5 rounded bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700">{tag}</span>
+      ))}
+      {metadata.description && <span className="italic truncate max-w-xs" title={metadata.description}>{metadata.description}</span>}
+    </div>
+  );
+}
+
 function StatusBadge({ status }: { status: string }) {
   return (
     <span className={`px-2 py-1 rounded-full text-xs font-semibold border ${STATUS_STYLES[status] || STATUS_STYLES.UNAVAILABLE}`}>
@@ -20,20 +102,234 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
-function SubnetPlanner() {
-  const [tree, setTree] = useState<SubnetTree>(() => buildSubnetTree(defaultPlanConfig));
+interface SubnetPlannerProps {
+  config: TreePlanConfig;
+  statusOverrides: StatusOverrides;
+  onConfigChange: (config: TreePlanConfig) => void;
+  onPlanChange: (change: { planConfig?: TreePlanConfig; statusOverrides?: StatusOverrides }, label: string) => void;
+  onReset: () => void;
+  isDark?: boolean;
+}
+
+function SubnetPlanner({ config, statusOverrides, onConfigChange, onPlanChange, onReset, isDark = false }: SubnetPlannerProps) {
+  const [configVersion, setConfigVersion] = useState(0);
+  const [formConfig, setFormConfig] = useState(config);
   const [hideUnavailable, setHideUnavailable] = useState(false);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [showAllocate, setShowAllocate] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showDeviceConfig, setShowDeviceConfig] = useState(false);
+  const [showTerraform, setShowTerraform] = useState(false);
+  const [releaseReport, setReleaseReport] = useState<{ nodeId: string; freeBlocks: string[] } | null>(null);
   const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [serviceNodeId, setServiceNodeId] = useState<string | null>(null);
+  const [metadataQuery, setMetadataQuery] = useState('');
+  const [metadataGroup, setMetadataGroup] = useState<MetadataGroupKey>('site');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [imageScale, setImageScale] = useState(2);
+  const [exportError, setExportError] = useState('');
+  const [treeQuery, setTreeQuery] = useState('');
+  const [activeHit, setActiveHit] = useState(0);
+  const [onlyMatches, setOnlyMatches] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
 
+  const baseTree = useMemo(() => buildSubnetTree(config), [config]);
+  const tree = useMemo(
+    () => expandNodes(applyStatusOverrides(baseTree, statusOverrides), expanded),
+    [baseTree, statusOverrides, expanded]
+  );
   const totals = useMemo(() => calculateStatusTotals(tree), [tree]);
-  const freeBlocks = useMemo(() => getFreeBlocks(tree, [24, 25, 26]), [tree]);
+  const freeBlocks = useMemo(() => getFreeBlocks(tree, [24, 25, 26], FREE_BLOCK_LIMIT), [tree]);
+  const largestFreeBlock = useMemo(() => getLargestFreeBlock(tree), [tree]);
+  const metadataTotals = useMemo(() => calculateMetadataTotals(tree, metadataGroup), [tree, metadataGroup]);
+  const metadataMatches = useMemo(() => searchNodeMetadata(tree, metadataQuery), [tree, metadataQuery]);
+  const searchResult = useMemo(() => searchPlannerTree(tree, treeQuery), [tree, treeQuery]);
+  const hits = searchResult.nodeIds;
+  const hitSet = useMemo(() => new Set(hits), [hits]);
+  const pathIds = useMemo(() => new Set(hits.flatMap((id) => getAncestorIds(tree, id))), [tree, hits]);
+  const activeIndex = hits.length > 0 ? Math.min(activeHit, hits.length - 1) : -1;
+  const activeNodeId = activeIndex >= 0 ? hits[activeIndex] : null;
+  const serviceNode = serviceNodeId ? getNode(tree, serviceNodeId) : null;
+
+  const rows = useMemo(() => {
+    const filterToMatches = onlyMatches && hits.length > 0;
+    const insideHit = (node: SubnetNode) => {
+      for (let id = node.parentId; id; id = tree.nodes[id]?.parentId) {
+        if (hitSet.has(id)) return true;
+      }
+      return false;
+    };
+
+    // Search hits and the path down to them stay visible through both filters
+    return flattenTree(tree, collapsed, (node) => {
+      const onMatchPath = hitSet.has(node.id) || pathIds.has(node.id);
+      if (hideUnavailable && node.effectiveStatus === 'UNAVAILABLE' && !onMatchPath) return false;
+      return !filterToMatches || onMatchPath || insideHit(node);
+    });
+  }, [tree, collapsed, hideUnavailable, onlyMatches, hits, hitSet, pathIds]);
+  const activeRowIndex = useMemo(
+    () => (activeNodeId ? rows.findIndex((row) => row.node.id === activeNodeId) : -1),
+    [rows, activeNodeId]
+  );
+  const getRowHeight = useCallback(
+    ({ node }: FlatTreeRow) =>
+      ROW_HEIGHT + (node.metadata ? METADATA_HEIGHT : 0) + (node.id === editingNodeId ? EDITOR_HEIGHT : 0),
+    [editingNodeId]
+  );
+
+  // Close export menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setShowExportMenu(false);
+      }
+    }
 
-  const toggleCollapse = (nodeId: string) => {
-    setCollapsed((prev) => ({ ...prev, [nodeId]: !prev[nodeId] }));
+    if (showExportMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showExportMenu]);
+
+  // Images show the rows as currently expanded and filtered, in the current theme
+  const renderTreeImage = () =>
+    renderPlannerTreeSvg(rows, { theme: isDark ? 'dark' : 'light', title: `Plan ${config.rootCidr}` });
+
+  const handleExportPNG = () => {
+    setExportError('');
+    exportToPNG(renderTreeImage(), 'subnet-plan', imageScale).catch((err) => {
+      setExportError(`Unable to create the PNG: ${err instanceof Error ? err.message : 'rendering failed'}`);
+    });
+  };
+
+  const toggleCollapse = (node: SubnetNode) => {
+    if (hasImplicitChildren(tree, node)) {
+      setExpanded((prev) => [...prev, node.id]);
+      setCollapsed((prev) => ({ ...prev, [node.id]: false }));
+      return;
+    }
+    setCollapsed((prev) => ({ ...prev, [node.id]: !prev[node.id] }));
+  };
+
+  const expandTo = (nodeId: string) => {
+    const ancestors = getAncestorIds(tree, nodeId);
+    const implicit = ancestors.filter((id) => !tree.nodes[id] || hasImplicitChildren(tree, tree.nodes[id]));
+    if (implicit.length > 0) setExpanded((prev) => [...prev, ...implicit]);
+    if (ancestors.every((id) => !collapsed[id])) return;
+    setCollapsed((prev) => ({ ...prev, ...Object.fromEntries(ancestors.map((id) => [id, false])) }));
+  };
+
+  const handleTreeQueryChange = (query: string) => {
+    setTreeQuery(query);
+    setActiveHit(0);
+    const [first] = searchPlannerTree(tree, query).nodeIds;
+    if (first) expandTo(first);
+  };
+
+  const stepHit = (delta: number) => {
+    if (hits.length === 0) return;
+    const next = (activeIndex + delta + hits.length) % hits.length;
+    setActiveHit(next);
+    expandTo(hits[next]);
+  };
+
+  const handleTreeSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      stepHit(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      handleTreeQueryChange('');
+    }
+  };
+
+  // Config replaced from outside the form (reset, undo, redo): remount the
+  // form so its drafts pick up the new plan
+  if (config !== formConfig) {
+    setFormConfig(config);
+    if (!sameFormFields(config, formConfig)) {
+      setConfigVersion((prev) => prev + 1);
+      setCollapsed({});
+      setExpanded([]);
+    }
+  }
+
+  const handleConfigChange = (nextConfig: TreePlanConfig) => {
+    setFormConfig(nextConfig);
+    onConfigChange(nextConfig);
+    setCollapsed({});
+    setExpanded([]);
   };
 
   const handleStatusChange = (nodeId: string, status: ExplicitStatus) => {
-    setTree((prev) => updateNodeStatus(prev, nodeId, status, true));
+    const updated = updateNodeStatus(tree, nodeId, status, true);
+    onPlanChange({ statusOverrides: getStatusOverrides(updated, baseTree) }, `Mark ${nodeId} ${status}`);
+  };
+
+  const handleMetadataSave = (nodeId: string, metadata: NodeMetadata) => {
+    onPlanChange({ planConfig: setNodeMetadata(config, nodeId, metadata) }, `Edit metadata ${nodeId}`);
+    setEditingNodeId(null);
+  };
+
+  const handleBulkApply = (updatedTree: SubnetTree, appliedRows: AllocationImportRow[]) => {
+    const labelled = appliedRows.filter((row) => row.label);
+    const planConfig = labelled.reduce(
+      (plan, row) => setNodeMetadata(plan, row.cidr, { ...plan.nodeMetadata?.[row.cidr], name: row.label }),
+      config
+    );
+
+    onPlanChange(
+      {
+        statusOverrides: getStatusOverrides(updatedTree, baseTree),
+        ...(labelled.length > 0 ? { planConfig } : {})
+      },
+      `Bulk import ${appliedRows.length} allocation${appliedRows.length === 1 ? '' : 's'}`
+    );
+  };
+
+  const handleAllocate = ({ tree: updatedTree, node }: AllocationResult) => {
+    const name = node.metadata?.name;
+    onPlanChange(
+      {
+        statusOverrides: getStatusOverrides(updatedTree, baseTree),
+        ...(name ? { planConfig: setNodeMetadata(config, node.id, { ...config.nodeMetadata?.[node.id], name }) } : {})
+      },
+      `Allocate ${node.id}${name ? ` (${name})` : ''}`
+    );
+    handleTreeQueryChange(node.id);
+  };
+
+  const handleRelease = (node: SubnetNode) => {
+    const inside = (cidr: string) => {
+      const range = parseCidrRange(cidr);
+      return range.start >= node.start && range.end <= node.end;
+    };
+    const withoutInside = (cidrs?: string[]) => cidrs?.filter((cidr) => !inside(cidr));
+
+    // Entries inside the block go; broader entries stay
+    const planConfig = {
+      ...config,
+      inUseCidrs: withoutInside(config.inUseCidrs),
+      reservedCidrs: withoutInside(config.reservedCidrs),
+      unavailableCidrs: withoutInside(config.unavailableCidrs)
+    };
+    const releasedBase = buildSubnetTree(planConfig);
+    const remaining = applyStatusOverrides(
+      releasedBase,
+      Object.fromEntries(Object.entries(statusOverrides).filter(([nodeId]) => !inside(nodeId)))
+    );
+    const result = releaseSubtree(remaining, node.id);
+    if (!result) return;
+
+    // Overrides can't clear a status, so a block still covered by a broader
+    // entry is pinned to its default instead
+    const covered = getNode(remaining, node.id)?.explicitStatus !== undefined;
+    const finalTree = covered ? updateNodeStatus(remaining, node.id, node.defaultStatus, true) : result.tree;
+
+    onPlanChange({ planConfig, statusOverrides: getStatusOverrides(finalTree, releasedBase) }, `Release ${node.id}`);
+    setExpanded((prev) => prev.filter((nodeId) => !inside(nodeId)));
+    setReleaseReport({ nodeId: node.id, freeBlocks: result.freeBlocks.map((block) => block.id) });
   };
 
   const formatPercent = (value: number) => {
@@ -41,75 +337,113 @@ function SubnetPlanner() {
     return `${((value / totals.total) * 100).toFixed(1)}%`;
   };
 
-  const renderNode = (node: SubnetNode, depth = 0) => {
-    if (!node) return null;
-    if (hideUnavailable && node.effectiveStatus === 'UNAVAILABLE') return null;
-
-    const hasChildren = node.children.length > 0;
-    const isCollapsed = collapsed[node.id];
+  const renderRow = ({ node, depth }: FlatTreeRow) => {
+    const isHit = hitSet.has(node.id);
+    const hasChildren = node.children.length > 0 || hasImplicitChildren(tree, node);
+    const isCollapsed = collapsed[node.id] || node.children.length === 0;
     const dimUnavailable = node.effectiveStatus === 'UNAVAILABLE' && hideUnavailable;
+    const highlight = node.id === activeNodeId
+      ? 'ring-2 ring-amber-500 bg-amber-50 dark:bg-amber-900/20'
+      : isHit ? 'ring-2 ring-amber-300 dark:ring-amber-700' : '';
 
     return (
-      <div key={node.id} className={`rounded-xl border p-3 ${dimUnavailable ? 'opacity-40' : ''}`}>
-        <div className="flex flex-col gap-2">
-          <div className="flex items-center gap-3">
-            {hasChildren ? (
-              <button
-                onClick={() => toggleCollapse(node.id)}
-                className="w-7 h-7 inline-flex items-center justify-center rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition"
-                aria-label={isCollapsed ? 'Expand subnet' : 'Collapse subnet'}
-              >
-                <ChevronDown className={`w-4 h-4 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
-              </button>
-            ) : (
-              <div className="w-7 h-7 inline-flex items-center justify-center rounded-lg bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500">
-                <Leaf className="w-4 h-4" />
+      <div className="h-full pb-2 flex" style={{ paddingLeft: depth * INDENT_WIDTH }}>
+        <div
+          aria-current={node.id === activeNodeId ? 'true' : undefined}
+          className={`flex-1 min-w-0 rounded-xl border px-3 py-2 ${editingNodeId === node.id ? 'overflow-y-auto' : 'overflow-hidden'} ${dimUnavailable ? 'opacity-40' : ''} ${highlight}`}
+        >
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-3">
+              {hasChildren ? (
+                <button
+                  onClick={() => toggleCollapse(node)}
+                  className="w-7 h-7 inline-flex items-center justify-center rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 transition"
+                  aria-label={isCollapsed ? 'Expand subnet' : 'Collapse subnet'}
+                >
+                  <ChevronDown className={`w-4 h-4 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                </button>
+              ) : (
+                <div className="w-7 h-7 inline-flex items-center justify-center rounded-lg bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500">
+                  <Leaf className="w-4 h-4" />
+                </div>
+              )}
+
+              <div className="flex flex-col">
+                <span className="font-mono text-sm font-semibold text-slate-900 dark:text-slate-100">{node.network}/{node.prefix}</span>
+                <span className="text-xs text-slate-600 dark:text-slate-400">IPs: {node.totalIPs.toLocaleString()}</span>
               </div>
-            )}
 
-            <div className="flex flex-col">
-              <span className="font-mono text-sm font-semibold text-slate-900 dark:text-slate-100">{node.network}/{node.prefix}</span>
-              <span className="text-xs text-slate-600 dark:text-slate-400">IPs: {node.totalIPs.toLocaleString()}</span>
-            </div>
+              <StatusBadge status={node.effectiveStatus} />
 
-            <StatusBadge status={node.effectiveStatus} />
+              {node.explicitStatus && (
+                <span className="text-[10px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  Explicit: {node.explicitStatus}
+                </span>
+              )}
 
-            {node.explicitStatus && (
-              <span className="text-[10px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
-                Explicit: {node.explicitStatus}
-              </span>
-            )}
-
-            <div className="ml-auto flex gap-1">
-              {(['IN_USE', 'FREE', 'RESERVED', 'UNAVAILABLE'] as ExplicitStatus[]).map((status) => (
+              <div className="ml-auto flex gap-1">
+                {(['IN_USE', 'FREE', 'RESERVED', 'UNAVAILABLE'] as ExplicitStatus[]).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatusChange(node.id, status)}
+                    className={`px-2 py-1 rounded-md text-[11px] font-semibold border transition hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900 ${
+                      STATUS_STYLES[status]
+                    }`}
+                    title={`Mark ${node.network}/${node.prefix} as ${status}`}
+                  >
+                    {status}
+                  </button>
+                ))}
+                {(node.explicitStatus || node.effectiveStatus === 'PARTIAL') && (
+                  <button
+                    onClick={() => handleRelease(node)}
+                    className="px-2 py-1 rounded-md text-[11px] font-semibold border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 transition hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900"
+                    title={`Release ${node.network}/${node.prefix} back to its default status`}
+                    aria-label={`Release ${node.network}/${node.prefix}`}
+                  >
+                    <Eraser className="w-3 h-3" />
+                  </button>
+                )}
                 <button
-                  key={status}
-                  onClick={() => handleStatusChange(node.id, status)}
-                  className={`px-2 py-1 rounded-md text-[11px] font-semibold border transition hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900 ${
-                    STATUS_STYLES[status]
-                  }`}
-                  title={`Mark ${node.network}/${node.prefix} as ${status}`}
+                  onClick={() => setServiceNodeId(serviceNodeId === node.id ? null : node.id)}
+                  className="px-2 py-1 rounded-md text-[11px] font-semibold border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 transition hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900"
+                  title={`DHCP scope and reverse DNS for ${node.network}/${node.prefix}`}
+                  aria-label={`DHCP and DNS for ${node.network}/${node.prefix}`}
+                  aria-pressed={serviceNodeId === node.id}
                 >
-                  {status}
+                  <Server className="w-3 h-3" />
                 </button>
-              ))}
+                <button
+                  onClick={() => setEditingNodeId(editingNodeId === node.id ? null : node.id)}
+                  className="px-2 py-1 rounded-md text-[11px] font-semibold border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 transition hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-1 dark:focus:ring-offset-slate-900"
+                  title={`Edit metadata for ${node.network}/${node.prefix}`}
+                  aria-label={`Edit metadata for ${node.network}/${node.prefix}`}
+                  aria-expanded={editingNodeId === node.id}
+                >
+                  <Tag className="w-3 h-3" />
+                </button>
+              </div>
             </div>
-          </div>
-        </div>
 
-        {hasChildren && !isCollapsed && (
-          <div className="mt-3 ml-5 border-l border-dashed border-slate-200 dark:border-slate-700 pl-4 space-y-2">
-            {node.children.map((childId) => renderNode(tree.nodes[childId], depth + 1))}
+            {node.metadata && <MetadataSummary metadata={node.metadata} />}
           </div>
-        )}
+
+          {editingNodeId === node.id && (
+            <NodeMetadataEditor
+              nodeId={node.id}
+              metadata={node.metadata}
+              onSave={(metadata) => handleMetadataSave(node.id, metadata)}
+              onCancel={() => setEditingNodeId(null)}
+            />
+          )}
+        </div>
       </div>
     );
   };
 
-  const rootNode = tree.nodes[tree.rootId];
 
   return (
-    <div className="subnet-card mt-10 border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/60 rounded-2xl shadow-sm">
+    <div className="subnet-card border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/60 rounded-2xl shadow-sm">
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-3">
           <div className="p-2 rounded-xl bg-slate-100 dark:bg-slate-800">
@@ -117,12 +451,102 @@ function SubnetPlanner() {
           </div>
           <div>
             <div className="text-sm font-semibold text-slate-900 dark:text-slate-100">IPAM-lite Planner</div>
-            <div className="text-xs text-gray-600 dark:text-slate-400">Root: {defaultPlanConfig.rootCidr} " Min prefix /{defaultPlanConfig.minPrefix}</div>
+            <div className="text-xs text-gray-600 dark:text-slate-400">Root: {config.rootCidr} • Min prefix /{config.minPrefix}</div>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              aria-expanded={showExportMenu}
+              className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 top-full mt-2 w-48 card-elevated p-2 z-50 animate-scale-in">
+                <button
+                  onClick={() => { exportPlanToJSON(config); setShowExportMenu(false); }}
+                  className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                >
+                  Plan as JSON
+                </button>
+                <button
+                  onClick={() => { exportPlanToCSV(tree); setShowExportMenu(false); }}
+                  className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                >
+                  Nodes as CSV
+                </button>
+                <button
+                  onClick={() => { exportToSVG(renderTreeImage(), 'subnet-plan'); setShowExportMenu(false); }}
+                  className="w-full text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                >
+                  Tree as SVG
+                </button>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => { handleExportPNG(); setShowExportMenu(false); }}
+                    className="flex-1 text-left px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                  >
+                    Tree as PNG
+                  </button>
+                  <select
+                    value={imageScale}
+                    onChange={(e) => setImageScale(Number(e.target.value))}
+                    className="text-xs rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 px-1 py-1"
+                    aria-label="PNG scale"
+                  >
+                    {[1, 2, 3, 4].map((scale) => (
+                      <option key={scale} value={scale}>{scale}x</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setShowAllocate(!showAllocate)}
+            aria-expanded={showAllocate}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+          >
+            <PlusSquare className="w-4 h-4" />
+            Allocate
+          </button>
+          <button
+            onClick={() => setShowBulkImport(!showBulkImport)}
+            aria-expanded={showBulkImport}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Bulk Import
+          </button>
           <button
-            onClick={() => setTree(buildSubnetTree(defaultPlanConfig))}
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            aria-expanded={showAnalytics}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+          >
+            <BarChart3 className="w-4 h-4" />
+            Analytics
+          </button>
+          <button
+            onClick={() => setShowDeviceConfig(!showDeviceConfig)}
+            aria-expanded={showDeviceConfig}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+          >
+            <Terminal className="w-4 h-4" />
+            Device Config
+          </button>
+          <button
+            onClick={() => setShowTerraform(!showTerraform)}
+            aria-expanded={showTerraform}
+            className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+          >
+            <Cloud className="w-4 h-4" />
+            Terraform
+          </button>
+          <button
+            onClick={onReset}
             className="px-3 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1 focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
           >
             <RefreshCcw className="w-4 h-4" />
@@ -138,6 +562,54 @@ function SubnetPlanner() {
         </div>
       </div>
 
+      {exportError && (
+        <div className="status-error animate-scale-in mb-4">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {exportError}
+        </div>
+      )}
+
+      <PlanConfigForm key={configVersion} config={config} onChange={handleConfigChange} />
+
+      {showAllocate && (
+        <AllocatePanel
+          key={`${config.rootCidr}-${config.minPrefix}`}
+          tree={tree}
+          onAllocate={handleAllocate}
+          onLocate={handleTreeQueryChange}
+        />
+      )}
+
+      {showBulkImport && <BulkAllocationPanel tree={tree} config={config} onApply={handleBulkApply} />}
+
+      {showAnalytics && (
+        <AnalyticsPanel
+          key={`${config.rootCidr}-${config.minPrefix}`}
+          tree={tree}
+          onLocate={handleTreeQueryChange}
+        />
+      )}
+
+      {showDeviceConfig && (
+        <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+          <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+            <Terminal className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+            Device Config for In-Use Blocks
+          </div>
+          <DeviceConfigPanel targets={planToConfigTargets(tree)} />
+        </div>
+      )}
+
+      {showTerraform && (
+        <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800 mb-6">
+          <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+            <Cloud className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+            Terraform for In-Use Blocks
+          </div>
+          <TerraformPanel targets={planToConfigTargets(tree)} baseCidr={tree.rootId} />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
         <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 flex flex-col gap-2 border-slate-200 dark:border-slate-800">
           <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs">
@@ -170,10 +642,18 @@ function SubnetPlanner() {
             <Sparkles className="w-4 h-4 text-slate-800 dark:text-slate-100" />
             Free Blocks (/24, /25, /26)
           </div>
+          <div className="text-xs text-slate-600 dark:text-slate-400">
+            Largest free block:{' '}
+            {largestFreeBlock ? (
+              <span className="font-mono font-semibold text-slate-900 dark:text-slate-100">
+                {largestFreeBlock.id} ({largestFreeBlock.totalIPs.toLocaleString()} IPs)
+              </span>
+            ) : 'none'}
+          </div>
           {freeBlocks.length === 0 && (
             <div className="text-sm text-slate-600 dark:text-slate-400">No free blocks at these sizes.</div>
           )}
-          {freeBlocks.slice(0, 8).map((block) => (
+          {freeBlocks.map((block) => (
             <div key={block.id} className="text-sm font-mono flex justify-between text-slate-900 dark:text-slate-100">
               <span>{block.network}/{block.prefix}</span>
               <span className="text-slate-600 dark:text-slate-400">{block.totalIPs.toLocaleString()} IPs</span>
@@ -187,16 +667,183 @@ function SubnetPlanner() {
             Assigned Ranges
           </div>
           <div className="text-sm text-slate-700 dark:text-slate-300 space-y-1">
-            {defaultPlanConfig.assignedCidrs.map((cidr) => (
+            {config.assignedCidrs.map((cidr) => (
               <div key={cidr} className="font-mono">{cidr}</div>
             ))}
           </div>
         </div>
       </div>
 
-      <div className="space-y-2">
-        {rootNode ? renderNode(rootNode) : <div className="text-sm text-slate-600 dark:text-slate-400">No tree data.</div>}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 flex flex-col gap-2 border-slate-200 dark:border-slate-800">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs">
+              <Tag className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+              Totals by Metadata
+            </div>
+            <div className="flex gap-1" role="radiogroup" aria-label="Group totals by">
+              {METADATA_GROUPS.map(({ group, label }) => (
+                <button
+                  key={group}
+                  role="radio"
+                  aria-checked={metadataGroup === group}
+                  onClick={() => setMetadataGroup(group)}
+                  className={`px-2 py-0.5 rounded-md text-[11px] font-semibold border transition ${
+                    metadataGroup === group
+                      ? 'bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 border-slate-900 dark:border-slate-100'
+                      : 'border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="max-h-48 overflow-y-auto text-xs">
+            {metadataTotals.map(({ value, totals: groupTotals }) => (
+              <div key={value} className="flex justify-between py-1 border-b border-slate-100 dark:border-slate-800 last:border-0">
+                <span className={value ? 'font-semibold text-slate-900 dark:text-slate-100' : 'italic text-slate-500 dark:text-slate-400'}>
+                  {value || 'Unlabeled'}
+                </span>
+                <span className="text-slate-600 dark:text-slate-400">
+                  {groupTotals.total.toLocaleString()} IPs • {groupTotals.IN_USE.toLocaleString()} in use • {groupTotals.FREE.toLocaleString()} free
+                </span>
+              </div>
+            ))}
+          </div>
+          {metadataGroup === 'tag' && (
+            <div className="text-[11px] text-slate-500 dark:text-slate-400">Addresses with several tags count toward each tag.</div>
+          )}
+        </div>
+
+        <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 flex flex-col gap-2 border-slate-200 dark:border-slate-800">
+          <label htmlFor="metadata-search" className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs">
+            <Search className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+            Search Metadata
+          </label>
+          <input
+            id="metadata-search"
+            type="search"
+            value={metadataQuery}
+            onChange={(e) => setMetadataQuery(e.target.value)}
+            placeholder="Name, site, owner, tag, vlan 120, key=value"
+            className="input-field text-sm"
+          />
+          {metadataQuery.trim() && (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {metadataMatches.length === 0 && (
+                <div className="text-sm text-slate-600 dark:text-slate-400">No nodes match.</div>
+              )}
+              {metadataMatches.map((node) => (
+                <button
+                  key={node.id}
+                  onClick={() => handleTreeQueryChange(node.id)}
+                  className="w-full flex items-center gap-2 text-xs text-left rounded px-1 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  title={`Show ${node.id} in the tree`}
+                >
+                  <span className="font-mono font-semibold text-slate-900 dark:text-slate-100">{node.id}</span>
+                  {node.metadata && <MetadataSummary metadata={node.metadata} />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {releaseReport && (
+        <div role="status" className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300 p-2 rounded-lg bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700">
+          <span>
+            Released <span className="font-mono font-semibold">{releaseReport.nodeId}</span>.{' '}
+            {releaseReport.freeBlocks.length > 0
+              ? <>Free blocks now: <span className="font-mono">{releaseReport.freeBlocks.join(', ')}</span></>
+              : 'It is outside the assigned ranges, so no free space was added.'}
+          </span>
+          <button
+            onClick={() => setReleaseReport(null)}
+            className="ml-auto p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+            aria-label="Dismiss release summary"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {serviceNode && (
+        <div className="p-4 rounded-xl border bg-white dark:bg-slate-900/50 border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-2 text-gray-600 dark:text-slate-300 text-xs mb-3">
+            <Server className="w-4 h-4 text-slate-800 dark:text-slate-100" />
+            DHCP &amp; Reverse DNS for <span className="font-mono font-semibold">{serviceNode.id}</span>
+            <button
+              onClick={() => setServiceNodeId(null)}
+              className="ml-auto p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+              aria-label="Close DHCP and DNS"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <DhcpDnsPanel key={serviceNode.id} target={serviceNode} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[16rem]">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 dark:text-slate-400" />
+          <input
+            type="search"
+            value={treeQuery}
+            onChange={(e) => handleTreeQueryChange(e.target.value)}
+            onKeyDown={handleTreeSearchKeyDown}
+            placeholder="Find IP, CIDR, status or label (Enter / Shift+Enter to step)"
+            aria-label="Search planner tree"
+            className="input-field text-sm pl-9"
+          />
+        </div>
+        {treeQuery.trim() && (
+          <span className="text-xs text-slate-600 dark:text-slate-400" aria-live="polite">
+            {hits.length > 0 ? `${activeIndex + 1} of ${hits.length}` : 'No matches'}
+          </span>
+        )}
+        <button
+          onClick={() => stepHit(-1)}
+          disabled={hits.length === 0}
+          className="w-8 h-8 inline-flex items-center justify-center rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+          aria-label="Previous match"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => stepHit(1)}
+          disabled={hits.length === 0}
+          className="w-8 h-8 inline-flex items-center justify-center rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+          aria-label="Next match"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setOnlyMatches((prev) => !prev)}
+          className={`px-3 py-2 rounded-lg text-xs font-semibold border border-slate-200 dark:border-slate-700 flex items-center gap-1 ${
+            onlyMatches ? 'bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900' : 'hover:bg-slate-50 dark:hover:bg-slate-800'
+          }`}
+          aria-pressed={onlyMatches}
+        >
+          <Filter className="w-4 h-4" />
+          Only Matches
+        </button>
       </div>
+
+      {rows.length > 0 ? (
+        <VirtualList
+          items={rows}
+          height={TREE_VIEWPORT_HEIGHT}
+          getItemHeight={getRowHeight}
+          getKey={(row) => row.node.id}
+          renderItem={renderRow}
+          scrollToIndex={activeRowIndex >= 0 ? activeRowIndex : undefined}
+          ariaLabel="Subnet tree"
+        />
+      ) : (
+        <div className="text-sm text-slate-600 dark:text-slate-400">No tree data.</div>
+      )}
     </div>
   );
 }
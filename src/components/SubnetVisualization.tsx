@@ -1,10 +1,11 @@
 import { ChevronRight, Divide, Merge } from 'lucide-react';
 import { useMemo, useCallback, useState } from 'react';
-import type { SubnetInfo } from '../types/subnet';
-import { canJoinSubnets } from '../utils/subnetCalculations';
+import type { IPRange, SubnetInfo } from '../types/subnet';
+import { canJoinSubnets, compareSubnets, getMaxPrefix, ipToInt } from '../utils/subnetCalculations';
 
 interface SubnetVisualizationProps {
   subnets: SubnetInfo[];
+  range?: IPRange;
   selectedSubnet: string;
   onSelectSubnet: (subnet: string) => void;
   onDivideSubnet: (subnet: SubnetInfo) => void;
@@ -13,6 +14,7 @@ interface SubnetVisualizationProps {
 
 function SubnetVisualization({
   subnets,
+  range,
   selectedSubnet,
   onSelectSubnet,
   onDivideSubnet,
@@ -22,13 +24,19 @@ function SubnetVisualization({
   const [firstSelectedForJoin, setFirstSelectedForJoin] = useState<SubnetInfo | null>(null);
   // Sort subnets by network address for consistent display - memoized for performance
   const sortedSubnets = useMemo(() => {
-    return [...subnets].sort((a, b) => {
-      const aInt = a.networkAddress.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0);
-      const bInt = b.networkAddress.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0);
-      return aInt - bInt;
-    });
+    return [...subnets].sort(compareSubnets);
   }, [subnets]);
 
+  // Blocks that make up the range, laid end to end
+  const rangeBlocks = useMemo(() => {
+    if (!range) return [];
+    const start = ipToInt(range.start);
+    const end = ipToInt(range.end);
+    return sortedSubnets.filter((subnet) =>
+      subnet.version === 4 && ipToInt(subnet.networkAddress) >= start && ipToInt(subnet.broadcastAddress) <= end
+    );
+  }, [range, sortedSubnets]);
+
   // Calculate visual representation - memoized for performance
   const { maxCidr, minCidr } = useMemo(() => {
     const cidrs = subnets.map(s => s.cidr);
@@ -114,6 +122,39 @@ function SubnetVisualization({
 
   return (
     <div className="space-y-6">
+      {/* Range Blocks */}
+      {range && rangeBlocks.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Range Blocks</h3>
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              <span className="font-mono">{range.start} - {range.end}</span>
+              {' '}as {rangeBlocks.length} CIDR block{rangeBlocks.length === 1 ? '' : 's'},{' '}
+              {rangeBlocks.reduce((acc, block) => acc + block.totalHosts, 0).toLocaleString()} addresses
+            </div>
+          </div>
+          <div className="flex w-full h-8 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700" role="list" aria-label="Range blocks">
+            {rangeBlocks.map((block) => {
+              const blockKey = `${block.networkAddress}/${block.cidr}`;
+              return (
+                <button
+                  key={blockKey}
+                  type="button"
+                  role="listitem"
+                  onClick={() => onSelectSubnet(blockKey)}
+                  className={`h-full border-r last:border-r-0 border-white/60 transition-colors ${
+                    selectedSubnet === blockKey ? 'bg-subnet-500' : 'bg-subnet-200 hover:bg-subnet-300'
+                  }`}
+                  style={{ flexGrow: block.totalHosts, flexBasis: 0, minWidth: '4px' }}
+                  title={`${blockKey} (${block.totalHosts.toLocaleString()} address${block.totalHosts === 1 ? '' : 'es'})`}
+                  aria-label={`Select ${blockKey}`}
+                />
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Visual Blocks */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -162,6 +203,7 @@ function SubnetVisualization({
             const subnetKey = `${subnet.networkAddress}/${subnet.cidr}`;
             const isSelected = selectedSubnet === subnetKey;
             const width = getSubnetWidth(subnet.cidr);
+            const canDivide = subnet.cidr < getMaxPrefix(subnet.version);
             
             return (
               <div
@@ -174,7 +216,7 @@ function SubnetVisualization({
                 style={{ width: `${Math.max(width, 20)}%`, minHeight: '44px' }}
                 onClick={() => handleSubnetClick(subnet)}
                 onDoubleClick={() => {
-                  if (subnet.cidr < 32) {
+                  if (canDivide) {
                     onDivideSubnet(subnet);
                   }
                 }}
@@ -182,7 +224,7 @@ function SubnetVisualization({
                   if (e.key === 'Enter' || e.key === ' ') {
                     e.preventDefault();
                     handleSubnetClick(subnet);
-                  } else if (e.key === 'd' && subnet.cidr < 32 && !joiningMode) {
+                  } else if (e.key === 'd' && canDivide && !joiningMode) {
                     e.preventDefault();
                     onDivideSubnet(subnet);
                   } else if (e.key === 'j' && canShowJoinMode) {
@@ -196,7 +238,7 @@ function SubnetVisualization({
                 }}
                 tabIndex={0}
                 role="button"
-                aria-label={`Select subnet ${subnetKey} with ${subnet.usableHosts.toLocaleString()} usable hosts. ${subnet.cidr < 32 ? 'Press D to divide or double-click.' : ''}`}
+                aria-label={`Select subnet ${subnetKey} with ${subnet.usableHosts.toLocaleString()} usable hosts. ${canDivide ? 'Press D to divide or double-click.' : ''}`}
                 title={`${subnetKey} - ${subnet.usableHosts.toLocaleString()} usable hosts`}
               >
                 {/* Subnet Header */}
@@ -204,7 +246,7 @@ function SubnetVisualization({
                   <div className="font-mono text-sm font-semibold">
                     {subnetKey}
                   </div>
-                  {subnet.cidr < 32 && (
+                  {canDivide && (
                     <div className="flex items-center gap-1">
                       <button
                         onClick={(e) => {
@@ -228,7 +270,7 @@ function SubnetVisualization({
                   <div className="flex justify-between">
                     <span className="text-black/70">Range:</span>
                     <span className="font-mono">
-                      {subnet.firstUsable} - {subnet.lastUsable}
+                      {subnet.usableHosts > 0 ? `${subnet.firstUsable} - ${subnet.lastUsable}` : 'None'}
                     </span>
                   </div>
                   <div className="flex justify-between">
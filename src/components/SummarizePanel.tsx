@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { AlertCircle, Combine } from 'lucide-react';
+import type { SummarizeMode, SummaryResult } from '../types/summarize';
+import { parseRouteList, summarizeRoutes } from '../utils/summarize';
+
+function SummarizePanel() {
+  const [routesText, setRoutesText] = useState('10.0.0.0/24\n10.0.1.0/24\n10.0.2.0/24');
+  const [mode, setMode] = useState<SummarizeMode>('exact');
+  const [result, setResult] = useState<SummaryResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSummarize = () => {
+    const parsed = parseRouteList(routesText);
+    if (parsed.subnets.length === 0) {
+      setResult(null);
+      setErrors(parsed.errors.length > 0 ? parsed.errors : ['Enter at least one route']);
+      return;
+    }
+
+    setResult(summarizeRoutes(parsed.subnets, mode));
+    setErrors(parsed.errors);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="input-group">
+        <label htmlFor="summarize-routes" className="input-label">
+          Routes
+        </label>
+        <textarea
+          id="summarize-routes"
+          value={routesText}
+          onChange={(e) => setRoutesText(e.target.value)}
+          rows={4}
+          placeholder="10.0.0.0/24, 10.0.1.0/24"
+          className="input-field font-mono text-sm"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Paste IPv4 CIDRs separated by commas, spaces or newlines. Bare addresses count as /32.
+        </p>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="summarize-mode" className="input-label">
+          Mode
+        </label>
+        <select
+          id="summarize-mode"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as SummarizeMode)}
+          className="input-field text-sm"
+        >
+          <option value="exact">Exact (never covers extra space)</option>
+          <option value="lossy">Lossy (single smallest supernet)</option>
+        </select>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSummarize}
+        className="btn-primary w-full flex items-center justify-center gap-2"
+      >
+        <Combine className="w-4 h-4" />
+        Summarize Routes
+      </button>
+
+      {errors.length > 0 && (
+        <div className="status-error animate-scale-in">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <div className="space-y-1">
+            {/* The same route can repeat with the same error, so key by position */}
+            {errors.map((error, index) => (
+              <div key={index}>{error}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <ul className="space-y-2" aria-label="Summary routes">
+            {result.summaries.map((summary) => (
+              <li
+                key={`${summary.networkAddress}/${summary.cidr}`}
+                className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-xs"
+              >
+                <div className="flex justify-between">
+                  <span className="font-mono font-semibold text-sm text-gray-900 dark:text-white">
+                    {summary.networkAddress}/{summary.cidr}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">{summary.totalHosts.toLocaleString()} addresses</span>
+                </div>
+                <div className="font-mono text-gray-600 dark:text-gray-400">
+                  {summary.subnetMask} • {summary.networkAddress} – {summary.broadcastAddress}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="text-xs text-gray-600 dark:text-gray-400" aria-live="polite">
+            {result.summaries.length} route{result.summaries.length === 1 ? '' : 's'} covering{' '}
+            {result.inputAddresses.toLocaleString()} input addresses
+            {result.extraAddresses > 0 && (
+              <span className="block text-amber-700 dark:text-amber-400">
+                Also advertises {result.extraAddresses.toLocaleString()} addresses not in the input
+                ({((result.extraAddresses / result.coveredAddresses) * 100).toFixed(1)}% of the summary)
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SummarizePanel;
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { AlertCircle, Download } from 'lucide-react';
+import type { ConfigTarget } from '../types/deviceConfig';
+import type { TerraformFormat } from '../types/terraform';
+import { generateTerraform } from '../utils/terraformExport';
+import { exportTerraform } from '../utils/exportUtils';
+
+const FORMAT_LABELS: Record<TerraformFormat, string> = {
+  aws: 'AWS (aws_subnet)',
+  azure: 'Azure (azurerm_subnet)',
+  google: 'Google Cloud (google_compute_subnetwork)',
+  locals: 'locals map (cidrsubnets)'
+};
+
+interface TerraformPanelProps {
+  targets: ConfigTarget[];
+  baseCidr?: string;
+}
+
+function TerraformPanel({ targets, baseCidr }: TerraformPanelProps) {
+  const [format, setFormat] = useState<TerraformFormat>('aws');
+
+  let hcl = '';
+  let error = '';
+  try {
+    hcl = generateTerraform(targets, format, { baseCidr });
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Could not build the Terraform export';
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="input-group">
+        <label htmlFor="terraform-format" className="input-label">Output</label>
+        <select
+          id="terraform-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TerraformFormat)}
+          className="input-field text-sm"
+        >
+          {(Object.keys(FORMAT_LABELS) as TerraformFormat[]).map((value) => (
+            <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <div className="status-error animate-scale-in">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      ) : (
+        <pre
+          aria-label="Terraform HCL"
+          className="max-h-72 overflow-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 font-mono text-xs text-gray-800 dark:text-gray-200"
+        >
+          {hcl}
+        </pre>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>{targets.length} subnet{targets.length === 1 ? '' : 's'}</span>
+        <button
+          type="button"
+          onClick={() => exportTerraform(targets, format, { baseCidr })}
+          disabled={targets.length === 0 || Boolean(error)}
+          className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Download .tf
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TerraformPanel;
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { getItemOffsets, getScrollTopForIndex, getVisibleRange } from '../utils/virtualList';
+
+interface VirtualListProps<T> {
+  items: T[];
+  height: number;
+  getItemHeight: (item: T, index: number) => number;
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  scrollToIndex?: number;
+  overscan?: number;
+  ariaLabel?: string;
+}
+
+// Renders only the items inside the scroll viewport, with spacers standing in for the rest
+function VirtualList<T>({
+  items,
+  height,
+  getItemHeight,
+  getKey,
+  renderItem,
+  scrollToIndex,
+  overscan = 8,
+  ariaLabel
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrolledToRef = useRef<number | undefined>(undefined);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const offsets = useMemo(() => getItemOffsets(items.map(getItemHeight)), [items, getItemHeight]);
+  const totalHeight = offsets[offsets.length - 1];
+  const viewportHeight = Math.min(height, totalHeight);
+  const { start, end } = getVisibleRange(offsets, scrollTop, viewportHeight, overscan);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    // Scroll once per requested index so later edits don't pull the view back
+    if (!container || scrollToIndex === scrolledToRef.current) return;
+    scrolledToRef.current = scrollToIndex;
+    if (scrollToIndex === undefined) return;
+
+    const next = getScrollTopForIndex(offsets, scrollToIndex, container.scrollTop, viewportHeight);
+    if (next !== container.scrollTop) {
+      container.scrollTop = next;
+      setScrollTop(next);
+    }
+  }, [scrollToIndex, offsets, viewportHeight]);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      style={{ height: viewportHeight }}
+      className="overflow-y-auto"
+      role="list"
+      aria-label={ariaLabel}
+    >
+      <div style={{ height: offsets[start] }} />
+      {items.slice(start, end).map((item, i) => (
+        <div key={getKey(item)} role="listitem" style={{ height: offsets[start + i + 1] - offsets[start + i] }}>
+          {renderItem(item, start + i)}
+        </div>
+      ))}
+      <div style={{ height: totalHeight - offsets[end] }} />
+    </div>
+  );
+}
+
+export default VirtualList;
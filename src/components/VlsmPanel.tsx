@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { AlertCircle, Layers, ListChecks } from 'lucide-react';
+import type { ReservationProfile } from '../types/subnet';
+import type { VlsmResult } from '../types/vlsm';
+import { validateCIDR, validateIPAddress } from '../utils/subnetCalculations';
+import { allocateVlsm, parseVlsmRequirements } from '../utils/vlsm';
+
+interface VlsmPanelProps {
+  defaultParent: string;
+  reservation?: ReservationProfile;
+  onApply: (result: VlsmResult) => void;
+}
+
+function VlsmPanel({ defaultParent, reservation, onApply }: VlsmPanelProps) {
+  const [parentCidr, setParentCidr] = useState(defaultParent);
+  const [requirementsText, setRequirementsText] = useState('Users: 500 hosts, DMZ: 30, Links: 2 x 4');
+  const [result, setResult] = useState<VlsmResult | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleAllocate = () => {
+    const [ip, rawPrefix] = parentCidr.trim().split('/');
+    const ipValidation = validateIPAddress(ip ?? '');
+    const cidrValidation = rawPrefix === undefined || rawPrefix === ''
+      ? { isValid: false, error: 'Parent block needs a /prefix' }
+      : validateCIDR(Number(rawPrefix));
+
+    if (!ipValidation.isValid || !cidrValidation.isValid) {
+      setResult(null);
+      setErrors([ipValidation.error || cidrValidation.error || 'Invalid parent block']);
+      return;
+    }
+
+    const parsed = parseVlsmRequirements(requirementsText, Number(rawPrefix), reservation);
+    if (parsed.requirements.length === 0) {
+      setResult(null);
+      setErrors(parsed.errors.length > 0 ? parsed.errors : ['Enter at least one requirement']);
+      return;
+    }
+
+    try {
+      setResult(allocateVlsm(parentCidr, parsed.requirements, reservation));
+      setErrors(parsed.errors);
+    } catch (err) {
+      setResult(null);
+      setErrors([err instanceof Error ? err.message : 'Allocation error']);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="input-group">
+        <label htmlFor="vlsm-parent" className="input-label">
+          Parent Block
+        </label>
+        <input
+          id="vlsm-parent"
+          type="text"
+          value={parentCidr}
+          onChange={(e) => setParentCidr(e.target.value)}
+          placeholder="10.0.0.0/22"
+          className="input-field font-mono"
+          autoComplete="off"
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="vlsm-requirements" className="input-label">
+          Host Requirements
+        </label>
+        <textarea
+          id="vlsm-requirements"
+          value={requirementsText}
+          onChange={(e) => setRequirementsText(e.target.value)}
+          rows={3}
+          placeholder="Users: 500 hosts, DMZ: 30, Links: 2 x 4"
+          className="input-field font-mono text-sm"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Comma or newline separated. Use <span className="font-mono">2 x 4</span> for repeated subnets.
+        </p>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleAllocate}
+        className="btn-primary w-full flex items-center justify-center gap-2"
+      >
+        <Layers className="w-4 h-4" />
+        Allocate Subnets
+      </button>
+
+      {errors.length > 0 && (
+        <div className="status-error animate-scale-in">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <div className="space-y-1">
+            {/* Names and errors can repeat, so rows are keyed by position */}
+            {errors.map((error, index) => (
+              <div key={index}>{error}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            {result.allocations.map((allocation, index) => (
+              <div key={index} className="flex justify-between text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {allocation.name}
+                  <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({allocation.requestedHosts})</span>
+                </span>
+                <span className="font-mono text-gray-900 dark:text-white">
+                  {allocation.subnet.networkAddress}/{allocation.subnet.cidr}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {result.unallocated.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-xs space-y-1">
+              {result.unallocated.map((failure, index) => (
+                <div key={index} className="text-red-700 dark:text-red-400">
+                  <span className="font-semibold">{failure.name}</span> ({failure.requestedHosts} hosts): {failure.reason}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            <div>
+              Free: {result.freeAddresses.toLocaleString()} of {result.parent.totalHosts.toLocaleString()} addresses
+            </div>
+            {result.freeBlocks.length > 0 && (
+              <div className="font-mono mt-1">
+                {result.freeBlocks.map((block) => `${block.networkAddress}/${block.cidr}`).join(', ')}
+              </div>
+            )}
+          </div>
+
+          {result.allocations.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onApply(result)}
+              className="btn-secondary w-full"
+            >
+              <ListChecks className="w-4 h-4" />
+              Show in Visualization
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VlsmPanel;
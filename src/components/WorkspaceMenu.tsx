@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Copy, FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { Workspace } from '../types/workspace';
+
+interface WorkspaceMenuProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  onSelect: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (workspaceId: string, name: string) => void;
+  onDuplicate: (workspaceId: string) => void;
+  onDelete: (workspaceId: string) => void;
+}
+
+function WorkspaceMenu({
+  workspaces,
+  activeWorkspaceId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}: WorkspaceMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? workspaces[0];
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenaming(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const startRename = () => {
+    setDraftName(activeWorkspace.name);
+    setRenaming(true);
+  };
+
+  const commitRename = () => {
+    onRename(activeWorkspace.id, draftName);
+    setRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete workspace "${activeWorkspace.name}"? This cannot be undone.`)) {
+      onDelete(activeWorkspace.id);
+    }
+  };
+
+  const actionBase = 'w-full text-left px-3 py-2 text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2';
+  const actionClass = `${actionBase} text-gray-700 dark:text-gray-300`;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+        title="Workspaces"
+        aria-label="Switch workspace"
+        aria-expanded={isOpen}
+      >
+        <FolderOpen className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+        <span className="max-w-[10rem] truncate">{activeWorkspace.name}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 card-elevated p-2 z-50 animate-scale-in">
+          <div className="max-h-64 overflow-y-auto space-y-1" role="listbox" aria-label="Workspaces">
+            {workspaces.map((workspace) => (
+              <button
+                key={workspace.id}
+                role="option"
+                aria-selected={workspace.id === activeWorkspace.id}
+                onClick={() => { onSelect(workspace.id); setIsOpen(false); }}
+                className={`${actionClass} justify-between`}
+              >
+                <span className="truncate">{workspace.name}</span>
+                {workspace.id === activeWorkspace.id && <Check className="w-4 h-4 text-success-600 flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 mt-2 pt-2 space-y-1">
+            {renaming ? (
+              <form
+                onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                className="flex items-center gap-1 px-1"
+              >
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  className="input-field text-sm py-1"
+                  aria-label="Workspace name"
+                  autoFocus
+                />
+                <button type="submit" className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg" aria-label="Save name">
+                  <Check className="w-4 h-4 text-success-600" />
+                </button>
+              </form>
+            ) : (
+              <button onClick={startRename} className={actionClass}>
+                <Pencil className="w-4 h-4" />
+                Rename
+              </button>
+            )}
+            <button onClick={() => onCreate(`Workspace ${workspaces.length + 1}`)} className={actionClass}>
+              <Plus className="w-4 h-4" />
+              New Workspace
+            </button>
+            <button onClick={() => onDuplicate(activeWorkspace.id)} className={actionClass}>
+              <Copy className="w-4 h-4" />
+              Duplicate
+            </button>
+            <button onClick={handleDelete} className={`${actionBase} text-red-600 dark:text-red-400`}>
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkspaceMenu;
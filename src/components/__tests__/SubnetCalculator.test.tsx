@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import SubnetCalculator from '../SubnetCalculator';
 
@@ -119,4 +119,89 @@ describe('SubnetCalculator', () => {
       expect(screen.queryByText('Divide Selected Subnet')).not.toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  it('splits a range into CIDR blocks', async () => {
+    const user = userEvent.setup();
+    render(<SubnetCalculator />);
+
+    const ipInput = screen.getByLabelText('IP Address');
+    await user.clear(ipInput);
+    await user.type(ipInput, '10.1.2.5 - 10.1.2.12');
+    expect(screen.getByLabelText('CIDR Prefix Length')).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: /Calculate Network/ }));
+
+    const blocks = await screen.findByRole('list', { name: 'Range blocks' });
+    expect(within(blocks).getAllByRole('listitem').map((block) => block.title)).toEqual([
+      '10.1.2.5/32 (1 address)',
+      '10.1.2.6/31 (2 addresses)',
+      '10.1.2.8/30 (4 addresses)',
+      '10.1.2.12/32 (1 address)'
+    ]);
+    expect(screen.getByText('10.1.2.5 - 10.1.2.12')).toBeInTheDocument();
+  });
+
+  it('reads masks, wildcards and other notations in the address field', async () => {
+    const user = userEvent.setup();
+    render(<SubnetCalculator />);
+
+    const ipInput = screen.getByLabelText('IP Address');
+    await user.clear(ipInput);
+    await user.type(ipInput, '10.20.0.0 0.0.255.255');
+    expect(screen.getByText(/^Read as/)).toHaveTextContent('Read as 10.20.0.0/16 (dotted address, wildcard mask)');
+    expect(screen.getByLabelText('CIDR Prefix Length')).toBeDisabled();
+
+    await user.click(screen.getByRole('button', { name: /Calculate Network/ }));
+    expect(ipInput).toHaveValue('10.20.0.0');
+    expect(screen.getByLabelText('CIDR Prefix Length')).toHaveValue(16);
+
+    await user.clear(ipInput);
+    await user.type(ipInput, '10.0.0.0 255.0.255.0');
+    expect(screen.getByText(/is not a valid subnet mask/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Calculate Network/ })).toBeDisabled();
+  });
+
+  it('shows classification badges for the result', async () => {
+    const user = userEvent.setup();
+    render(<SubnetCalculator />);
+
+    const ipInput = screen.getByLabelText('IP Address');
+    await user.clear(ipInput);
+    await user.type(ipInput, '100.64.1.0/24');
+    await user.click(screen.getByRole('button', { name: /Calculate Network/ }));
+
+    const badges = await screen.findByRole('list', { name: 'Address classification' });
+    expect(within(badges).getAllByRole('listitem').map((badge) => badge.textContent)).toEqual([
+      'Class A',
+      'Shared Address Space (CGNAT)',
+      'Not globally routable'
+    ]);
+    expect(within(badges).getByText('Shared Address Space (CGNAT)')).toHaveAttribute('title', '100.64.0.0/10 (RFC 6598)');
+  });
+
+  it('recalculates usable addresses when the reservation profile changes', async () => {
+    render(<SubnetCalculator />);
+
+    fireEvent.change(screen.getByLabelText('IP Address'), { target: { value: '10.0.0.0/24' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calculate Network/ }));
+    expect(await screen.findByText('10.0.0.1')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Reservation profile'), { target: { value: 'aws' } });
+    expect(await screen.findByText('10.0.0.4')).toBeInTheDocument();
+    expect(screen.getByText('AWS VPC', { selector: 'div' })).toBeInTheDocument();
+    expect(screen.getAllByText('251').length).toBeGreaterThan(0);
+  });
+
+  it('records custom reservation counts as one history step', async () => {
+    render(<SubnetCalculator />);
+
+    fireEvent.change(screen.getByLabelText('IP Address'), { target: { value: '10.0.0.0/24' } });
+    fireEvent.click(screen.getByRole('button', { name: /Calculate Network/ }));
+    expect(await screen.findByText('10.0.0.1')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Reservation profile'), { target: { value: 'custom' } });
+    fireEvent.change(screen.getByLabelText('Reserved at start'), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('Reserved at start'), { target: { value: '10' } });
+    expect(await screen.findByText('10.0.0.10')).toBeInTheDocument();
+    expect(screen.getAllByText('Reservation profile custom')).toHaveLength(1);
+  });
+});
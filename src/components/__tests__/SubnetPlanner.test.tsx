@@ -0,0 +1,250 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import SubnetPlanner from '../SubnetPlanner';
+import { defaultPlanConfig } from '../../config/samplePlan';
+import type { TreePlanConfig } from '../../types/subnetTree';
+
+function renderPlanner(config: TreePlanConfig) {
+  return render(
+    <SubnetPlanner
+      config={config}
+      statusOverrides={{}}
+      onConfigChange={vi.fn()}
+      onPlanChange={vi.fn()}
+      onReset={vi.fn()}
+    />
+  );
+}
+
+// Every other /24 of the root marked in use, so the tree is materialized down to /24
+function denseConfig(rootCidr: string, secondOctets: number): TreePlanConfig {
+  return {
+    rootCidr,
+    minPrefix: 24,
+    assignedCidrs: [rootCidr],
+    inUseCidrs: Array.from({ length: secondOctets * 128 }, (_, i) => `10.${i >> 7}.${(i & 127) * 2}.0/24`)
+  };
+}
+
+const treeRows = () => within(screen.getByRole('list', { name: 'Subnet tree' })).getAllByRole('listitem');
+
+describe('SubnetPlanner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('renders a 131k node tree in a bounded window', () => {
+    // /8 split down to /24: 2^17 - 1 nodes, all expanded
+    const started = performance.now();
+    renderPlanner(denseConfig('10.0.0.0/8', 256));
+    const elapsed = performance.now() - started;
+
+    expect(treeRows().length).toBeLessThan(40);
+    expect(elapsed).toBeLessThan(10000);
+  });
+
+  it('keeps expand/collapse, status buttons and scrolling on the windowed tree', () => {
+    const onPlanChange = vi.fn();
+    render(
+      <SubnetPlanner
+        config={denseConfig('10.0.0.0/12', 16)}
+        statusOverrides={{}}
+        onConfigChange={vi.fn()}
+        onPlanChange={onPlanChange}
+        onReset={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByTitle('Mark 10.0.1.0/24 as RESERVED'));
+    expect(onPlanChange).toHaveBeenCalledWith({ statusOverrides: { '10.0.1.0/24': 'RESERVED' } }, 'Mark 10.0.1.0/24 RESERVED');
+
+    const list = screen.getByRole('list', { name: 'Subnet tree' });
+    list.scrollTop = 62 * 5000;
+    fireEvent.scroll(list);
+    expect(within(list).queryByText('10.0.0.0/12')).not.toBeInTheDocument();
+    expect(treeRows().length).toBeLessThan(40);
+
+    list.scrollTop = 0;
+    fireEvent.scroll(list);
+    fireEvent.click(within(treeRows()[0]).getByLabelText('Collapse subnet'));
+    expect(treeRows()).toHaveLength(1);
+  });
+
+  it('hides unavailable subtrees', () => {
+    renderPlanner(defaultPlanConfig);
+    const tree = () => screen.getByRole('list', { name: 'Subnet tree' });
+    expect(within(tree()).getByText('10.1.240.0/24')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Hide Unavailable'));
+    expect(within(tree()).queryByText('10.1.240.0/24')).not.toBeInTheDocument();
+    expect(within(tree()).getByText('10.1.241.0/24')).toBeInTheDocument();
+  });
+
+  it('materializes implicit subtrees on expand', () => {
+    renderPlanner(defaultPlanConfig);
+    const tree = () => screen.getByRole('list', { name: 'Subnet tree' });
+    const row = () => treeRows().find((item) => within(item).queryByText('10.1.240.0/24')) as HTMLElement;
+
+    expect(within(tree()).queryByText('10.1.240.0/25')).not.toBeInTheDocument();
+    fireEvent.click(within(row()).getByLabelText('Expand subnet'));
+    expect(within(tree()).getByText('10.1.240.0/25')).toBeInTheDocument();
+    expect(within(tree()).getByText('10.1.240.128/25')).toBeInTheDocument();
+
+    fireEvent.click(within(row()).getByLabelText('Collapse subnet'));
+    expect(within(tree()).queryByText('10.1.240.0/25')).not.toBeInTheDocument();
+  });
+
+  it('expands the path to a search hit inside an implicit subtree', () => {
+    renderPlanner(defaultPlanConfig);
+    fireEvent.change(screen.getByLabelText('Search planner tree'), { target: { value: '10.1.240.77' } });
+
+    expect(screen.getByText('1 of 1')).toBeInTheDocument();
+    expect(within(screen.getByRole('list', { name: 'Subnet tree' })).getByText('10.1.240.64/27')).toBeInTheDocument();
+  });
+
+  it('previews and allocates the next free block', () => {
+    const onPlanChange = vi.fn();
+    render(
+      <SubnetPlanner
+        config={defaultPlanConfig}
+        statusOverrides={{}}
+        onConfigChange={vi.fn()}
+        onPlanChange={onPlanChange}
+        onReset={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Allocate' }));
+    fireEvent.change(screen.getByLabelText('Size'), { target: { value: '26' } });
+    fireEvent.change(screen.getByLabelText('Strategy'), { target: { value: 'best-fit' } });
+    fireEvent.change(screen.getByLabelText('Inside (optional)'), { target: { value: '10.1.243.0/24' } });
+    expect(screen.getByText('10.1.243.64/26', { selector: '.font-mono.font-semibold' })).toBeInTheDocument();
+    expect(onPlanChange).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'lab' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Allocate /26' }));
+    expect(onPlanChange).toHaveBeenCalledWith(
+      {
+        statusOverrides: { '10.1.243.64/26': 'IN_USE' },
+        planConfig: { ...defaultPlanConfig, nodeMetadata: { '10.1.243.64/26': { name: 'lab' } } }
+      },
+      'Allocate 10.1.243.64/26 (lab)'
+    );
+  });
+
+  it('releases a block and reports the merged free space', () => {
+    const onPlanChange = vi.fn();
+    render(
+      <SubnetPlanner
+        config={defaultPlanConfig}
+        statusOverrides={{}}
+        onConfigChange={vi.fn()}
+        onPlanChange={onPlanChange}
+        onReset={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('10.1.241.64/26 (64 IPs)')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Search planner tree'), { target: { value: '10.1.241.0/27' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Release 10.1.241.0/27' }));
+
+    expect(onPlanChange).toHaveBeenCalledWith(
+      {
+        statusOverrides: {},
+        planConfig: { ...defaultPlanConfig, inUseCidrs: defaultPlanConfig.inUseCidrs!.filter((cidr) => cidr !== '10.1.241.0/27') }
+      },
+      'Release 10.1.241.0/27'
+    );
+    expect(screen.getByRole('status')).toHaveTextContent('Free blocks now: 10.1.241.0/25');
+  });
+
+  it('shows utilization, fragmentation and capacity analytics', () => {
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Analytics' }));
+    expect(screen.getByText('92.2%')).toBeInTheDocument();
+    expect(screen.getByText('33.3%')).toBeInTheDocument();
+
+    const ranges = within(screen.getByRole('list', { name: 'Utilization by assigned range' })).getAllByRole('listitem');
+    expect(ranges).toHaveLength(5);
+    expect(ranges[0]).toHaveTextContent('10.1.241.0/2462.5%');
+
+    const histogram = within(screen.getByRole('list', { name: 'Free block histogram' })).getAllByRole('listitem');
+    expect(histogram.map((row) => row.textContent)).toEqual(['/262 (128 IPs)', '/271 (32 IPs)']);
+
+    expect(screen.getByText('0 more /24s')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Capacity forecast'), { target: { value: '27' } });
+    expect(screen.getByText('5 more /27s')).toBeInTheDocument();
+  });
+
+  it('generates device config for in-use blocks', () => {
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Device Config' }));
+    fireEvent.change(screen.getByLabelText('Template'), { target: { value: 'junos' } });
+    fireEvent.change(screen.getByLabelText('List name'), { target: { value: 'IN-USE' } });
+
+    const config = screen.getByLabelText('Generated config');
+    expect(config).toHaveTextContent('set policy-options prefix-list IN-USE 10.1.242.0/24');
+    expect(config).not.toHaveTextContent('10.1.241.32/27');
+  });
+
+  it('generates a DHCP scope and reverse zones for a node', () => {
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.change(screen.getByLabelText('Search planner tree'), { target: { value: '10.1.241.0/27' } });
+    fireEvent.click(screen.getByRole('button', { name: 'DHCP and DNS for 10.1.241.0/27' }));
+    fireEvent.change(screen.getByLabelText('DHCP server'), { target: { value: 'dhcpd' } });
+    fireEvent.change(screen.getByLabelText('Exclusions'), { target: { value: '10.1.241.2-10.1.241.9' } });
+
+    expect(screen.getByLabelText('DHCP scope')).toHaveTextContent('range 10.1.241.10 10.1.241.30;');
+    expect(screen.getByLabelText('Reverse zones')).toHaveTextContent('$ORIGIN 0/27.241.1.10.in-addr.arpa.');
+    expect(screen.getByLabelText('Reverse zones')).toHaveTextContent('$GENERATE 0-31 $ IN CNAME $.0/27');
+
+    fireEvent.change(screen.getByLabelText('Router'), { target: { value: '10.1.242.1' } });
+    expect(screen.getByText('Router 10.1.242.1 is outside 10.1.241.0/27')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close DHCP and DNS' }));
+    expect(screen.queryByLabelText('Reverse zones')).not.toBeInTheDocument();
+  });
+
+  it('exports in-use blocks as Terraform', () => {
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Terraform' }));
+    const hcl = screen.getByLabelText('Terraform HCL');
+    expect(hcl).toHaveTextContent('resource "aws_subnet" "subnet_10_1_242_0_24" {');
+    expect(hcl).toHaveTextContent('# 10.1.242.0/24: 256 addresses, 251 usable after AWS reserves 5');
+
+    fireEvent.change(screen.getByLabelText('Output'), { target: { value: 'google' } });
+    expect(hcl).toHaveTextContent('ip_cidr_range = "10.1.242.0/24"');
+  });
+
+  it('exports the visible tree as an SVG image', () => {
+    const createObjectURL = vi.fn((blob: Blob) => `blob:${blob.size}`);
+    // jsdom has no object URLs, so stub a URL class that adds them
+    vi.stubGlobal('URL', Object.assign(class extends URL {}, { createObjectURL, revokeObjectURL: vi.fn() }));
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    expect(screen.getByLabelText('PNG scale')).toHaveValue('2');
+    fireEvent.click(screen.getByRole('button', { name: 'Tree as SVG' }));
+
+    const blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('image/svg+xml');
+    expect((click.mock.contexts[0] as HTMLAnchorElement).download).toMatch(/^subnet-plan-.*\.svg$/);
+    expect(screen.queryByRole('button', { name: 'Tree as SVG' })).not.toBeInTheDocument();
+  });
+
+  it('shows PNG export failures in the planner', async () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    renderPlanner(defaultPlanConfig);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Tree as PNG' }));
+
+    expect(await screen.findByText('Unable to create the PNG: Canvas rendering is not available')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,30 @@
+import type { CloudProvider, CloudProviderId } from '../types/terraform';
+import { reservationProfiles } from './reservationProfiles';
+
+// Prefix limits from each provider's VPC documentation; reservations come from the shared profiles
+export const cloudProviders: Record<CloudProviderId, CloudProvider> = {
+  aws: {
+    id: 'aws',
+    label: 'AWS',
+    resourceType: 'aws_subnet',
+    reservation: reservationProfiles.aws,
+    minPrefix: 16,
+    maxPrefix: 28
+  },
+  azure: {
+    id: 'azure',
+    label: 'Azure',
+    resourceType: 'azurerm_subnet',
+    reservation: reservationProfiles.azure,
+    minPrefix: 8,
+    maxPrefix: 29
+  },
+  google: {
+    id: 'google',
+    label: 'Google Cloud',
+    resourceType: 'google_compute_subnetwork',
+    reservation: reservationProfiles.gcp,
+    minPrefix: 8,
+    maxPrefix: 29
+  }
+};
@@ -0,0 +1,39 @@
+import type { ImageTheme, ImageThemeColors } from '../types/imageExport';
+
+// Block colors follow the subnet palette in index.css; statuses use Tailwind's blue, green, amber and slate
+export const imageThemes: Record<ImageTheme, ImageThemeColors> = {
+  light: {
+    background: '#ffffff',
+    text: '#0f172a',
+    mutedText: '#475569',
+    track: '#f1f5f9',
+    blockFills: ['#e0f2fe', '#bae6fd', '#7dd3fc'],
+    blockStroke: '#0ea5e9',
+    selectedFill: '#38bdf8',
+    selectedStroke: '#0284c7',
+    status: {
+      IN_USE: { fill: '#dbeafe', stroke: '#3b82f6', text: '#1e3a8a' },
+      FREE: { fill: '#dcfce7', stroke: '#22c55e', text: '#14532d' },
+      RESERVED: { fill: '#fef3c7', stroke: '#f59e0b', text: '#78350f' },
+      UNAVAILABLE: { fill: '#f1f5f9', stroke: '#cbd5e1', text: '#64748b' },
+      PARTIAL: { fill: '#e2e8f0', stroke: '#94a3b8', text: '#1e293b' }
+    }
+  },
+  dark: {
+    background: '#0f172a',
+    text: '#f1f5f9',
+    mutedText: '#94a3b8',
+    track: '#1e293b',
+    blockFills: ['#0c4a6e', '#075985', '#0369a1'],
+    blockStroke: '#38bdf8',
+    selectedFill: '#0284c7',
+    selectedStroke: '#7dd3fc',
+    status: {
+      IN_USE: { fill: '#1e3a8a', stroke: '#60a5fa', text: '#dbeafe' },
+      FREE: { fill: '#14532d', stroke: '#4ade80', text: '#dcfce7' },
+      RESERVED: { fill: '#78350f', stroke: '#fbbf24', text: '#fef3c7' },
+      UNAVAILABLE: { fill: '#1e293b', stroke: '#334155', text: '#94a3b8' },
+      PARTIAL: { fill: '#334155', stroke: '#64748b', text: '#e2e8f0' }
+    }
+  }
+};
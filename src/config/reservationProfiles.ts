@@ -0,0 +1,23 @@
+import type { ReservationProfile, ReservationProfileId } from '../types/subnet';
+
+export const reservationProfiles: Record<Exclude<ReservationProfileId, 'custom'>, ReservationProfile> = {
+  // Network and broadcast, with /31 and /32 fully usable
+  classic: { id: 'classic', reservedFirst: 1, reservedLast: 1 },
+  // Network and broadcast, except RFC 3021 point-to-point /31s; a /32 has no host addresses
+  rfc3021: { id: 'rfc3021', reservedFirst: 1, reservedLast: 1 },
+  // Network, VPC router, DNS and one for future use, plus broadcast
+  aws: { id: 'aws', reservedFirst: 4, reservedLast: 1 },
+  // Network, default gateway and two DNS addresses, plus broadcast
+  azure: { id: 'azure', reservedFirst: 4, reservedLast: 1 },
+  // Network and default gateway, plus the second-to-last and broadcast addresses
+  gcp: { id: 'gcp', reservedFirst: 2, reservedLast: 2 }
+};
+
+export const reservationProfileLabels: Record<ReservationProfileId, string> = {
+  classic: 'Classic (network + broadcast)',
+  rfc3021: 'RFC 3021 strict (/31 only)',
+  aws: 'AWS VPC',
+  azure: 'Azure VNet',
+  gcp: 'Google Cloud VPC',
+  custom: 'Custom'
+};
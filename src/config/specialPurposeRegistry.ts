@@ -0,0 +1,59 @@
+import type { SpecialPurposeBlock } from '../types/classification';
+
+// IANA IPv4 Special-Purpose Address Registry, plus multicast (RFC 5771),
+// which IANA tracks in its own registry
+export const ipv4SpecialPurposeBlocks: SpecialPurposeBlock[] = [
+  { cidr: '0.0.0.0/8', name: 'This network', kind: 'this-network', rfc: 'RFC 791', globallyReachable: false },
+  { cidr: '0.0.0.0/32', name: 'This host on this network', kind: 'this-network', rfc: 'RFC 1122', globallyReachable: false },
+  { cidr: '10.0.0.0/8', name: 'Private-Use', kind: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '100.64.0.0/10', name: 'Shared Address Space (CGNAT)', kind: 'shared', rfc: 'RFC 6598', globallyReachable: false },
+  { cidr: '127.0.0.0/8', name: 'Loopback', kind: 'loopback', rfc: 'RFC 1122', globallyReachable: false },
+  { cidr: '169.254.0.0/16', name: 'Link Local', kind: 'link-local', rfc: 'RFC 3927', globallyReachable: false },
+  { cidr: '172.16.0.0/12', name: 'Private-Use', kind: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '192.0.0.0/24', name: 'IETF Protocol Assignments', kind: 'protocol', rfc: 'RFC 6890', globallyReachable: false },
+  { cidr: '192.0.0.0/29', name: 'IPv4 Service Continuity Prefix', kind: 'translation', rfc: 'RFC 7335', globallyReachable: false },
+  { cidr: '192.0.0.8/32', name: 'IPv4 dummy address', kind: 'protocol', rfc: 'RFC 7600', globallyReachable: false },
+  { cidr: '192.0.0.9/32', name: 'Port Control Protocol Anycast', kind: 'anycast', rfc: 'RFC 7723', globallyReachable: true },
+  { cidr: '192.0.0.10/32', name: 'TURN Anycast', kind: 'anycast', rfc: 'RFC 8155', globallyReachable: true },
+  { cidr: '192.0.0.170/32', name: 'NAT64/DNS64 Discovery', kind: 'translation', rfc: 'RFC 8880', globallyReachable: false },
+  { cidr: '192.0.0.171/32', name: 'NAT64/DNS64 Discovery', kind: 'translation', rfc: 'RFC 8880', globallyReachable: false },
+  { cidr: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', kind: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '192.31.196.0/24', name: 'AS112-v4', kind: 'anycast', rfc: 'RFC 7535', globallyReachable: true },
+  { cidr: '192.52.193.0/24', name: 'AMT', kind: 'anycast', rfc: 'RFC 7450', globallyReachable: true },
+  { cidr: '192.88.99.0/24', name: '6to4 Relay Anycast (deprecated)', kind: 'deprecated', rfc: 'RFC 7526', globallyReachable: false },
+  { cidr: '192.168.0.0/16', name: 'Private-Use', kind: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '192.175.48.0/24', name: 'Direct Delegation AS112 Service', kind: 'anycast', rfc: 'RFC 7534', globallyReachable: true },
+  { cidr: '198.18.0.0/15', name: 'Benchmarking', kind: 'benchmarking', rfc: 'RFC 2544', globallyReachable: false },
+  { cidr: '198.51.100.0/24', name: 'Documentation (TEST-NET-2)', kind: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', kind: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '224.0.0.0/4', name: 'Multicast', kind: 'multicast', rfc: 'RFC 5771', globallyReachable: false },
+  { cidr: '240.0.0.0/4', name: 'Reserved', kind: 'reserved', rfc: 'RFC 1112', globallyReachable: false },
+  { cidr: '255.255.255.255/32', name: 'Limited Broadcast', kind: 'broadcast', rfc: 'RFC 919', globallyReachable: false }
+];
+
+// IANA IPv6 Special-Purpose Address Registry, plus link-local (RFC 4291)
+// and multicast, which are assigned outside it
+export const ipv6SpecialPurposeBlocks: SpecialPurposeBlock[] = [
+  { cidr: '::1/128', name: 'Loopback Address', kind: 'loopback', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '::/128', name: 'Unspecified Address', kind: 'this-network', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '::ffff:0:0/96', name: 'IPv4-mapped Address', kind: 'translation', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '64:ff9b::/96', name: 'IPv4-IPv6 Translation', kind: 'translation', rfc: 'RFC 6052', globallyReachable: true },
+  { cidr: '64:ff9b:1::/48', name: 'Local-use IPv4/IPv6 Translation', kind: 'translation', rfc: 'RFC 8215', globallyReachable: false },
+  { cidr: '100::/64', name: 'Discard-Only Address Block', kind: 'reserved', rfc: 'RFC 6666', globallyReachable: false },
+  { cidr: '2001::/23', name: 'IETF Protocol Assignments', kind: 'protocol', rfc: 'RFC 2928', globallyReachable: false },
+  { cidr: '2001::/32', name: 'TEREDO', kind: 'translation', rfc: 'RFC 4380', globallyReachable: false },
+  { cidr: '2001:1::1/128', name: 'Port Control Protocol Anycast', kind: 'anycast', rfc: 'RFC 7723', globallyReachable: true },
+  { cidr: '2001:1::2/128', name: 'TURN Anycast', kind: 'anycast', rfc: 'RFC 8155', globallyReachable: true },
+  { cidr: '2001:2::/48', name: 'Benchmarking', kind: 'benchmarking', rfc: 'RFC 5180', globallyReachable: false },
+  { cidr: '2001:3::/32', name: 'AMT', kind: 'anycast', rfc: 'RFC 7450', globallyReachable: true },
+  { cidr: '2001:4:112::/48', name: 'AS112-v6', kind: 'anycast', rfc: 'RFC 7535', globallyReachable: true },
+  { cidr: '2001:20::/28', name: 'ORCHIDv2', kind: 'protocol', rfc: 'RFC 7343', globallyReachable: true },
+  { cidr: '2001:db8::/32', name: 'Documentation', kind: 'documentation', rfc: 'RFC 3849', globallyReachable: false },
+  { cidr: '2002::/16', name: '6to4', kind: 'translation', rfc: 'RFC 3056', globallyReachable: false },
+  { cidr: '2620:4f:8000::/48', name: 'Direct Delegation AS112 Service', kind: 'anycast', rfc: 'RFC 7534', globallyReachable: true },
+  { cidr: '3fff::/20', name: 'Documentation', kind: 'documentation', rfc: 'RFC 9637', globallyReachable: false },
+  { cidr: '5f00::/16', name: 'Segment Routing (SRv6) SIDs', kind: 'protocol', rfc: 'RFC 9602', globallyReachable: false },
+  { cidr: 'fc00::/7', name: 'Unique-Local', kind: 'unique-local', rfc: 'RFC 4193', globallyReachable: false },
+  { cidr: 'fe80::/10', name: 'Link-Local Unicast', kind: 'link-local', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: 'ff00::/8', name: 'Multicast', kind: 'multicast', rfc: 'RFC 4291', globallyReachable: false }
+];
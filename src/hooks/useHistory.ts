@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+import {
+  createHistory,
+  jumpToHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from '../utils/history';
+
+type StateUpdate<T> = T | ((prev: T) => T);
+
+export function useHistory<T>(initialState: T | (() => T)) {
+  const [history, setHistory] = useState(() =>
+    createHistory(typeof initialState === 'function' ? (initialState as () => T)() : initialState)
+  );
+
+  const push = useCallback((next: StateUpdate<T>, label: string, coalesce = false) => {
+    setHistory((prev) => {
+      const state = typeof next === 'function' ? (next as (prev: T) => T)(prev.present.state) : next;
+      return pushHistory(prev, state, label, coalesce);
+    });
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+
+  const jumpTo = useCallback((entryId: number) => {
+    setHistory((prev) => jumpToHistory(prev, entryId));
+  }, []);
+
+  const reset = useCallback((state: T) => {
+    setHistory(createHistory(state));
+  }, []);
+
+  return {
+    history,
+    present: history.present.state,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    push,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Workspace } from '../types/workspace';
+import {
+  addWorkspace,
+  createWorkspace as buildWorkspace,
+  deleteWorkspace as removeWorkspace,
+  duplicateWorkspace as copyWorkspace,
+  getActiveWorkspace,
+  loadWorkspaceStore,
+  renameWorkspace as setWorkspaceName,
+  saveWorkspaceStore,
+  updateWorkspace
+} from '../utils/workspaceStorage';
+
+type WorkspacePatch = Partial<Pick<Workspace, 'planConfig' | 'statusOverrides' | 'calculator'>>;
+
+export function useWorkspaces() {
+  const [store, setStore] = useState(loadWorkspaceStore);
+
+  useEffect(() => {
+    saveWorkspaceStore(store);
+  }, [store]);
+
+  const activeWorkspace = getActiveWorkspace(store);
+
+  const selectWorkspace = useCallback((workspaceId: string) => {
+    setStore((prev) => ({ ...prev, activeWorkspaceId: workspaceId }));
+  }, []);
+
+  const createWorkspace = useCallback((name: string, contents: WorkspacePatch = {}) => {
+    setStore((prev) => addWorkspace(prev, buildWorkspace(name, contents)));
+  }, []);
+
+  const renameWorkspace = useCallback((workspaceId: string, name: string) => {
+    setStore((prev) => setWorkspaceName(prev, workspaceId, name));
+  }, []);
+
+  const duplicateWorkspace = useCallback((workspaceId: string) => {
+    setStore((prev) => copyWorkspace(prev, workspaceId));
+  }, []);
+
+  const deleteWorkspace = useCallback((workspaceId: string) => {
+    setStore((prev) => removeWorkspace(prev, workspaceId));
+  }, []);
+
+  const updateActiveWorkspace = useCallback((patch: WorkspacePatch) => {
+    setStore((prev) => updateWorkspace(prev, prev.activeWorkspaceId, patch));
+  }, []);
+
+  return {
+    workspaces: store.workspaces,
+    activeWorkspace,
+    selectWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    duplicateWorkspace,
+    deleteWorkspace,
+    updateActiveWorkspace
+  };
+}
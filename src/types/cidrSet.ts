@@ -0,0 +1,12 @@
+// Inclusive range of IPv4 addresses as 32-bit unsigned integers
+export interface AddressRange {
+  start: number;
+  end: number;
+}
+
+// A set of IPv4 addresses, kept as sorted ranges that neither overlap nor touch
+export interface CidrSet {
+  ranges: AddressRange[];
+}
+
+export type CidrSetEntry = string | AddressRange;
@@ -0,0 +1,34 @@
+export type AddressClass = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export type SpecialPurposeKind =
+  | 'this-network'
+  | 'private'
+  | 'shared'
+  | 'loopback'
+  | 'link-local'
+  | 'protocol'
+  | 'documentation'
+  | 'benchmarking'
+  | 'multicast'
+  | 'reserved'
+  | 'broadcast'
+  | 'anycast'
+  | 'translation'
+  | 'unique-local'
+  | 'deprecated';
+
+export interface SpecialPurposeBlock {
+  cidr: string;
+  name: string;
+  kind: SpecialPurposeKind;
+  rfc: string;
+  globallyReachable: boolean;
+}
+
+export interface AddressClassification {
+  // Classful class of the network address; null for IPv6
+  addressClass: AddressClass | null;
+  // Registry blocks the subnet overlaps, in address order with enclosing blocks first
+  specialPurpose: SpecialPurposeBlock[];
+  globallyRoutable: boolean;
+}
@@ -0,0 +1,16 @@
+import type { SubnetInfo } from './subnet';
+
+export type ConfigTemplate = 'cisco-ios' | 'cisco-acl' | 'junos' | 'iptables' | 'nftables' | 'linux-ip';
+
+export interface ConfigTarget {
+  subnet: SubnetInfo;
+  name?: string;
+  vlanId?: number;
+}
+
+export interface ConfigOptions {
+  // ACL, prefix-list, chain or set name
+  listName?: string;
+  // Parent interface; VLAN targets become subinterfaces of it
+  interfaceName?: string;
+}
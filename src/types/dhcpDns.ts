@@ -0,0 +1,46 @@
+import type { IPRange, SubnetInfo } from './subnet';
+import type { SubnetNode } from './subnetTree';
+
+export type DhcpFormat = 'kea' | 'dhcpd';
+
+export type ReverseZoneFormat = 'bind' | 'powerdns';
+
+// Calculator subnets and planner nodes both work as generator input
+export type ServiceTarget = SubnetInfo | SubnetNode;
+
+export interface DhcpScopeOptions {
+  // Defaults to the first usable address
+  router?: string;
+  // Addresses, ranges (`start-end`) or CIDRs kept out of the pools
+  exclusions?: string[];
+  dnsServers?: string[];
+  domainName?: string;
+  // Seconds
+  leaseTime?: number;
+  // Kea subnet id
+  subnetId?: number;
+}
+
+export interface DhcpScope {
+  cidr: string;
+  router: string;
+  pools: IPRange[];
+}
+
+export interface ReverseZoneOptions {
+  nameServers?: string[];
+  hostmaster?: string;
+  ttl?: number;
+  serial?: number;
+}
+
+export interface ReverseZone {
+  name: string;
+  // RFC 2317 zones are delegated from the /24 zone with NS and CNAME records
+  delegation?: {
+    parentZone: string;
+    label: string;
+    firstOctet: number;
+    lastOctet: number;
+  };
+}
@@ -0,0 +1,39 @@
+import type { EffectiveStatus } from './subnetTree';
+
+export type ImageTheme = 'light' | 'dark';
+
+export interface StatusColors {
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+export interface ImageThemeColors {
+  background: string;
+  text: string;
+  mutedText: string;
+  track: string;
+  // Block fills by prefix length: /16 and shorter, /17-/24, longer than /24
+  blockFills: [string, string, string];
+  blockStroke: string;
+  selectedFill: string;
+  selectedStroke: string;
+  status: Record<EffectiveStatus, StatusColors>;
+}
+
+export interface ImageOptions {
+  theme?: ImageTheme;
+  // Image width in CSS pixels; height follows from the content
+  width?: number;
+  title?: string;
+}
+
+export interface SubnetImageOptions extends ImageOptions {
+  selectedSubnet?: string;
+}
+
+export interface SvgImage {
+  svg: string;
+  width: number;
+  height: number;
+}
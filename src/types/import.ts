@@ -0,0 +1,29 @@
+import type { SubnetInfo } from './subnet';
+import type { PlanConfigField, TreePlanConfig } from './subnetTree';
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportRow {
+  row: number;
+  entry: string;
+  subnet: SubnetInfo | null;
+  field?: PlanConfigField;
+  errors: string[];
+}
+
+export interface SubnetImport {
+  format: 'json' | 'csv';
+  rows: ImportRow[];
+}
+
+export interface PlanImport {
+  format: 'plan';
+  config: TreePlanConfig;
+}
+
+export type ParsedImport = SubnetImport | PlanImport;
+
+export interface ImportParseResult {
+  data: ParsedImport | null;
+  errors: string[];
+}
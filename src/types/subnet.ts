@@ -1,4 +1,18 @@
+import type { AddressClassification } from './classification';
+
+export type IPVersion = 4 | 6;
+
+export type ReservationProfileId = 'classic' | 'rfc3021' | 'aws' | 'azure' | 'gcp' | 'custom';
+
+// Addresses held back at the start and end of every IPv4 subnet
+export interface ReservationProfile {
+  id: ReservationProfileId;
+  reservedFirst: number;
+  reservedLast: number;
+}
+
 export interface SubnetInfo {
+  version: IPVersion;
   networkAddress: string;
   broadcastAddress: string;
   subnetMask: string;
@@ -10,11 +24,34 @@ export interface SubnetInfo {
   cidr: number;
   binaryNetwork: string;
   binaryMask: string;
+  // Set for IPv4 subnets calculated with a profile other than classic
+  reservation?: ReservationProfile;
+  // IANA special-purpose classification, filled in by calculateSubnet
+  classification?: AddressClassification;
 }
 
 export interface SubnetInput {
   ipAddress: string;
   cidr: number;
+  reservation?: ReservationProfile;
+}
+
+export interface IPRange {
+  start: string;
+  end: string;
+}
+
+export type AddressNotation = 'dotted' | 'hex' | 'integer';
+
+export type PrefixNotation = 'prefix' | 'mask' | 'wildcard';
+
+export interface NotationParseResult {
+  isValid: boolean;
+  ipAddress?: string;
+  cidr?: number;
+  addressNotation?: AddressNotation;
+  prefixNotation?: PrefixNotation;
+  error?: string;
 }
 
 export interface ValidationResult {
@@ -2,6 +2,18 @@ export type ExplicitStatus = 'IN_USE' | 'FREE' | 'RESERVED' | 'UNAVAILABLE';
 
 export type EffectiveStatus = ExplicitStatus | 'PARTIAL';
 
+export interface NodeMetadata {
+  name?: string;
+  description?: string;
+  vlanId?: number;
+  site?: string;
+  owner?: string;
+  tags?: string[];
+  attributes?: Record<string, string>;
+}
+
+export type MetadataGroupKey = 'site' | 'owner' | 'vlan' | 'tag';
+
 export interface SubnetNode {
   id: string;
   network: string;
@@ -14,13 +26,24 @@ export interface SubnetNode {
   effectiveStatus: EffectiveStatus;
   defaultStatus: ExplicitStatus;
   totalIPs: number;
+  metadata?: NodeMetadata;
 }
 
+// Nodes are only materialized down to listed ranges; a leaf above
+// minPrefix stands for a uniform subtree below it
 export interface SubnetTree {
   rootId: string;
   nodes: Record<string, SubnetNode>;
+  minPrefix: number;
+}
+
+export interface FlatTreeRow {
+  node: SubnetNode;
+  depth: number;
 }
 
+export type StatusOverrides = Record<string, ExplicitStatus>;
+
 export interface TreePlanConfig {
   rootCidr: string;
   assignedCidrs: string[];
@@ -28,4 +51,41 @@ export interface TreePlanConfig {
   reservedCidrs?: string[];
   unavailableCidrs?: string[];
   minPrefix: number;
+  nodeMetadata?: Record<string, NodeMetadata>;
+}
+
+export type PlanConfigField = 'rootCidr' | 'minPrefix' | 'assignedCidrs' | 'inUseCidrs' | 'reservedCidrs' | 'unavailableCidrs';
+
+export interface PlanConfigValidation {
+  isValid: boolean;
+  errors: Partial<Record<PlanConfigField, string[]>>;
+}
+
+export interface AllocationImportRow {
+  line: number;
+  text: string;
+  cidr: string;
+  status: ExplicitStatus | null;
+  label: string;
+  currentStatus: EffectiveStatus | null;
+  errors: string[];
+}
+
+export type AllocationStrategy = 'first-fit' | 'best-fit';
+
+export interface AllocationOptions {
+  strategy?: AllocationStrategy;
+  alignTo?: number;
+  withinId?: string;
+  label?: string;
+}
+
+export interface AllocationResult {
+  tree: SubnetTree;
+  node: SubnetNode;
+}
+
+export interface ReleaseResult {
+  tree: SubnetTree;
+  freeBlocks: SubnetNode[];
 }
@@ -0,0 +1,16 @@
+import type { SubnetInfo } from './subnet';
+
+export type SummarizeMode = 'exact' | 'lossy';
+
+export interface RouteParseResult {
+  subnets: SubnetInfo[];
+  errors: string[];
+}
+
+export interface SummaryResult {
+  mode: SummarizeMode;
+  summaries: SubnetInfo[];
+  inputAddresses: number;
+  coveredAddresses: number;
+  extraAddresses: number;
+}
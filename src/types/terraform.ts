@@ -0,0 +1,21 @@
+import type { ReservationProfile } from './subnet';
+
+export type CloudProviderId = 'aws' | 'azure' | 'google';
+
+// Cloud resources, or a provider-neutral locals map
+export type TerraformFormat = CloudProviderId | 'locals';
+
+export interface CloudProvider {
+  id: CloudProviderId;
+  label: string;
+  resourceType: string;
+  reservation: ReservationProfile;
+  // Largest and smallest IPv4 subnets the provider accepts
+  minPrefix: number;
+  maxPrefix: number;
+}
+
+export interface TerraformOptions {
+  // Parent range for the locals cidrsubnets() call; defaults to the smallest range covering every subnet
+  baseCidr?: string;
+}
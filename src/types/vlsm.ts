@@ -0,0 +1,33 @@
+import type { SubnetInfo } from './subnet';
+
+export interface VlsmRequirement {
+  name: string;
+  hosts: number;
+  count: number;
+}
+
+export interface VlsmAllocation {
+  name: string;
+  requestedHosts: number;
+  subnet: SubnetInfo;
+}
+
+export interface VlsmFailure {
+  name: string;
+  requestedHosts: number;
+  reason: string;
+}
+
+export interface VlsmResult {
+  parent: SubnetInfo;
+  allocations: VlsmAllocation[];
+  unallocated: VlsmFailure[];
+  freeBlocks: SubnetInfo[];
+  allocatedAddresses: number;
+  freeAddresses: number;
+}
+
+export interface VlsmParseResult {
+  requirements: VlsmRequirement[];
+  errors: string[];
+}
@@ -0,0 +1,33 @@
+import type { SubnetInput } from './subnet';
+import type { StatusOverrides, TreePlanConfig } from './subnetTree';
+
+export interface CalculatorSession {
+  input: SubnetInput;
+  calculatedCidr: string | null;
+  subnetCidrs: string[];
+  selectedSubnet: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  planConfig: TreePlanConfig;
+  statusOverrides: StatusOverrides;
+  calculator: CalculatorSession;
+}
+
+export interface WorkspaceStore {
+  schemaVersion: number;
+  activeWorkspaceId: string;
+  workspaces: Workspace[];
+}
+
+export interface SharedState {
+  calculator: CalculatorSession;
+  planner?: {
+    planConfig: TreePlanConfig;
+    statusOverrides: StatusOverrides;
+  };
+}
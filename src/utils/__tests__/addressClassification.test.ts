@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { classifySubnet, getAddressClass } from '../addressClassification';
+import { calculateSubnetFromCidr, divideSubnet, joinSubnets } from '../subnetCalculations';
+import { subnetsToCSVRows } from '../exportUtils';
+import { calculateIPv6Subnet } from '../ipv6Calculations';
+
+const classify = (cidr: string) => classifySubnet(calculateSubnetFromCidr(cidr));
+const classify6 = (address: string, prefix: number) => classifySubnet(calculateIPv6Subnet(address, prefix));
+const blockCidrs = (cidr: string) => classify(cidr).specialPurpose.map((block) => block.cidr);
+
+describe('Address Classification', () => {
+  it('derives the classful class from the leading bits', () => {
+    expect(getAddressClass('10.0.0.0')).toBe('A');
+    expect(getAddressClass('127.255.255.255')).toBe('A');
+    expect(getAddressClass('128.0.0.0')).toBe('B');
+    expect(getAddressClass('192.168.1.0')).toBe('C');
+    expect(getAddressClass('239.255.255.255')).toBe('D');
+    expect(getAddressClass('240.0.0.0')).toBe('E');
+    expect(getAddressClass('255.255.255.255')).toBe('E');
+  });
+
+  it('flags private, shared, loopback, link-local and documentation space', () => {
+    expect(classify('10.1.2.0/24')).toMatchObject({ addressClass: 'A', globallyRoutable: false });
+    expect(blockCidrs('10.1.2.0/24')).toEqual(['10.0.0.0/8']);
+    expect(blockCidrs('172.20.0.0/16')).toEqual(['172.16.0.0/12']);
+    expect(blockCidrs('100.100.0.0/16')).toEqual(['100.64.0.0/10']);
+    expect(blockCidrs('127.0.0.1/32')).toEqual(['127.0.0.0/8']);
+    expect(blockCidrs('169.254.10.0/24')).toEqual(['169.254.0.0/16']);
+    expect(classify('198.51.100.0/25').specialPurpose[0].kind).toBe('documentation');
+    expect(classify('224.0.0.0/24')).toMatchObject({ addressClass: 'D', globallyRoutable: false });
+    expect(classify('240.0.0.0/8')).toMatchObject({ addressClass: 'E', globallyRoutable: false });
+  });
+
+  it('treats ordinary public space as globally routable', () => {
+    expect(classify('8.8.8.0/24')).toEqual({ addressClass: 'A', specialPurpose: [], globallyRoutable: true });
+    expect(classify('203.0.114.0/24').globallyRoutable).toBe(true);
+  });
+
+  it('lists nested blocks with the enclosing block first', () => {
+    expect(blockCidrs('192.0.0.0/29')).toEqual(['192.0.0.0/24', '192.0.0.0/29']);
+    expect(blockCidrs('0.0.0.0/32')).toEqual(['0.0.0.0/8', '0.0.0.0/32']);
+  });
+
+  it('uses the most specific containing block for reachability', () => {
+    expect(classify('192.0.0.9/32').globallyRoutable).toBe(true);
+    expect(classify('192.0.0.8/32').globallyRoutable).toBe(false);
+    expect(classify('192.175.48.0/24').globallyRoutable).toBe(true);
+  });
+
+  it('is not routable when a wider subnet swallows special-purpose space', () => {
+    const wide = classify('192.0.0.0/8');
+    expect(wide.globallyRoutable).toBe(false);
+    expect(wide.specialPurpose.map((block) => block.cidr)).toContain('192.168.0.0/16');
+    expect(classify('0.0.0.0/0').specialPurpose.length).toBeGreaterThan(20);
+  });
+
+  it('classifies IPv6 subnets without a classful class', () => {
+    expect(classify6('2001:db8::', 48)).toMatchObject({ addressClass: null, globallyRoutable: false });
+    expect(classify6('fd00::', 8).specialPurpose[0].name).toBe('Unique-Local');
+    expect(classify6('fe80::', 64).specialPurpose[0].kind).toBe('link-local');
+    expect(classify6('2600::', 32)).toEqual({ addressClass: null, specialPurpose: [], globallyRoutable: true });
+    expect(classify6('4000::', 16).globallyRoutable).toBe(false);
+    expect(classify6('64:ff9b::', 96).globallyRoutable).toBe(true);
+  });
+
+  it('keeps the classification on calculated, divided and joined subnets', () => {
+    const subnet = calculateSubnetFromCidr('100.64.0.0/24');
+    expect(subnet.classification).toEqual(classify('100.64.0.0/24'));
+
+    const [low, high] = divideSubnet(subnet);
+    expect(high.classification?.specialPurpose[0].cidr).toBe('100.64.0.0/10');
+    expect(joinSubnets(low, high).classification).toEqual(subnet.classification);
+
+    const [low6, high6] = divideSubnet(calculateSubnetFromCidr('fe80::/64'));
+    expect(low6.classification?.specialPurpose[0].kind).toBe('link-local');
+    expect(joinSubnets(low6, high6).classification).toEqual(classify6('fe80::', 64));
+  });
+
+  it('exports the classification in CSV rows', () => {
+    const [headers, row] = subnetsToCSVRows([calculateSubnetFromCidr('192.168.1.0/24')]);
+    const column = (name: string) => row[headers.indexOf(name)];
+    expect(column('Address Class')).toBe('C');
+    expect(column('Special Purpose')).toBe(classify('192.168.1.0/24').specialPurpose.map((block) => block.name).join('; '));
+    expect(column('Globally Routable')).toBe('no');
+  });
+});
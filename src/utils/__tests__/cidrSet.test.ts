@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cidrSetContains,
+  cidrSetsOverlap,
+  cidrSetToCidrs,
+  createCidrSet,
+  getCidrSetSize,
+  intersectCidrSets,
+  rangeToSubnets,
+  subtractCidrSets,
+  unionCidrSets
+} from '../cidrSet';
+
+const cidrs = (entries: string[]) => cidrSetToCidrs(createCidrSet(entries));
+
+describe('CIDR Sets', () => {
+  describe('createCidrSet', () => {
+    it('merges overlapping and adjacent entries', () => {
+      expect(cidrs(['10.0.0.128/25', '10.0.0.0/25', '10.0.0.64/26'])).toEqual(['10.0.0.0/24']);
+      expect(createCidrSet(['10.0.1.0/24', '10.0.0.0/24']).ranges).toHaveLength(1);
+      expect(cidrs([])).toEqual([]);
+    });
+
+    it('converts arbitrary ranges to minimal CIDR blocks', () => {
+      expect(cidrs(['10.0.0.5-10.0.0.8'])).toEqual(['10.0.0.5/32', '10.0.0.6/31', '10.0.0.8/32']);
+      expect(cidrs(['192.168.0.0 - 192.168.3.255'])).toEqual(['192.168.0.0/22']);
+      expect(cidrs(['0.0.0.0-255.255.255.255'])).toEqual(['0.0.0.0/0']);
+      expect(cidrSetToCidrs(createCidrSet([{ start: 1, end: 6 }]))).toEqual([
+        '0.0.0.1/32',
+        '0.0.0.2/31',
+        '0.0.0.4/31',
+        '0.0.0.6/32'
+      ]);
+      expect(cidrs(['10.0.0.7'])).toEqual(['10.0.0.7/32']);
+    });
+
+    it('rejects invalid entries', () => {
+      expect(() => createCidrSet(['10.0.0.1/24'])).toThrow('host bits set');
+      expect(() => createCidrSet(['10.0.0.9-10.0.0.1'])).toThrow('ends before it starts');
+      expect(() => createCidrSet(['10.0.0.0/33'])).toThrow('Invalid prefix');
+      expect(() => createCidrSet(['2001:db8::/32'])).toThrow('not an IPv4');
+      expect(() => createCidrSet(['300.0.0.0/8'])).toThrow('Invalid IPv4 address');
+      expect(() => createCidrSet([{ start: 5, end: 2 }])).toThrow('Invalid address range');
+    });
+  });
+
+  it('unions any number of sets', () => {
+    const union = unionCidrSets(
+      createCidrSet(['10.0.0.0/24']),
+      createCidrSet(['10.0.1.0/24', '10.0.3.0/24']),
+      createCidrSet(['10.0.2.0/24'])
+    );
+    expect(cidrSetToCidrs(union)).toEqual(['10.0.0.0/22']);
+    expect(cidrSetToCidrs(unionCidrSets())).toEqual([]);
+  });
+
+  it('intersects sets', () => {
+    const a = createCidrSet(['10.0.0.0/16', '192.168.0.0/24']);
+    const b = createCidrSet(['10.0.128.0/17', '10.1.0.0/16', '192.168.0.100-192.168.1.5']);
+    expect(cidrSetToCidrs(intersectCidrSets(a, b))).toEqual([
+      '10.0.128.0/17',
+      '192.168.0.100/30',
+      '192.168.0.104/29',
+      '192.168.0.112/28',
+      '192.168.0.128/25'
+    ]);
+    expect(intersectCidrSets(a, createCidrSet(['172.16.0.0/12'])).ranges).toEqual([]);
+  });
+
+  it('subtracts allocations from a block', () => {
+    const free = subtractCidrSets(
+      createCidrSet(['10.0.0.0/8']),
+      createCidrSet(['10.0.0.0/16', '10.1.0.0/24', '10.255.255.255'])
+    );
+    expect(cidrSetToCidrs(free)).toEqual([
+      '10.1.1.0/24',
+      '10.1.2.0/23',
+      '10.1.4.0/22',
+      '10.1.8.0/21',
+      '10.1.16.0/20',
+      '10.1.32.0/19',
+      '10.1.64.0/18',
+      '10.1.128.0/17',
+      '10.2.0.0/15',
+      '10.4.0.0/14',
+      '10.8.0.0/13',
+      '10.16.0.0/12',
+      '10.32.0.0/11',
+      '10.64.0.0/10',
+      '10.128.0.0/10',
+      '10.192.0.0/11',
+      '10.224.0.0/12',
+      '10.240.0.0/13',
+      '10.248.0.0/14',
+      '10.252.0.0/15',
+      '10.254.0.0/16',
+      '10.255.0.0/17',
+      '10.255.128.0/18',
+      '10.255.192.0/19',
+      '10.255.224.0/20',
+      '10.255.240.0/21',
+      '10.255.248.0/22',
+      '10.255.252.0/23',
+      '10.255.254.0/24',
+      '10.255.255.0/25',
+      '10.255.255.128/26',
+      '10.255.255.192/27',
+      '10.255.255.224/28',
+      '10.255.255.240/29',
+      '10.255.255.248/30',
+      '10.255.255.252/31',
+      '10.255.255.254/32'
+    ]);
+    expect(getCidrSetSize(free)).toBe(2 ** 24 - 2 ** 16 - 256 - 1);
+
+    const split = subtractCidrSets(createCidrSet(['10.0.0.0/22', '10.0.8.0/24']), createCidrSet(['10.0.1.0/24', '10.0.8.0/25']));
+    expect(cidrSetToCidrs(split)).toEqual(['10.0.0.0/24', '10.0.2.0/23', '10.0.8.128/25']);
+    expect(cidrSetToCidrs(subtractCidrSets(createCidrSet(['10.0.0.0/24']), createCidrSet(['10.0.0.0/8'])))).toEqual([]);
+  });
+
+  it('answers containment and overlap queries', () => {
+    const set = createCidrSet(['10.0.0.0/24', '10.0.1.0/24', '10.0.4.0/24']);
+
+    expect(cidrSetContains(set, '10.0.0.0/23')).toBe(true);
+    expect(cidrSetContains(set, '10.0.0.200-10.0.1.10')).toBe(true);
+    expect(cidrSetContains(set, '10.0.0.0/22')).toBe(false);
+    expect(cidrSetContains(set, createCidrSet(['10.0.4.0/25', '10.0.1.7']))).toBe(true);
+    expect(cidrSetContains(set, createCidrSet())).toBe(true);
+
+    expect(cidrSetsOverlap(set, createCidrSet(['10.0.2.0/23']))).toBe(false);
+    expect(cidrSetsOverlap(set, createCidrSet(['10.0.0.0/16']))).toBe(true);
+    expect(cidrSetsOverlap(set, createCidrSet(['10.0.4.255']))).toBe(true);
+  });
+
+  it('splits an address range into subnets', () => {
+    expect(rangeToSubnets('10.1.2.5', '10.1.3.77').map((s) => `${s.networkAddress}/${s.cidr}`)).toEqual([
+      '10.1.2.5/32',
+      '10.1.2.6/31',
+      '10.1.2.8/29',
+      '10.1.2.16/28',
+      '10.1.2.32/27',
+      '10.1.2.64/26',
+      '10.1.2.128/25',
+      '10.1.3.0/26',
+      '10.1.3.64/29',
+      '10.1.3.72/30',
+      '10.1.3.76/31'
+    ]);
+    expect(rangeToSubnets('192.168.0.0', '192.168.0.255')[0]).toMatchObject({ cidr: 24, usableHosts: 254 });
+    expect(() => rangeToSubnets('10.0.0.2', '10.0.0.1')).toThrow('ends before it starts');
+  });
+});
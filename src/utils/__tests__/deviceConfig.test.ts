@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { generateDeviceConfig, planToConfigTargets, subnetsToConfigTargets } from '../deviceConfig';
+import { calculateSubnetFromCidr } from '../subnetCalculations';
+import { calculateIPv6Subnet } from '../ipv6Calculations';
+import { buildSubnetTree } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+
+const web = { subnet: calculateSubnetFromCidr('10.0.0.0/25'), name: 'web', vlanId: 10 };
+const db = { subnet: calculateSubnetFromCidr('10.0.0.128/26') };
+const v6 = { subnet: calculateIPv6Subnet('2001:db8::', 64) };
+
+describe('Device Config Generation', () => {
+  it('renders Cisco IOS interfaces with the first usable address', () => {
+    expect(generateDeviceConfig([web, db], 'cisco-ios').split('\n')).toEqual([
+      '! 10.0.0.0/25 web (usable 10.0.0.1 - 10.0.0.126)',
+      'interface GigabitEthernet0/0.10',
+      ' description web',
+      ' encapsulation dot1Q 10',
+      ' ip address 10.0.0.1 255.255.255.128',
+      ' no shutdown',
+      '!',
+      '! 10.0.0.128/26 (usable 10.0.0.129 - 10.0.0.190)',
+      'interface GigabitEthernet0/0',
+      ' ip address 10.0.0.129 255.255.255.192',
+      ' no shutdown',
+      '!'
+    ]);
+  });
+
+  it('renders Cisco ACLs using the wildcard mask', () => {
+    const config = generateDeviceConfig([web, v6], 'cisco-acl', { listName: 'lan hosts' });
+    expect(config).toContain('ip access-list extended lan-hosts');
+    expect(config).toContain(' permit ip 10.0.0.0 0.0.0.127 any');
+    expect(config).toContain(' remark 10.0.0.0/25 web (usable 10.0.0.1 - 10.0.0.126)');
+    expect(config).toContain('ipv6 access-list lan-hosts-V6');
+    expect(config).toContain(' permit ipv6 2001:db8::/64 any');
+  });
+
+  it('renders JunOS prefix-lists with a comment per entry', () => {
+    expect(generateDeviceConfig([web, db], 'junos', { listName: 'LAN' }).split('\n')).toEqual([
+      '# Prefix-list LAN',
+      '# 10.0.0.0/25 web (usable 10.0.0.1 - 10.0.0.126)',
+      'set policy-options prefix-list LAN 10.0.0.0/25',
+      '# 10.0.0.128/26 (usable 10.0.0.129 - 10.0.0.190)',
+      'set policy-options prefix-list LAN 10.0.0.128/26'
+    ]);
+  });
+
+  it('renders iptables chains and nftables sets per address family', () => {
+    const iptables = generateDeviceConfig([web], 'iptables');
+    expect(iptables).toContain('iptables -A SUBNETS -s 10.0.0.0/25 -m comment --comment "web" -j ACCEPT');
+    expect(iptables).toContain('iptables -A FORWARD -i eth0 -j SUBNETS');
+    expect(iptables).not.toContain('ip6tables');
+
+    const nftables = generateDeviceConfig([web, v6], 'nftables');
+    expect(nftables).toContain("nft add set inet filter SUBNETS '{ type ipv4_addr; flags interval; }'");
+    expect(nftables).toContain("nft add element inet filter SUBNETS '{ 10.0.0.0/25 }'");
+    expect(nftables).toContain("nft add element inet filter SUBNETS_v6 '{ 2001:db8::/64 }'");
+  });
+
+  it('renders Linux ip commands with VLAN subinterfaces', () => {
+    const lines = generateDeviceConfig([web, db, v6], 'linux-ip', { interfaceName: 'ens3' }).split('\n');
+    expect(lines).toContain('ip link add link ens3 name ens3.10 type vlan id 10');
+    expect(lines).toContain('ip addr add 10.0.0.1/25 dev ens3.10');
+    expect(lines).toContain('ip route replace 10.0.0.128/26 dev ens3');
+    expect(lines).toContain('ip -6 addr add 2001:db8::1/64 dev ens3');
+  });
+
+  it('builds targets from calculator subnets and planner IN_USE nodes', () => {
+    expect(subnetsToConfigTargets([db.subnet])).toEqual([{ subnet: db.subnet }]);
+
+    const tree = buildSubnetTree({
+      ...defaultPlanConfig,
+      nodeMetadata: { '10.1.242.0/24': { name: 'app-servers', vlanId: 42 } }
+    });
+    const targets = planToConfigTargets(tree);
+    expect(targets.map((target) => `${target.subnet.networkAddress}/${target.subnet.cidr}`)).toContain('10.1.242.0/24');
+    expect(targets.find((target) => target.subnet.networkAddress === '10.1.242.0')).toMatchObject({
+      name: 'app-servers',
+      vlanId: 42
+    });
+  });
+});
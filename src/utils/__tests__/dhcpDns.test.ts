@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { generateDhcpScope, generateReverseZones, getDhcpScope, getReverseZones } from '../dhcpDns';
+import { calculateSubnetFromCidr } from '../subnetCalculations';
+import { buildSubnetTree } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+
+const lan = calculateSubnetFromCidr('10.0.0.0/24');
+
+describe('DHCP Scope Generation', () => {
+  it('builds pools from the usable range minus the router and exclusions', () => {
+    expect(getDhcpScope(lan)).toEqual({
+      cidr: '10.0.0.0/24',
+      router: '10.0.0.1',
+      pools: [{ start: '10.0.0.2', end: '10.0.0.254' }]
+    });
+    expect(getDhcpScope(lan, { router: '10.0.0.254', exclusions: ['10.0.0.100-10.0.0.119', '10.0.0.200/29', ' '] }).pools).toEqual([
+      { start: '10.0.0.1', end: '10.0.0.99' },
+      { start: '10.0.0.120', end: '10.0.0.199' },
+      { start: '10.0.0.208', end: '10.0.0.253' }
+    ]);
+  });
+
+  it('rejects IPv6, routers outside the subnet and bad exclusions', () => {
+    expect(() => getDhcpScope(calculateSubnetFromCidr('2001:db8::/64'))).toThrow('IPv4 subnets only');
+    expect(() => getDhcpScope(lan, { router: '10.0.1.1' })).toThrow('Router 10.0.1.1 is outside 10.0.0.0/24');
+    expect(() => getDhcpScope(lan, { router: '10.0.0' })).toThrow('Invalid router address');
+    expect(() => getDhcpScope(lan, { exclusions: ['10.0.0.9-10.0.0.2'] })).toThrow();
+  });
+
+  it('renders ISC dhcpd subnet blocks', () => {
+    const config = generateDhcpScope(lan, 'dhcpd', {
+      exclusions: ['10.0.0.2-10.0.0.9'],
+      dnsServers: ['10.0.0.53', '10.0.0.54'],
+      domainName: 'lan.example.com',
+      leaseTime: 3600
+    });
+    expect(config.split('\n')).toEqual([
+      '# 10.0.0.0/24: usable 10.0.0.1 - 10.0.0.254',
+      'subnet 10.0.0.0 netmask 255.255.255.0 {',
+      '  range 10.0.0.10 10.0.0.254;',
+      '  option routers 10.0.0.1;',
+      '  option broadcast-address 10.0.0.255;',
+      '  option domain-name-servers 10.0.0.53, 10.0.0.54;',
+      '  option domain-name "lan.example.com";',
+      '  default-lease-time 3600;',
+      '}'
+    ]);
+  });
+
+  it('renders Kea subnet4 entries', () => {
+    const [comment, ...json] = generateDhcpScope(lan, 'kea', { subnetId: 7 }).split('\n');
+    expect(comment).toMatch(/^\/\/ Entry for the "subnet4" list/);
+    expect(JSON.parse(json.join('\n'))).toEqual({
+      comment: '10.0.0.0/24: usable 10.0.0.1 - 10.0.0.254, router 10.0.0.1',
+      id: 7,
+      subnet: '10.0.0.0/24',
+      pools: [{ pool: '10.0.0.2 - 10.0.0.254' }],
+      'option-data': [{ name: 'routers', data: '10.0.0.1' }],
+      'valid-lifetime': 86400
+    });
+  });
+
+  it('takes planner nodes and names them from metadata', () => {
+    const tree = buildSubnetTree({
+      ...defaultPlanConfig,
+      nodeMetadata: { '10.1.242.0/24': { name: 'app-servers' } }
+    });
+    const config = generateDhcpScope(tree.nodes['10.1.242.0/24'], 'dhcpd');
+    expect(config).toContain('# 10.1.242.0/24 app-servers: usable 10.1.242.1 - 10.1.242.254');
+    expect(config).toContain('subnet 10.1.242.0 netmask 255.255.255.0 {');
+  });
+});
+
+describe('Reverse Zone Generation', () => {
+  it('puts IPv4 zones on octet boundaries', () => {
+    expect(getReverseZones(lan)).toEqual([{ name: '0.0.10.in-addr.arpa' }]);
+    expect(getReverseZones(calculateSubnetFromCidr('10.1.2.0/23')).map((zone) => zone.name)).toEqual([
+      '2.1.10.in-addr.arpa',
+      '3.1.10.in-addr.arpa'
+    ]);
+    expect(getReverseZones(calculateSubnetFromCidr('172.16.0.0/12'))).toHaveLength(16);
+    expect(getReverseZones(calculateSubnetFromCidr('10.0.0.0/8'))).toEqual([{ name: '10.in-addr.arpa' }]);
+  });
+
+  it('uses RFC 2317 classless zones below a /24', () => {
+    expect(getReverseZones(calculateSubnetFromCidr('192.0.2.64/26'))).toEqual([{
+      name: '64/26.2.0.192.in-addr.arpa',
+      delegation: { parentZone: '2.0.192.in-addr.arpa', label: '64/26', firstOctet: 64, lastOctet: 127 }
+    }]);
+  });
+
+  it('puts IPv6 zones on nibble boundaries', () => {
+    expect(getReverseZones(calculateSubnetFromCidr('2001:db8::/32'))).toEqual([{ name: '8.b.d.0.1.0.0.2.ip6.arpa' }]);
+    expect(getReverseZones(calculateSubnetFromCidr('2001:db8:10::/46')).map((zone) => zone.name)).toEqual([
+      '0.1.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+      '1.1.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+      '2.1.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+      '3.1.0.0.8.b.d.0.1.0.0.2.ip6.arpa'
+    ]);
+  });
+
+  it('renders BIND zone stubs with SOA, NS and an example PTR', () => {
+    const zone = generateReverseZones(lan, 'bind', { nameServers: ['ns1.lan.example', 'ns2.lan.example.'], serial: 2024010101 });
+    expect(zone.split('\n')).toEqual([
+      '; Reverse zone for 10.0.0.0/24',
+      '$ORIGIN 0.0.10.in-addr.arpa.',
+      '$TTL 3600',
+      '@ IN SOA ns1.lan.example. hostmaster.example.com. (',
+      '    2024010101 ; serial',
+      '    3600 ; refresh',
+      '    900 ; retry',
+      '    1209600 ; expire',
+      '    3600 ) ; negative caching TTL',
+      '@ IN NS ns1.lan.example.',
+      '@ IN NS ns2.lan.example.',
+      '; PTR records go here, for example:',
+      '; 1 IN PTR host.example.com.'
+    ]);
+  });
+
+  it('renders the RFC 2317 delegation for the parent zone', () => {
+    const bind = generateReverseZones(calculateSubnetFromCidr('192.0.2.64/26'), 'bind');
+    expect(bind).toContain('$ORIGIN 64/26.2.0.192.in-addr.arpa.');
+    expect(bind).toContain('; 65 IN PTR host.example.com.');
+    expect(bind).toContain('; RFC 2317 delegation: add to the 2.0.192.in-addr.arpa zone');
+    expect(bind).toContain('64/26 IN NS ns1.example.com.');
+    expect(bind).toContain('$GENERATE 64-127 $ IN CNAME $.64/26');
+
+    const pdns = generateReverseZones(calculateSubnetFromCidr('192.0.2.64/30'), 'powerdns').split('\n');
+    expect(pdns).toContain('pdnsutil create-zone 64/30.2.0.192.in-addr.arpa ns1.example.com');
+    expect(pdns).toContain('pdnsutil add-record 2.0.192.in-addr.arpa 64/30 NS 3600 ns1.example.com');
+    expect(pdns.filter((line) => line.includes(' CNAME '))).toEqual([
+      'pdnsutil add-record 2.0.192.in-addr.arpa 64 CNAME 3600 64.64/30.2.0.192.in-addr.arpa',
+      'pdnsutil add-record 2.0.192.in-addr.arpa 65 CNAME 3600 65.64/30.2.0.192.in-addr.arpa',
+      'pdnsutil add-record 2.0.192.in-addr.arpa 66 CNAME 3600 66.64/30.2.0.192.in-addr.arpa',
+      'pdnsutil add-record 2.0.192.in-addr.arpa 67 CNAME 3600 67.64/30.2.0.192.in-addr.arpa'
+    ]);
+  });
+
+  it('renders one stub per zone and places the example PTR in the right one', () => {
+    const zones = generateReverseZones(calculateSubnetFromCidr('10.1.2.0/23'), 'powerdns').split('\n\n');
+    expect(zones).toHaveLength(2);
+    expect(zones[0]).toContain('# pdnsutil add-record 2.1.10.in-addr.arpa 1 PTR 3600 host.example.com');
+    expect(zones[1]).not.toContain('PTR');
+
+    expect(generateReverseZones(calculateSubnetFromCidr('10.1.0.0/16'), 'bind')).toContain('; 1.0 IN PTR host.example.com.');
+  });
+});
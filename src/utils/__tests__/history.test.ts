@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_HISTORY_ENTRIES,
+  createHistory,
+  jumpToHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from '../history';
+
+function labels(entries: { label: string }[]): string[] {
+  return entries.map((entry) => entry.label);
+}
+
+describe('Command History', () => {
+  it('starts with only the initial state', () => {
+    const history = createHistory(['10.0.0.0/24']);
+    expect(history.past).toEqual([]);
+    expect(history.future).toEqual([]);
+    expect(history.present.label).toBe('Initial state');
+    expect(history.present.state).toEqual(['10.0.0.0/24']);
+  });
+
+  it('undoes and redoes pushed commands in order', () => {
+    let history = createHistory(['10.0.0.0/24']);
+    history = pushHistory(history, ['10.0.0.0/25', '10.0.0.128/25'], 'Divide 10.0.0.0/24');
+    history = pushHistory(history, ['10.0.0.0/24'], 'Join 10.0.0.0/25 + 10.0.0.128/25');
+
+    history = undoHistory(history);
+    expect(history.present.label).toBe('Divide 10.0.0.0/24');
+    expect(history.present.state).toEqual(['10.0.0.0/25', '10.0.0.128/25']);
+    expect(labels(history.future)).toEqual(['Join 10.0.0.0/25 + 10.0.0.128/25']);
+
+    history = undoHistory(history);
+    expect(history.present.label).toBe('Initial state');
+    expect(undoHistory(history)).toBe(history);
+
+    history = redoHistory(redoHistory(history));
+    expect(history.present.label).toBe('Join 10.0.0.0/25 + 10.0.0.128/25');
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it('clears the redo stack when a new command is pushed', () => {
+    let history = createHistory(0);
+    history = pushHistory(history, 1, 'One');
+    history = pushHistory(history, 2, 'Two');
+    history = undoHistory(history);
+    history = pushHistory(history, 3, 'Three');
+
+    expect(history.future).toEqual([]);
+    expect(labels(history.past)).toEqual(['Initial state', 'One']);
+    expect(history.present.state).toBe(3);
+  });
+
+  it('ignores pushes of the current state', () => {
+    const state = { overrides: {} };
+    const history = createHistory(state);
+    expect(pushHistory(history, state, 'No-op')).toBe(history);
+  });
+
+  it('coalesces consecutive pushes with the same label', () => {
+    let history = createHistory('');
+    history = pushHistory(history, '10', 'Edit plan configuration', true);
+    history = pushHistory(history, '10.1', 'Edit plan configuration', true);
+    history = pushHistory(history, '10.1.0.0/16', 'Edit plan configuration', true);
+
+    expect(labels(history.past)).toEqual(['Initial state']);
+    expect(history.present.state).toBe('10.1.0.0/16');
+
+    history = pushHistory(history, 'x', 'Reset plan', true);
+    expect(labels(history.past)).toEqual(['Initial state', 'Edit plan configuration']);
+  });
+
+  it('jumps to any entry in the list', () => {
+    let history = createHistory('a');
+    history = pushHistory(history, 'b', 'B');
+    history = pushHistory(history, 'c', 'C');
+    history = pushHistory(history, 'd', 'D');
+
+    history = jumpToHistory(history, 1);
+    expect(history.present.state).toBe('b');
+    expect(labels(history.past)).toEqual(['Initial state']);
+    expect(labels(history.future)).toEqual(['C', 'D']);
+
+    history = jumpToHistory(history, 3);
+    expect(history.present.state).toBe('d');
+    expect(history.future).toEqual([]);
+
+    expect(jumpToHistory(history, 99)).toBe(history);
+  });
+
+  it('caps the undo stack', () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= MAX_HISTORY_ENTRIES + 20; i++) {
+      history = pushHistory(history, i, `Step ${i}`);
+    }
+
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].state).toBe(20);
+    expect(history.present.state).toBe(MAX_HISTORY_ENTRIES + 20);
+  });
+});
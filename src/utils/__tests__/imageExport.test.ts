@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { rasterizeSvg, renderPlannerTreeSvg, renderSubnetBlocksSvg } from '../imageExport';
+import { calculateSubnetFromCidr, divideSubnet } from '../subnetCalculations';
+import { buildSubnetTree, flattenTree } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+import { imageThemes } from '../../config/imageThemes';
+
+const halves = divideSubnet(calculateSubnetFromCidr('10.0.0.0/24'));
+const quarters = [...divideSubnet(halves[1]), halves[0]];
+
+describe('Subnet Block Images', () => {
+  it('draws one labelled row per subnet in address order', () => {
+    const { svg, width, height } = renderSubnetBlocksSvg(quarters);
+
+    expect(width).toBe(960);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="960"/);
+    expect(svg).toContain('3 subnets • 250 usable addresses');
+    const labels = [...svg.matchAll(/>(10\.0\.0\.\d+\/\d+)</g)].map((match) => match[1]);
+    expect(labels).toEqual(['10.0.0.0/25', '10.0.0.128/26', '10.0.0.192/26']);
+    expect(svg).toContain('10.0.0.129 - 10.0.0.190 • 62 usable • 255.255.255.192');
+    expect(height).toBe(renderSubnetBlocksSvg(quarters.slice(1)).height + 52);
+  });
+
+  it('sizes rows by prefix and the address bar by address count', () => {
+    const { svg } = renderSubnetBlocksSvg(quarters);
+    const widths = [...svg.matchAll(/<rect x="24" y="[\d.]+" width="([\d.]+)" height="44"/g)].map((match) => Number(match[1]));
+
+    // Track and bar for each row
+    expect(widths).toEqual([912, 912, 912, 456, 912, 456]);
+    expect(svg.match(/height="28"/g)).toHaveLength(3);
+  });
+
+  it('follows the theme and highlights the selected subnet', () => {
+    const dark = imageThemes.dark;
+    const { svg } = renderSubnetBlocksSvg(quarters, { theme: 'dark', selectedSubnet: '10.0.0.128/26' });
+
+    expect(svg).toContain(`<rect width="100%" height="100%" fill="${dark.background}"/>`);
+    expect(svg).toContain(`fill="${dark.selectedFill}" stroke="${dark.selectedStroke}"`);
+    expect(svg).not.toContain(imageThemes.light.background);
+  });
+
+  it('escapes titles and skips the address bar for a single subnet', () => {
+    const { svg } = renderSubnetBlocksSvg([halves[0]], { title: 'Lab <A & B>' });
+
+    expect(svg).toContain('<title>Lab &lt;A &amp; B&gt;</title>');
+    expect(svg).not.toContain('height="28"');
+  });
+});
+
+describe('Planner Tree Images', () => {
+  const tree = buildSubnetTree({
+    ...defaultPlanConfig,
+    nodeMetadata: { '10.1.241.0/27': { name: 'Ops "core"' } }
+  });
+  const rows = flattenTree(tree, {});
+
+  it('draws each row indented and colored by status', () => {
+    const { svg } = renderPlannerTreeSvg(rows);
+    const inUse = imageThemes.light.status.IN_USE;
+
+    expect(svg).toContain('<title>Plan 10.1.240.0/20</title>');
+    expect(svg).toContain(`${rows.length} nodes shown`);
+    expect(svg).toContain('>10.1.241.0/27</text>');
+    expect(svg).toContain('>Ops &quot;core&quot;</text>');
+    expect(svg).toContain(`fill="${inUse.fill}" stroke="${inUse.stroke}"`);
+    expect(svg).toContain('>4,096 IPs • PARTIAL</text>');
+    expect(svg).toContain('<rect x="44" y="');
+  });
+
+  it('cuts long names short of the status label', () => {
+    const name = 'Operations management network for the core site';
+    const named = flattenTree(buildSubnetTree({ ...defaultPlanConfig, nodeMetadata: { '10.1.241.0/27': { name } } }), {});
+
+    expect(renderPlannerTreeSvg(named).svg).toContain(`>${name}</text>`);
+    const narrow = renderPlannerTreeSvg(named, { width: 600 }).svg;
+    const [, x, shown] = narrow.match(/<text x="([\d.]+)" [^>]*font-size="12"[^>]*>(Operations[^<]*)<\/text>/) ?? [];
+    expect(shown).toMatch(/^Operations .*…$/);
+    // Name end (at the 0.6em monospace estimate) stays left of the right-aligned label
+    const labelStart = 600 - 24 - 12 - '32 IPs • IN_USE'.length * 12 * 0.6;
+    expect(Number(x) + shown.length * 12 * 0.6).toBeLessThan(labelStart);
+  });
+
+  it('stripes partial nodes and adds a legend', () => {
+    const { svg } = renderPlannerTreeSvg(rows.slice(0, 1), { theme: 'dark' });
+
+    expect(svg).toContain('<pattern id="partial"');
+    expect(svg).toContain('fill="url(#partial)"');
+    expect(svg).toContain('>UNAVAILABLE</text>');
+    expect(svg).toContain(`fill="${imageThemes.dark.background}"`);
+  });
+});
+
+describe('PNG Rasterization', () => {
+  it('rejects images larger than a canvas', async () => {
+    const image = renderSubnetBlocksSvg(quarters);
+    await expect(rasterizeSvg(image, 20)).rejects.toThrow('Image is too large at 20x');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkSubnetOverlaps,
+  getImportableSubnets,
+  mergePlanConfigs,
+  parseImportText,
+  validatePlanImport
+} from '../importUtils';
+import { calculateSubnet } from '../subnetCalculations';
+import { defaultPlanConfig } from '../../config/samplePlan';
+import type { ImportRow, SubnetImport } from '../../types/import';
+
+const CSV_HEADER = '"Network Address","CIDR","Subnet Mask","Wildcard Mask","Broadcast Address","First Usable","Last Usable","Total Hosts","Usable Hosts"';
+
+function subnetRows(text: string): ImportRow[] {
+  const result = parseImportText(text);
+  expect(result.errors).toEqual([]);
+  return (result.data as SubnetImport).rows;
+}
+
+describe('Import Parsing', () => {
+  it('reads ExportData JSON', () => {
+    const json = JSON.stringify({
+      timestamp: '2025-01-01T00:00:00.000Z',
+      subnets: [
+        calculateSubnet({ ipAddress: '192.168.1.0', cidr: 25 }),
+        calculateSubnet({ ipAddress: '192.168.1.128', cidr: 25 })
+      ]
+    });
+
+    const result = parseImportText(json);
+    expect(result.data?.format).toBe('json');
+
+    const rows = (result.data as SubnetImport).rows;
+    expect(rows.map((row) => row.entry)).toEqual(['192.168.1.0/25', '192.168.1.128/25']);
+    expect(rows.every((row) => row.errors.length === 0)).toBe(true);
+    expect(rows[1].subnet?.broadcastAddress).toBe('192.168.1.255');
+  });
+
+  it('reads exportToCSV output and reports row errors', () => {
+    const rows = subnetRows([
+      CSV_HEADER,
+      '"10.0.0.0","24","255.255.255.0","0.0.0.255","10.0.0.255","10.0.0.1","10.0.0.254","256","254"',
+      '"10.0.1.5","24","255.255.255.0","0.0.0.255","10.0.1.255","10.0.1.1","10.0.1.254","256","254"',
+      '"10.0.300.0","24","","","","","","",""',
+      '"10.0.2.0","40","","","","","","",""',
+      '"2001:db8::","64","","","","","","",""',
+      ''
+    ].join('\n'));
+
+    expect(rows.map((row) => row.row)).toEqual([2, 3, 4, 5, 6]);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['Not aligned: network is 10.0.1.0/24']);
+    expect(rows[2].errors[0]).toMatch(/^Invalid IP:/);
+    expect(rows[3].errors[0]).toMatch(/^Invalid prefix:/);
+    expect(rows[4].subnet?.version).toBe(6);
+  });
+
+  it('detects planner JSON', () => {
+    const result = parseImportText(JSON.stringify(defaultPlanConfig));
+    expect(result.data?.format).toBe('plan');
+  });
+
+  it('rejects unrecognized files', () => {
+    expect(parseImportText('').errors).toEqual(['File is empty']);
+    expect(parseImportText('{"foo": 1}').errors[0]).toMatch(/^Unrecognized JSON/);
+    expect(parseImportText('{oops').errors[0]).toMatch(/^Invalid JSON/);
+    expect(parseImportText('a,b\n1,2').errors[0]).toMatch(/^CSV header must include/);
+    expect(parseImportText('{"rootCidr": "10.0.0.0/8"}').errors).toEqual([
+      'Plan is missing a numeric "minPrefix"',
+      'Plan "assignedCidrs" must be a list of CIDR strings'
+    ]);
+  });
+
+  it('rejects plans with malformed node metadata', () => {
+    const plan = {
+      rootCidr: '10.0.0.0/16',
+      minPrefix: 24,
+      assignedCidrs: [],
+      nodeMetadata: { '10.0.0.0/24': { name: 5, tags: 'prod' } }
+    };
+    const result = parseImportText(JSON.stringify(plan));
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual([
+      'Plan "nodeMetadata" for 10.0.0.0/24: name must be a string',
+      'Plan "nodeMetadata" for 10.0.0.0/24: tags must be a list of strings'
+    ]);
+  });
+
+  it('rejects plans with out-of-range VLAN IDs', () => {
+    const plan = {
+      rootCidr: '10.0.0.0/16',
+      minPrefix: 24,
+      assignedCidrs: [],
+      nodeMetadata: { '10.0.0.0/24': { vlanId: 0 }, '10.0.1.0/24': { vlanId: 5000 } }
+    };
+    expect(parseImportText(JSON.stringify(plan)).errors).toEqual([
+      'Plan "nodeMetadata" for 10.0.0.0/24: vlanId must be an integer between 1-4094',
+      'Plan "nodeMetadata" for 10.0.1.0/24: vlanId must be an integer between 1-4094'
+    ]);
+  });
+});
+
+describe('Import Overlaps', () => {
+  const rows = () => subnetRows([
+    CSV_HEADER,
+    '"10.0.0.0","24"',
+    '"10.0.0.128","25"',
+    '"10.0.1.0","24"'
+  ].join('\n'));
+
+  it('flags rows overlapping earlier rows', () => {
+    const checked = checkSubnetOverlaps(rows());
+    expect(checked[1].errors).toEqual(['Overlaps 10.0.0.0/24 (row 2)']);
+    expect(getImportableSubnets(checked).map((s) => s.networkAddress)).toEqual(['10.0.0.0', '10.0.1.0']);
+  });
+
+  it('flags rows overlapping the current session when merging', () => {
+    const existing = [calculateSubnet({ ipAddress: '10.0.0.0', cidr: 23 })];
+    const checked = checkSubnetOverlaps(rows(), existing);
+    expect(getImportableSubnets(checked)).toEqual([]);
+    expect(checked[2].errors).toEqual(['Overlaps 10.0.0.0/23 in current session']);
+  });
+});
+
+describe('Plan Import', () => {
+  it('accepts the sample plan as a replacement', () => {
+    const report = validatePlanImport(defaultPlanConfig, defaultPlanConfig, 'replace');
+    expect(report.isValid).toBe(true);
+    expect(report.rows[0]).toMatchObject({ entry: '10.1.240.0/20', field: 'rootCidr', errors: [] });
+  });
+
+  it('reports misaligned, out-of-root and conflicting entries per row', () => {
+    const report = validatePlanImport({
+      ...defaultPlanConfig,
+      inUseCidrs: ['10.1.241.0/24', '10.1.242.1/24'],
+      reservedCidrs: ['10.1.241.128/25', '10.2.0.0/24']
+    }, defaultPlanConfig, 'replace');
+
+    const byEntry = Object.fromEntries(report.rows.map((row) => [`${row.field}:${row.entry}`, row.errors]));
+    expect(report.isValid).toBe(false);
+    expect(byEntry['inUseCidrs:10.1.241.0/24']).toEqual(['Overlaps 10.1.241.128/25 (reserved)']);
+    expect(byEntry['inUseCidrs:10.1.242.1/24']).toEqual(['10.1.242.1/24: not aligned, network is 10.1.242.0/24']);
+    expect(byEntry['reservedCidrs:10.1.241.128/25']).toEqual(['Overlaps 10.1.241.0/24 (in use)']);
+    expect(byEntry['reservedCidrs:10.2.0.0/24']).toEqual(['10.2.0.0/24: outside root 10.1.240.0/20']);
+  });
+
+  it('merges lists into the current plan', () => {
+    const incoming = {
+      rootCidr: '10.9.0.0/16',
+      minPrefix: 24,
+      assignedCidrs: ['10.1.240.0/20'],
+      reservedCidrs: ['10.1.255.0/24'],
+      nodeMetadata: { '10.1.255.0/24': { name: 'lab' } }
+    };
+    const merged = mergePlanConfigs({ ...defaultPlanConfig, nodeMetadata: { '10.1.241.0/24': { owner: 'ops' } } }, incoming);
+
+    expect(merged.rootCidr).toBe(defaultPlanConfig.rootCidr);
+    expect(merged.minPrefix).toBe(defaultPlanConfig.minPrefix);
+    expect(merged.reservedCidrs).toContain('10.1.255.0/24');
+    expect(merged.assignedCidrs.filter((cidr) => cidr === '10.1.240.0/20')).toHaveLength(1);
+    expect(merged.nodeMetadata).toEqual({
+      '10.1.241.0/24': { owner: 'ops' },
+      '10.1.255.0/24': { name: 'lab' }
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateIPv6Address,
+  validateIPv6Prefix,
+  ipv6ToBigInt,
+  bigIntToIPv6,
+  expandIPv6,
+  compressIPv6,
+  ipv6ToBinary,
+  ipv6PrefixToMask,
+  ipv6PrefixToWildcard,
+  getIPv6NetworkAddress,
+  getIPv6LastAddress,
+  getIPv6TotalAddresses,
+  getIPv6UsableAddresses,
+  calculateIPv6Subnet,
+  divideIPv6Subnet,
+  canJoinIPv6Subnets,
+  joinIPv6Subnets
+} from '../ipv6Calculations';
+
+describe('IPv6 Address Validation', () => {
+  it('validates correct IPv6 addresses', () => {
+    expect(validateIPv6Address('2001:db8::1')).toEqual({ isValid: true });
+    expect(validateIPv6Address('::')).toEqual({ isValid: true });
+    expect(validateIPv6Address('::1')).toEqual({ isValid: true });
+    expect(validateIPv6Address('2001:0db8:0000:0000:0000:ff00:0042:8329')).toEqual({ isValid: true });
+    expect(validateIPv6Address('::ffff:192.0.2.128')).toEqual({ isValid: true });
+  });
+
+  it('rejects invalid IPv6 addresses', () => {
+    expect(validateIPv6Address('2001:db8:::1').isValid).toBe(false);
+    expect(validateIPv6Address('2001:db8::1::2').isValid).toBe(false);
+    expect(validateIPv6Address('1:2:3:4:5:6:7').isValid).toBe(false);
+    expect(validateIPv6Address('1:2:3:4:5:6:7:8:9').isValid).toBe(false);
+    expect(validateIPv6Address('2001:db8::g').isValid).toBe(false);
+    expect(validateIPv6Address('12345::').isValid).toBe(false);
+    expect(validateIPv6Address('::ffff:256.0.0.1').isValid).toBe(false);
+    expect(validateIPv6Address('fe80::1%eth0').isValid).toBe(false);
+  });
+});
+
+describe('IPv6 Prefix Validation', () => {
+  it('validates correct prefix lengths', () => {
+    expect(validateIPv6Prefix(0)).toEqual({ isValid: true });
+    expect(validateIPv6Prefix(64)).toEqual({ isValid: true });
+    expect(validateIPv6Prefix(128)).toEqual({ isValid: true });
+  });
+
+  it('rejects invalid prefix lengths', () => {
+    expect(validateIPv6Prefix(-1).isValid).toBe(false);
+    expect(validateIPv6Prefix(129).isValid).toBe(false);
+  });
+});
+
+describe('IPv6 Conversion Functions', () => {
+  it('converts IPv6 to BigInt and back', () => {
+    expect(ipv6ToBigInt('::')).toBe(0n);
+    expect(ipv6ToBigInt('::1')).toBe(1n);
+    expect(ipv6ToBigInt('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff')).toBe((1n << 128n) - 1n);
+    expect(bigIntToIPv6(ipv6ToBigInt('2001:db8::8a2e:370:7334'))).toBe('2001:db8::8a2e:370:7334');
+  });
+
+  it('expands compressed notation', () => {
+    expect(expandIPv6('2001:db8::1')).toBe('2001:0db8:0000:0000:0000:0000:0000:0001');
+    expect(expandIPv6('::')).toBe('0000:0000:0000:0000:0000:0000:0000:0000');
+    expect(expandIPv6('::ffff:192.0.2.128')).toBe('0000:0000:0000:0000:0000:ffff:c000:0280');
+  });
+
+  it('compresses to RFC 5952 canonical form', () => {
+    expect(compressIPv6('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+    expect(compressIPv6('2001:db8:0:1:0:0:0:1')).toBe('2001:db8:0:1::1');
+    expect(compressIPv6('2001:db8:0:0:1:0:0:1')).toBe('2001:db8::1:0:0:1');
+    expect(compressIPv6('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+    expect(compressIPv6('0:0:0:0:0:0:0:0')).toBe('::');
+  });
+
+  it('converts IPv6 to binary', () => {
+    expect(ipv6ToBinary('::1')).toBe(`${'0000000000000000:'.repeat(7)}0000000000000001`);
+    expect(ipv6ToBinary('ffff::').startsWith('1111111111111111:0000000000000000')).toBe(true);
+  });
+});
+
+describe('IPv6 Mask Functions', () => {
+  it('converts prefix to mask', () => {
+    expect(ipv6PrefixToMask(64)).toBe('ffff:ffff:ffff:ffff::');
+    expect(ipv6PrefixToMask(48)).toBe('ffff:ffff:ffff::');
+    expect(ipv6PrefixToMask(0)).toBe('::');
+    expect(ipv6PrefixToMask(128)).toBe('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff');
+  });
+
+  it('converts prefix to wildcard', () => {
+    expect(ipv6PrefixToWildcard(64)).toBe('::ffff:ffff:ffff:ffff');
+    expect(ipv6PrefixToWildcard(128)).toBe('::');
+  });
+});
+
+describe('IPv6 Network Address Functions', () => {
+  it('calculates network address correctly', () => {
+    expect(getIPv6NetworkAddress('2001:db8:abcd:12::1', 48)).toBe('2001:db8:abcd::');
+    expect(getIPv6NetworkAddress('2001:db8::ffff', 120)).toBe('2001:db8::ff00');
+    expect(getIPv6NetworkAddress('2001:db8::1', 0)).toBe('::');
+  });
+
+  it('calculates last address correctly', () => {
+    expect(getIPv6LastAddress('2001:db8::', 64)).toBe('2001:db8::ffff:ffff:ffff:ffff');
+    expect(getIPv6LastAddress('2001:db8::', 128)).toBe('2001:db8::');
+  });
+});
+
+describe('IPv6 Address Count Functions', () => {
+  it('calculates total addresses exactly', () => {
+    expect(getIPv6TotalAddresses(128)).toBe(1n);
+    expect(getIPv6TotalAddresses(64)).toBe(18446744073709551616n);
+    expect(getIPv6TotalAddresses(0)).toBe(1n << 128n);
+  });
+
+  it('calculates usable addresses', () => {
+    expect(getIPv6UsableAddresses(64)).toBe(18446744073709551615n);
+    expect(getIPv6UsableAddresses(127)).toBe(2n); // RFC 6164 point-to-point
+    expect(getIPv6UsableAddresses(128)).toBe(1n); // Host route
+  });
+});
+
+describe('IPv6 Main Calculation Function', () => {
+  it('calculates subnet information correctly', () => {
+    const result = calculateIPv6Subnet('2001:db8:0:1::abcd', 64);
+
+    expect(result.version).toBe(6);
+    expect(result.networkAddress).toBe('2001:db8:0:1::');
+    expect(result.broadcastAddress).toBe('2001:db8:0:1:ffff:ffff:ffff:ffff');
+    expect(result.subnetMask).toBe('ffff:ffff:ffff:ffff::');
+    expect(result.firstUsable).toBe('2001:db8:0:1::1');
+    expect(result.lastUsable).toBe('2001:db8:0:1:ffff:ffff:ffff:ffff');
+    expect(result.totalHosts).toBe(2 ** 64);
+    expect(result.cidr).toBe(64);
+  });
+
+  it('handles edge cases correctly', () => {
+    const hostRoute = calculateIPv6Subnet('2001:db8::1', 128);
+    expect(hostRoute.networkAddress).toBe('2001:db8::1');
+    expect(hostRoute.firstUsable).toBe('2001:db8::1');
+    expect(hostRoute.usableHosts).toBe(1);
+
+    const p2p = calculateIPv6Subnet('2001:db8::', 127);
+    expect(p2p.firstUsable).toBe('2001:db8::');
+    expect(p2p.lastUsable).toBe('2001:db8::1');
+    expect(p2p.usableHosts).toBe(2);
+
+    const everything = calculateIPv6Subnet('2001:db8::1', 0);
+    expect(everything.networkAddress).toBe('::');
+    expect(everything.broadcastAddress).toBe('ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff');
+  });
+});
+
+describe('IPv6 Subnet Division', () => {
+  it('divides subnet correctly', () => {
+    const [subnet1, subnet2] = divideIPv6Subnet(calculateIPv6Subnet('2001:db8::', 32));
+
+    expect(subnet1.networkAddress).toBe('2001:db8::');
+    expect(subnet1.cidr).toBe(33);
+    expect(subnet1.broadcastAddress).toBe('2001:db8:7fff:ffff:ffff:ffff:ffff:ffff');
+
+    expect(subnet2.networkAddress).toBe('2001:db8:8000::');
+    expect(subnet2.cidr).toBe(33);
+    expect(subnet2.broadcastAddress).toBe('2001:db8:ffff:ffff:ffff:ffff:ffff:ffff');
+  });
+
+  it('throws error when trying to divide /128 subnet', () => {
+    const hostRoute = calculateIPv6Subnet('2001:db8::1', 128);
+    expect(() => divideIPv6Subnet(hostRoute)).toThrow('Cannot divide /128 subnet');
+  });
+});
+
+describe('IPv6 Subnet Joining', () => {
+  it('identifies joinable subnets correctly', () => {
+    const subnet1 = calculateIPv6Subnet('2001:db8::', 33);
+    const subnet2 = calculateIPv6Subnet('2001:db8:8000::', 33);
+    const subnet3 = calculateIPv6Subnet('2001:db9::', 33);
+    // Adjacent but not buddies: 2001:db8:8000::/33 and 2001:db9::/33
+    expect(canJoinIPv6Subnets(subnet1, subnet2)).toBe(true);
+    expect(canJoinIPv6Subnets(subnet2, subnet3)).toBe(false);
+    expect(canJoinIPv6Subnets(subnet1, subnet1)).toBe(false);
+  });
+
+  it('joins adjacent subnets correctly', () => {
+    const joined = joinIPv6Subnets(
+      calculateIPv6Subnet('2001:db8:8000::', 33),
+      calculateIPv6Subnet('2001:db8::', 33)
+    );
+
+    expect(joined.networkAddress).toBe('2001:db8::');
+    expect(joined.cidr).toBe(32);
+  });
+
+  it('throws error when trying to join non-adjacent subnets', () => {
+    const subnet1 = calculateIPv6Subnet('2001:db8::', 33);
+    const subnet3 = calculateIPv6Subnet('2001:db9::', 33);
+
+    expect(() => joinIPv6Subnets(subnet1, subnet3)).toThrow('Subnets cannot be joined');
+  });
+});
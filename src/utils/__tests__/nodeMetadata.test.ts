@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMetadataTotals,
+  checkMetadataShape,
+  checkNodeMetadataShape,
+  metadataMatches,
+  normalizeMetadata,
+  searchNodeMetadata,
+  setNodeMetadata,
+  validateMetadata
+} from '../nodeMetadata';
+import { buildSubnetTree, updateNodeStatus } from '../subnetTree';
+import { planToCSVRows } from '../exportUtils';
+import { defaultPlanConfig } from '../../config/samplePlan';
+import type { TreePlanConfig } from '../../types/subnetTree';
+
+const annotatedPlan: TreePlanConfig = {
+  ...defaultPlanConfig,
+  nodeMetadata: {
+    '10.1.242.0/24': { name: 'app-servers', site: 'dc1', owner: 'platform', tags: ['prod'] },
+    '10.1.242.0/26': { name: 'web-tier', vlanId: 120, tags: ['dmz'], attributes: { gateway: '10.1.242.1' } },
+    '10.1.249.0/24': { site: 'dc2', owner: 'data', description: 'Warehouse ETL' }
+  }
+};
+
+describe('Node Metadata', () => {
+  it('normalizes and validates metadata', () => {
+    expect(normalizeMetadata({ name: '  web  ', site: '', tags: ['a', ' a ', ''], attributes: { ' k ': ' v ', '': 'x' } }))
+      .toEqual({ name: 'web', tags: ['a'], attributes: { k: 'v' } });
+    expect(normalizeMetadata({ name: ' ', tags: [] })).toBeUndefined();
+
+    expect(validateMetadata({ vlanId: 120 })).toEqual([]);
+    expect(validateMetadata({ vlanId: 0 })).toEqual(['VLAN ID must be between 1-4094']);
+    expect(validateMetadata({ vlanId: 4095 })).toEqual(['VLAN ID must be between 1-4094']);
+  });
+
+  it('rejects malformed metadata from untrusted input', () => {
+    expect(checkMetadataShape({ name: 'web', vlanId: 10, tags: ['prod'], attributes: { rack: 'A1' } })).toEqual([]);
+    expect(checkMetadataShape({ name: 5, vlanId: 1.5, tags: 'prod', attributes: { rack: 1 } })).toEqual([
+      'name must be a string',
+      'vlanId must be an integer between 1-4094',
+      'tags must be a list of strings',
+      'attributes must map names to strings'
+    ]);
+    expect(checkMetadataShape(null)).toEqual(['must be an object']);
+    [0, -5, 4095, 5000].forEach((vlanId) => {
+      expect(checkMetadataShape({ vlanId })).toEqual(['vlanId must be an integer between 1-4094']);
+    });
+
+    expect(checkNodeMetadataShape({ '10.0.0.0/24': { owner: ['ops'] } })).toEqual([
+      'Plan "nodeMetadata" for 10.0.0.0/24: owner must be a string'
+    ]);
+    expect(checkNodeMetadataShape([])).toEqual(['Plan "nodeMetadata" must be an object keyed by CIDR']);
+  });
+
+  it('sets and clears node metadata on the plan', () => {
+    const withName = setNodeMetadata(defaultPlanConfig, '10.1.241.0/27', { name: 'mgmt' });
+    expect(withName.nodeMetadata).toEqual({ '10.1.241.0/27': { name: 'mgmt' } });
+    expect(defaultPlanConfig.nodeMetadata).toBeUndefined();
+
+    const cleared = setNodeMetadata(withName, '10.1.241.0/27', { name: '' });
+    expect(cleared.nodeMetadata).toEqual({});
+  });
+
+  it('attaches metadata on build and keeps it across status updates', () => {
+    const tree = buildSubnetTree(annotatedPlan);
+    expect(tree.nodes['10.1.242.0/26'].metadata?.vlanId).toBe(120);
+
+    const updated = updateNodeStatus(tree, '10.1.242.0/24', 'RESERVED');
+    expect(updated.nodes['10.1.242.0/24'].metadata?.name).toBe('app-servers');
+    expect(updated.nodes['10.1.242.0/26'].metadata?.name).toBe('web-tier');
+
+    // Metadata for nodes outside the rebuilt tree is ignored, not an error
+    const rebuilt = buildSubnetTree({ ...annotatedPlan, minPrefix: 24 });
+    expect(rebuilt.nodes['10.1.242.0/24'].metadata?.name).toBe('app-servers');
+    expect(rebuilt.nodes['10.1.242.0/26']).toBeUndefined();
+  });
+
+  it('searches names, tags, VLANs and attributes', () => {
+    const tree = buildSubnetTree(annotatedPlan);
+    const ids = (query: string) => searchNodeMetadata(tree, query).map((node) => node.id);
+
+    expect(ids('web')).toEqual(['10.1.242.0/26']);
+    expect(ids('PROD')).toEqual(['10.1.242.0/24']);
+    expect(ids('vlan 120')).toEqual(['10.1.242.0/26']);
+    expect(ids('gateway=10.1.242.1')).toEqual(['10.1.242.0/26']);
+    expect(ids('etl')).toEqual(['10.1.249.0/24']);
+    expect(metadataMatches(undefined, 'web')).toBe(false);
+    expect(metadataMatches({ name: 'web' }, '  ')).toBe(false);
+  });
+
+  it('totals addresses by inherited site and accumulated tags', () => {
+    const tree = buildSubnetTree(annotatedPlan);
+
+    const bySite = calculateMetadataTotals(tree, 'site');
+    expect(bySite.map(({ value, totals }) => [value, totals.total])).toEqual([
+      ['dc1', 256],
+      ['dc2', 256],
+      ['', 4096 - 512]
+    ]);
+    expect(bySite[1].totals.IN_USE).toBe(256);
+
+    const byTag = Object.fromEntries(calculateMetadataTotals(tree, 'tag').map(({ value, totals }) => [value, totals.total]));
+    expect(byTag.prod).toBe(256);
+    expect(byTag.dmz).toBe(64);
+
+    const byVlan = calculateMetadataTotals(tree, 'vlan');
+    expect(byVlan[0]).toMatchObject({ value: '120', totals: { total: 64, IN_USE: 64 } });
+  });
+
+  it('exports annotated and explicit nodes as CSV rows', () => {
+    const rows = planToCSVRows(buildSubnetTree(annotatedPlan));
+    const web = rows.find((row) => row[0] === '10.1.242.0' && row[1] === '26');
+
+    expect(rows[0]).toEqual(['Network', 'Prefix', 'Status', 'Name', 'Description', 'VLAN ID', 'Site', 'Owner', 'Tags', 'Attributes']);
+    expect(web).toEqual(['10.1.242.0', '26', 'IN_USE', 'web-tier', '', '120', '', '', 'dmz', 'gateway=10.1.242.1']);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import {
+  detectIPVersion,
   validateIPAddress,
   validateCIDR,
   ipToInt,
@@ -16,8 +17,15 @@ import {
   calculateSubnet,
   divideSubnet,
   canJoinSubnets,
-  joinSubnets
+  joinSubnets,
+  parseIPRange,
+  getSmallestCommonSubnet,
+  parseSubnetNotation,
+  getReservedAddresses,
+  getPrefixForHosts,
+  withReservation
 } from '../subnetCalculations';
+import { reservationProfiles } from '../../config/reservationProfiles';
 
 describe('IP Address Validation', () => {
   it('validates correct IP addresses', () => {
@@ -76,6 +84,7 @@ describe('Subnet Mask Functions', () => {
     expect(cidrToWildcard(24)).toBe('0.0.0.255');
     expect(cidrToWildcard(16)).toBe('0.0.255.255');
     expect(cidrToWildcard(8)).toBe('0.255.255.255');
+    expect(cidrToWildcard(0)).toBe('255.255.255.255');
   });
 });
 
@@ -84,12 +93,14 @@ describe('Network Address Functions', () => {
     expect(getNetworkAddress('192.168.1.100', 24)).toBe('192.168.1.0');
     expect(getNetworkAddress('10.5.10.50', 16)).toBe('10.5.0.0');
     expect(getNetworkAddress('172.16.255.255', 12)).toBe('172.16.0.0');
+    expect(getNetworkAddress('10.1.2.3', 0)).toBe('0.0.0.0');
   });
 
   it('calculates broadcast address correctly', () => {
     expect(getBroadcastAddress('192.168.1.0', 24)).toBe('192.168.1.255');
     expect(getBroadcastAddress('10.0.0.0', 16)).toBe('10.0.255.255');
     expect(getBroadcastAddress('172.16.0.0', 12)).toBe('172.31.255.255');
+    expect(getBroadcastAddress('0.0.0.0', 0)).toBe('255.255.255.255');
   });
 
   it('calculates first and last usable addresses', () => {
@@ -138,6 +149,102 @@ describe('Main Calculation Function', () => {
     const p2p = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 31 });
     expect(p2p.usableHosts).toBe(2);
   });
+
+  it('detects the address family', () => {
+    expect(detectIPVersion('192.168.1.1')).toBe(4);
+    expect(detectIPVersion('2001:db8::1')).toBe(6);
+    expect(calculateSubnet({ ipAddress: '192.168.1.0', cidr: 24 }).version).toBe(4);
+  });
+
+  it('calculates IPv6 subnets through the same entry point', () => {
+    const result = calculateSubnet({ ipAddress: '2001:db8:abcd:12::1', cidr: 48 });
+
+    expect(result.version).toBe(6);
+    expect(result.networkAddress).toBe('2001:db8:abcd::');
+    expect(result.broadcastAddress).toBe('2001:db8:abcd:ffff:ffff:ffff:ffff:ffff');
+    expect(result.subnetMask).toBe('ffff:ffff:ffff::');
+    expect(result.cidr).toBe(48);
+  });
+});
+
+describe('Reservation Profiles', () => {
+  const { rfc3021, aws, azure, gcp } = reservationProfiles;
+
+  it('counts usable hosts per profile', () => {
+    expect(getUsableHosts(24, aws)).toBe(251);
+    expect(getUsableHosts(24, azure)).toBe(251);
+    expect(getUsableHosts(24, gcp)).toBe(252);
+    expect(getUsableHosts(29, aws)).toBe(3);
+    expect(getUsableHosts(30, aws)).toBe(0);
+  });
+
+  it('applies the /31 and /32 exceptions per profile', () => {
+    expect(getReservedAddresses(31)).toEqual({ reservedFirst: 0, reservedLast: 0 });
+    expect(getReservedAddresses(31, rfc3021)).toEqual({ reservedFirst: 0, reservedLast: 0 });
+    expect(getUsableHosts(31, rfc3021)).toBe(2);
+    expect(getUsableHosts(32, rfc3021)).toBe(0);
+    expect(getUsableHosts(31, gcp)).toBe(0);
+  });
+
+  it('moves the usable range in from both ends', () => {
+    const awsSubnet = calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24, reservation: aws });
+    expect(awsSubnet.firstUsable).toBe('10.0.0.4');
+    expect(awsSubnet.lastUsable).toBe('10.0.0.254');
+    expect(awsSubnet.reservation).toEqual(aws);
+
+    const gcpSubnet = calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24, reservation: gcp });
+    expect(gcpSubnet.firstUsable).toBe('10.0.0.2');
+    expect(gcpSubnet.lastUsable).toBe('10.0.0.253');
+
+    const custom = calculateSubnet({
+      ipAddress: '10.0.0.0',
+      cidr: 28,
+      reservation: { id: 'custom', reservedFirst: 3, reservedLast: 0 }
+    });
+    expect(custom.firstUsable).toBe('10.0.0.3');
+    expect(custom.lastUsable).toBe('10.0.0.15');
+    expect(custom.usableHosts).toBe(13);
+  });
+
+  it('leaves the usable range empty when nothing is usable', () => {
+    const tiny = calculateSubnet({ ipAddress: '10.0.0.0', cidr: 30, reservation: aws });
+    expect(tiny.usableHosts).toBe(0);
+    expect(tiny.firstUsable).toBe('');
+    expect(tiny.lastUsable).toBe('');
+  });
+
+  it('uses every address of classic /31 and /32 subnets', () => {
+    const p2p = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 31 });
+    expect(p2p.firstUsable).toBe('192.168.1.0');
+    expect(p2p.lastUsable).toBe('192.168.1.1');
+
+    const hostRoute = calculateSubnet({ ipAddress: '192.168.1.1', cidr: 32 });
+    expect(hostRoute.firstUsable).toBe('192.168.1.1');
+    expect(hostRoute.lastUsable).toBe('192.168.1.1');
+  });
+
+  it('only records non-classic profiles on the result', () => {
+    expect(calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24, reservation: reservationProfiles.classic }))
+      .toEqual(calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24 }));
+  });
+
+  it('keeps the profile through divide, join and recalculation', () => {
+    const parent = calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24, reservation: azure });
+    const [low, high] = divideSubnet(parent);
+    expect(low.firstUsable).toBe('10.0.0.4');
+    expect(high.firstUsable).toBe('10.0.0.132');
+    expect(joinSubnets(low, high)).toEqual(parent);
+
+    expect(withReservation(parent)).toEqual(calculateSubnet({ ipAddress: '10.0.0.0', cidr: 24 }));
+    const ipv6 = calculateSubnet({ ipAddress: '2001:db8::', cidr: 64 });
+    expect(withReservation(ipv6, aws)).toBe(ipv6);
+  });
+
+  it('sizes prefixes for the profile', () => {
+    expect(getPrefixForHosts(30)).toBe(27);
+    expect(getPrefixForHosts(30, aws)).toBe(26);
+    expect(getPrefixForHosts(1, rfc3021)).toBe(31);
+  });
 });
 
 describe('Subnet Division', () => {
@@ -154,6 +261,15 @@ describe('Subnet Division', () => {
     expect(subnet2.broadcastAddress).toBe('192.168.1.255');
   });
 
+  it('divides IPv6 subnets', () => {
+    const subnet = calculateSubnet({ ipAddress: '2001:db8::', cidr: 64 });
+    const [subnet1, subnet2] = divideSubnet(subnet);
+
+    expect(subnet1.networkAddress).toBe('2001:db8::');
+    expect(subnet2.networkAddress).toBe('2001:db8:0:0:8000::');
+    expect(subnet2.cidr).toBe(65);
+  });
+
   it('throws error when trying to divide /32 subnet', () => {
     const hostRoute = calculateSubnet({ ipAddress: '192.168.1.1', cidr: 32 });
     expect(() => divideSubnet(hostRoute)).toThrow('Cannot divide /32 subnet');
@@ -180,10 +296,123 @@ describe('Subnet Joining', () => {
     expect(joined.broadcastAddress).toBe('192.168.1.255');
   });
 
+  it('joins IPv6 subnets and refuses mixed families', () => {
+    const v6a = calculateSubnet({ ipAddress: '2001:db8::', cidr: 65 });
+    const v6b = calculateSubnet({ ipAddress: '2001:db8:0:0:8000::', cidr: 65 });
+    const v4 = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 25 });
+
+    expect(joinSubnets(v6a, v6b).networkAddress).toBe('2001:db8::');
+    expect(joinSubnets(v6a, v6b).cidr).toBe(64);
+    expect(canJoinSubnets(v6a, v4)).toBe(false);
+  });
+
   it('throws error when trying to join non-adjacent subnets', () => {
     const subnet1 = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 25 });
     const subnet3 = calculateSubnet({ ipAddress: '192.168.2.0', cidr: 25 });
     
     expect(() => joinSubnets(subnet1, subnet3)).toThrow('Subnets cannot be joined');
   });
-});
\ No newline at end of file
+});
+
+describe('Address Ranges', () => {
+  it('parses ranges with or without spaces', () => {
+    expect(parseIPRange('10.1.2.5 - 10.1.3.77')).toEqual({ start: '10.1.2.5', end: '10.1.3.77' });
+    expect(parseIPRange('10.0.0.1-10.0.0.1')).toEqual({ start: '10.0.0.1', end: '10.0.0.1' });
+  });
+
+  it('rejects malformed and backwards ranges', () => {
+    expect(() => parseIPRange('10.0.0.9 - 10.0.0.1')).toThrow('Range ends before it starts');
+    expect(() => parseIPRange('10.0.0.1 - 10.0.0.300')).toThrow('Invalid range address "10.0.0.300"');
+    expect(() => parseIPRange('10.0.0.1 - 10.0.0.2 - 10.0.0.3')).toThrow('Expected a range');
+  });
+
+  it('finds the smallest subnet containing two addresses', () => {
+    const covering = getSmallestCommonSubnet('10.1.3.77', '10.1.2.5');
+    expect(`${covering.networkAddress}/${covering.cidr}`).toBe('10.1.2.0/23');
+    expect(getSmallestCommonSubnet('10.0.0.255', '10.0.1.0').cidr).toBe(23);
+    expect(getSmallestCommonSubnet('10.0.0.7', '10.0.0.7').cidr).toBe(32);
+    expect(getSmallestCommonSubnet('0.0.0.0', '255.255.255.255')).toMatchObject({
+      networkAddress: '0.0.0.0',
+      broadcastAddress: '255.255.255.255',
+      cidr: 0
+    });
+    expect(() => getSmallestCommonSubnet('10.0.0.1', 'nope')).toThrow('Invalid IP address "nope"');
+  });
+});
+
+describe('Subnet Notation Parsing', () => {
+  it('parses address/prefix and address prefix', () => {
+    expect(parseSubnetNotation('192.168.1.0/24')).toEqual({
+      isValid: true,
+      ipAddress: '192.168.1.0',
+      cidr: 24,
+      addressNotation: 'dotted',
+      prefixNotation: 'prefix'
+    });
+    expect(parseSubnetNotation('  10.0.0.0 / 8 ')).toMatchObject({ ipAddress: '10.0.0.0', cidr: 8 });
+    expect(parseSubnetNotation('10.0.0.0 16')).toMatchObject({ cidr: 16, prefixNotation: 'prefix' });
+    expect(parseSubnetNotation('10.0.0.0/0')).toMatchObject({ isValid: true, cidr: 0 });
+  });
+
+  it('reads a bare address without a prefix', () => {
+    expect(parseSubnetNotation('192.168.1.7')).toEqual({ isValid: true, ipAddress: '192.168.1.7', addressNotation: 'dotted' });
+  });
+
+  it('parses dotted subnet masks, with a space or a slash', () => {
+    expect(parseSubnetNotation('192.168.1.0 255.255.255.0')).toMatchObject({ cidr: 24, prefixNotation: 'mask' });
+    expect(parseSubnetNotation('192.168.1.0/255.255.255.0')).toMatchObject({ cidr: 24, prefixNotation: 'mask' });
+    expect(parseSubnetNotation('172.16.0.0 255.240.0.0')).toMatchObject({ cidr: 12, prefixNotation: 'mask' });
+    expect(parseSubnetNotation('10.0.0.1 255.255.255.255')).toMatchObject({ cidr: 32, prefixNotation: 'mask' });
+    expect(parseSubnetNotation('0.0.0.0 0.0.0.0')).toMatchObject({ cidr: 0, prefixNotation: 'mask' });
+  });
+
+  it('parses wildcard masks', () => {
+    expect(parseSubnetNotation('192.168.1.0 0.0.0.255')).toMatchObject({ cidr: 24, prefixNotation: 'wildcard' });
+    expect(parseSubnetNotation('10.0.0.0/0.255.255.255')).toMatchObject({ cidr: 8, prefixNotation: 'wildcard' });
+    expect(parseSubnetNotation('10.0.0.4 0.0.0.3')).toMatchObject({ cidr: 30, prefixNotation: 'wildcard' });
+  });
+
+  it('parses hexadecimal addresses', () => {
+    expect(parseSubnetNotation('0xC0A80100')).toEqual({ isValid: true, ipAddress: '192.168.1.0', addressNotation: 'hex' });
+    expect(parseSubnetNotation('0xc0a80100/24')).toMatchObject({ ipAddress: '192.168.1.0', cidr: 24, addressNotation: 'hex' });
+    expect(parseSubnetNotation('0xA000001 255.0.0.0')).toMatchObject({ ipAddress: '10.0.0.1', cidr: 8 });
+    expect(parseSubnetNotation('0x1C0A80100')).toEqual({ isValid: false, error: '0x1C0A80100 is larger than 32 bits' });
+  });
+
+  it('parses 32-bit integer addresses', () => {
+    expect(parseSubnetNotation('3232235776')).toMatchObject({ ipAddress: '192.168.1.0', addressNotation: 'integer' });
+    expect(parseSubnetNotation('167772160 0.255.255.255')).toMatchObject({ ipAddress: '10.0.0.0', cidr: 8 });
+    expect(parseSubnetNotation('0')).toMatchObject({ ipAddress: '0.0.0.0' });
+    expect(parseSubnetNotation('4294967295')).toMatchObject({ ipAddress: '255.255.255.255' });
+    expect(parseSubnetNotation('4294967296')).toEqual({ isValid: false, error: '4294967296 is larger than 32 bits' });
+  });
+
+  it('explains non-contiguous subnet masks', () => {
+    expect(parseSubnetNotation('10.0.0.0 255.0.255.0')).toEqual({
+      isValid: false,
+      error: '255.0.255.0 is not a valid subnet mask: its bits must be all 1s followed by all 0s, ' +
+        'but bit 9 is 0 and bit 24 is 1. Did you mean 255.0.0.0 (/8) or 255.255.255.0 (/24)?'
+    });
+    expect(parseSubnetNotation('10.0.0.0/255.255.0.1').error).toContain('Did you mean 255.255.0.0 (/16) or 255.255.255.255 (/32)?');
+  });
+
+  it('explains non-contiguous wildcard masks', () => {
+    expect(parseSubnetNotation('10.0.0.0 0.255.0.255')).toEqual({
+      isValid: false,
+      error: '0.255.0.255 is not a valid wildcard mask: its bits must be all 0s followed by all 1s, ' +
+        'but bit 9 is 1 and bit 24 is 0. Did you mean 0.255.255.255 (/8) or 0.0.0.255 (/24)?'
+    });
+  });
+
+  it('rejects malformed input', () => {
+    expect(parseSubnetNotation('')).toEqual({ isValid: false, error: 'Enter an IP address' });
+    expect(parseSubnetNotation('256.1.1.1/24')).toEqual({ isValid: false, error: 'Octets must be between 0-255' });
+    expect(parseSubnetNotation('10.0.0.0/33')).toEqual({ isValid: false, error: 'CIDR must be between 0-32' });
+    expect(parseSubnetNotation('10.0.0.0 255.255.0')).toEqual({
+      isValid: false,
+      error: 'Invalid mask "255.255.0": Invalid IP address format'
+    });
+    expect(parseSubnetNotation('10.0.0.0 / 24 extra').isValid).toBe(false);
+    expect(parseSubnetNotation('2001:db8::/32')).toEqual({ isValid: false, error: 'Alternative notations are IPv4 only' });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseRouteList, summarizeRoutes } from '../summarize';
+import { calculateSubnet } from '../subnetCalculations';
+
+const labels = (text: string, mode: 'exact' | 'lossy') =>
+  summarizeRoutes(parseRouteList(text).subnets, mode).summaries.map((s) => `${s.networkAddress}/${s.cidr}`);
+
+describe('Route Summarization', () => {
+  describe('parseRouteList', () => {
+    it('parses routes and bare host addresses', () => {
+      const { subnets, errors } = parseRouteList('10.0.0.0/24, 10.0.1.0/24\n 192.168.1.7 ');
+      expect(errors).toEqual([]);
+      expect(subnets.map((s) => `${s.networkAddress}/${s.cidr}`)).toEqual(['10.0.0.0/24', '10.0.1.0/24', '192.168.1.7/32']);
+    });
+
+    it('reports bad entries and keeps the rest', () => {
+      const { subnets, errors } = parseRouteList('10.0.0.1/24 10.0.0.0/33 2001:db8::/32 nonsense 10.1.0.0/16');
+      expect(subnets).toHaveLength(1);
+      expect(errors).toEqual([
+        '"10.0.0.1/24" has host bits set; did you mean 10.0.0.0/24?',
+        '"10.0.0.0/33": CIDR must be between 0-32',
+        '"2001:db8::/32" is not an IPv4 route',
+        '"nonsense": Invalid IP address format'
+      ]);
+    });
+  });
+
+  describe('exact mode', () => {
+    it('merges buddies into the minimal covering set', () => {
+      expect(labels('10.0.0.0/24 10.0.1.0/24 10.0.2.0/24 10.0.3.0/24', 'exact')).toEqual(['10.0.0.0/22']);
+      expect(labels('10.0.1.0/24 10.0.2.0/24', 'exact')).toEqual(['10.0.1.0/24', '10.0.2.0/24']);
+      expect(labels('10.0.0.0/24 10.0.1.0/24 10.0.2.0/24', 'exact')).toEqual(['10.0.0.0/23', '10.0.2.0/24']);
+    });
+
+    it('drops duplicates and routes inside larger routes', () => {
+      expect(labels('10.0.0.0/16 10.0.5.0/24 10.0.0.0/16 10.1.0.0/16', 'exact')).toEqual(['10.0.0.0/15']);
+      expect(labels('10.0.0.128/25 10.0.0.0/24', 'exact')).toEqual(['10.0.0.0/24']);
+    });
+
+    it('never covers extra space', () => {
+      const result = summarizeRoutes(parseRouteList('10.0.0.0/25 10.0.0.128/26 10.0.1.0/24').subnets, 'exact');
+      expect(result.summaries.map((s) => `${s.networkAddress}/${s.cidr}`)).toEqual(['10.0.0.0/25', '10.0.0.128/26', '10.0.1.0/24']);
+      expect(result).toMatchObject({ inputAddresses: 448, coveredAddresses: 448, extraAddresses: 0 });
+    });
+
+    it('handles the edges of the address space', () => {
+      expect(labels('0.0.0.0/1 128.0.0.0/1', 'exact')).toEqual(['0.0.0.0/0']);
+      expect(labels('255.255.255.254/32 255.255.255.255/32', 'exact')).toEqual(['255.255.255.254/31']);
+    });
+  });
+
+  describe('lossy mode', () => {
+    it('finds the smallest single supernet and the extra space it covers', () => {
+      const result = summarizeRoutes(parseRouteList('10.0.0.0/24 10.0.1.0/24 10.0.2.0/24').subnets, 'lossy');
+      expect(result.summaries).toEqual([calculateSubnet({ ipAddress: '10.0.0.0', cidr: 22 })]);
+      expect(result).toMatchObject({ inputAddresses: 768, coveredAddresses: 1024, extraAddresses: 256 });
+    });
+
+    it('widens across a bit boundary', () => {
+      expect(labels('10.0.3.0/24 10.0.4.0/24', 'lossy')).toEqual(['10.0.0.0/21']);
+      expect(labels('192.168.1.5', 'lossy')).toEqual(['192.168.1.5/32']);
+      expect(labels('10.0.0.0/8 192.168.0.0/16', 'lossy')).toEqual(['0.0.0.0/0']);
+      expect(summarizeRoutes(parseRouteList('10.0.0.0/8 192.168.0.0/16').subnets, 'lossy').extraAddresses)
+        .toBe(2 ** 32 - 2 ** 24 - 2 ** 16);
+    });
+  });
+
+  it('returns nothing for an empty list', () => {
+    expect(summarizeRoutes([], 'lossy')).toEqual({
+      mode: 'lossy',
+      summaries: [],
+      inputAddresses: 0,
+      coveredAddresses: 0,
+      extraAddresses: 0
+    });
+  });
+});
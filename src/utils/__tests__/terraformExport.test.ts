@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { generateTerraform, getCidrsubnetsNewbits, getCloudUsableHosts, getTerraformNames } from '../terraformExport';
+import { calculateSubnetFromCidr } from '../subnetCalculations';
+import { planToConfigTargets } from '../deviceConfig';
+import { buildSubnetTree } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+
+const subnet = calculateSubnetFromCidr;
+const web = { subnet: subnet('10.0.0.0/25'), name: 'Web Tier' };
+const db = { subnet: subnet('10.0.0.128/26') };
+
+describe('Terraform Export', () => {
+  it('names resources from labels, falling back to the CIDR', () => {
+    expect(getTerraformNames([web, db, { subnet: subnet('10.0.0.192/26'), name: 'web tier' }, { subnet: subnet('10.1.0.0/24'), name: '1st' }])).toEqual([
+      'web_tier',
+      'subnet_10_0_0_128_26',
+      'web_tier_2',
+      'subnet_1st'
+    ]);
+  });
+
+  it('keeps suffixed names clear of labels that look like suffixes', () => {
+    const named = (...names: string[]) => names.map((name) => ({ subnet: subnet('10.0.0.0/24'), name }));
+    expect(getTerraformNames(named('web', 'web', 'web_2'))).toEqual(['web', 'web_2', 'web_2_2']);
+    expect(getTerraformNames(named('web_2', 'web', 'web', 'web'))).toEqual(['web_2', 'web', 'web_3', 'web_4']);
+  });
+
+  it('takes cloud reserved addresses out of the usable count', () => {
+    expect(getCloudUsableHosts(subnet('10.0.0.0/24'), 'aws')).toBe(251);
+    expect(getCloudUsableHosts(subnet('10.0.0.0/24'), 'google')).toBe(252);
+    expect(getCloudUsableHosts(subnet('10.0.0.0/30'), 'azure')).toBe(0);
+  });
+
+  it('renders aws_subnet resources with a variable for the VPC', () => {
+    expect(generateTerraform([web], 'aws').split('\n')).toEqual([
+      'variable "vpc_id" {',
+      '  description = "VPC the subnets belong to"',
+      '  type        = string',
+      '}',
+      '',
+      '# 10.0.0.0/25 Web Tier: 128 addresses, 123 usable after AWS reserves 5',
+      'resource "aws_subnet" "web_tier" {',
+      '  vpc_id     = var.vpc_id',
+      '  cidr_block = "10.0.0.0/25"',
+      '',
+      '  tags = {',
+      '    Name = "Web Tier"',
+      '  }',
+      '}'
+    ]);
+  });
+
+  it('warns about prefixes the provider rejects', () => {
+    expect(generateTerraform([{ subnet: subnet('10.0.0.0/29') }], 'aws')).toContain('# WARNING: AWS only accepts /16 to /28 subnets');
+    expect(generateTerraform([{ subnet: subnet('10.0.0.0/29') }], 'azure')).not.toContain('WARNING');
+  });
+
+  it('renders azurerm_subnet and google_compute_subnetwork resources', () => {
+    const azure = generateTerraform([web], 'azure');
+    expect(azure).toContain('resource "azurerm_subnet" "web_tier" {');
+    expect(azure).toContain('  address_prefixes     = ["10.0.0.0/25"]');
+    expect(azure).toContain('variable "virtual_network_name" {');
+
+    const google = generateTerraform([web, { subnet: subnet('2001:db8::/64') }], 'google');
+    expect(google).toContain('  name          = "web-tier"');
+    expect(google).toContain('  ip_cidr_range = "10.0.0.0/25"');
+    expect(google).toContain('124 usable after Google Cloud reserves 4');
+    expect(google).toContain('# 2001:db8::/64 skipped');
+  });
+
+  it('works out cidrsubnets() new bits for packed layouts only', () => {
+    const base = subnet('10.0.0.0/24');
+    expect(getCidrsubnetsNewbits(base, [web.subnet, db.subnet, subnet('10.0.0.192/27')])).toEqual([1, 2, 3]);
+    // Aligning the /26 after a /27 skips a /27, which cidrsubnets() also does
+    expect(getCidrsubnetsNewbits(base, [subnet('10.0.0.0/27'), subnet('10.0.0.64/26')])).toEqual([3, 2]);
+    expect(getCidrsubnetsNewbits(base, [subnet('10.0.0.0/27'), subnet('10.0.0.96/27')])).toBeNull();
+    expect(getCidrsubnetsNewbits(base, [db.subnet, web.subnet])).toBeNull();
+    expect(getCidrsubnetsNewbits(base, [subnet('10.0.1.0/25')])).toBeNull();
+  });
+
+  it('renders a cidrsubnets() locals map when it reproduces the layout', () => {
+    expect(generateTerraform([web, db], 'locals').split('\n')).toEqual([
+      'locals {',
+      '  # Carved from 10.0.0.0/24 in order by cidrsubnets():',
+      '  #   web_tier             = 10.0.0.0/25 (126 usable)',
+      '  #   subnet_10_0_0_128_26 = 10.0.0.128/26 (62 usable)',
+      '  subnets = zipmap(',
+      '    ["web_tier", "subnet_10_0_0_128_26"],',
+      '    cidrsubnets("10.0.0.0/24", 1, 2)',
+      '  )',
+      '}'
+    ]);
+  });
+
+  it('falls back to a literal locals map for planner layouts', () => {
+    const tree = buildSubnetTree({
+      ...defaultPlanConfig,
+      nodeMetadata: { '10.1.242.0/24': { name: 'app-servers' } }
+    });
+    const hcl = generateTerraform(planToConfigTargets(tree), 'locals', { baseCidr: tree.rootId });
+    expect(hcl).not.toContain('cidrsubnets');
+    expect(hcl).toContain('    # app-servers (254 usable)');
+    expect(hcl).toMatch(/ {4}app_servers += "10\.1\.242\.0\/24"/);
+  });
+
+  it('handles empty input and bad base ranges', () => {
+    expect(generateTerraform([], 'aws')).toBe('# No subnets to export');
+    expect(() => generateTerraform([web], 'locals', { baseCidr: '10.0.0/24' })).toThrow('Invalid base range "10.0.0/24"');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  forecastCapacity,
+  getAssignedUtilization,
+  getFragmentation,
+  getFreeBlockHistogram,
+  getNodeUtilization
+} from '../treeAnalytics';
+import { buildSubnetTree, releaseSubtree, updateNodeStatus } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+
+const tree = buildSubnetTree(defaultPlanConfig);
+
+describe('Planner Tree Analytics', () => {
+  it('measures utilization against usable space', () => {
+    expect(getNodeUtilization(tree, tree.rootId)).toMatchObject({ used: 1888, usable: 2048, percent: 92.1875 });
+    expect(getNodeUtilization(tree, '10.1.241.0/24')).toMatchObject({ used: 160, usable: 256, percent: 62.5 });
+    expect(getNodeUtilization(tree, '10.1.240.0/24')).toMatchObject({ used: 0, usable: 0, percent: 0 });
+    expect(getNodeUtilization(tree, '192.0.2.0/24')).toBeNull();
+  });
+
+  it('measures positions inside implicit subtrees', () => {
+    expect(getNodeUtilization(tree, '10.1.242.32/27')?.percent).toBe(100);
+    expect(getNodeUtilization(tree, '10.1.241.64/27')).toMatchObject({ used: 0, usable: 32 });
+
+    const reserved = updateNodeStatus(tree, '10.1.241.64/26', 'RESERVED', true);
+    expect(getNodeUtilization(reserved, '10.1.241.0/24')?.percent).toBe(87.5);
+  });
+
+  it('lists utilization per assigned range', () => {
+    expect(getAssignedUtilization(tree).map(({ nodeId, percent }) => [nodeId, percent])).toEqual([
+      ['10.1.241.0/24', 62.5],
+      ['10.1.242.0/24', 100],
+      ['10.1.243.0/24', 75],
+      ['10.1.244.0/22', 100],
+      ['10.1.249.0/24', 100]
+    ]);
+  });
+
+  it('scores fragmentation against the fewest possible blocks', () => {
+    expect(getFragmentation(tree)).toEqual({ freeIPs: 160, pieces: 3, idealPieces: 2, score: 1 / 3 });
+
+    const released = releaseSubtree(tree, '10.1.241.0/27')!.tree;
+    expect(getFragmentation(released)).toEqual({ freeIPs: 192, pieces: 2, idealPieces: 2, score: 0 });
+
+    const full = buildSubnetTree({ ...defaultPlanConfig, assignedCidrs: [] });
+    expect(getFragmentation(full)).toEqual({ freeIPs: 0, pieces: 0, idealPieces: 0, score: 0 });
+  });
+
+  it('counts free blocks per prefix', () => {
+    expect(getFreeBlockHistogram(tree)).toEqual([
+      { prefix: 26, count: 2, totalIPs: 128 },
+      { prefix: 27, count: 1, totalIPs: 32 }
+    ]);
+  });
+
+  it('forecasts how many more blocks of a size fit', () => {
+    expect(forecastCapacity(tree, 24)).toBe(0);
+    expect(forecastCapacity(tree, 26)).toBe(2);
+    expect(forecastCapacity(tree, 27)).toBe(5);
+    expect(forecastCapacity(tree, 28)).toBe(0);
+    expect(forecastCapacity(tree, 19)).toBe(0);
+
+    const released = releaseSubtree(tree, '10.1.241.0/24')!.tree;
+    expect(forecastCapacity(released, 24)).toBe(1);
+  });
+});
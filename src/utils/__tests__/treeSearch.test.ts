@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getAncestorIds, searchPlannerTree } from '../treeSearch';
+import { buildSubnetTree } from '../subnetTree';
+import { defaultPlanConfig } from '../../config/samplePlan';
+
+const tree = buildSubnetTree({
+  ...defaultPlanConfig,
+  nodeMetadata: {
+    '10.1.242.0/24': { name: 'app-servers', tags: ['prod'] },
+    '10.1.249.0/24': { name: 'warehouse', tags: ['prod'] }
+  }
+});
+
+describe('Planner Tree Search', () => {
+  it('finds the leaf containing an IP address', () => {
+    expect(searchPlannerTree(tree, '10.1.242.70')).toEqual({ kind: 'ip', nodeIds: ['10.1.242.64/27'] });
+    expect(searchPlannerTree(tree, ' 10.1.241.5 ').nodeIds).toEqual(['10.1.241.0/27']);
+    expect(searchPlannerTree(tree, '10.2.0.1').nodeIds).toEqual([]);
+  });
+
+  it('finds a CIDR node or the deepest node containing it', () => {
+    expect(searchPlannerTree(tree, '10.1.242.0/24')).toEqual({ kind: 'cidr', nodeIds: ['10.1.242.0/24'] });
+    expect(searchPlannerTree(tree, '10.1.241.0/28').nodeIds).toEqual(['10.1.241.0/27']);
+    expect(searchPlannerTree(tree, '10.0.0.0/8').nodeIds).toEqual([]);
+  });
+
+  it('finds the topmost nodes with a status', () => {
+    const free = searchPlannerTree(tree, 'free');
+    expect(free.kind).toBe('status');
+    expect(free.nodeIds).toEqual(['10.1.241.32/27', '10.1.241.64/26', '10.1.243.64/26']);
+
+    const inUse = searchPlannerTree(tree, 'in-use').nodeIds;
+    expect(inUse).toContain('10.1.242.0/24');
+    expect(inUse).not.toContain('10.1.242.0/26');
+  });
+
+  it('falls back to metadata text in address order', () => {
+    expect(searchPlannerTree(tree, 'prod')).toEqual({ kind: 'text', nodeIds: ['10.1.242.0/24', '10.1.249.0/24'] });
+    expect(searchPlannerTree(tree, 'WAREHOUSE').nodeIds).toEqual(['10.1.249.0/24']);
+    expect(searchPlannerTree(tree, '   ').nodeIds).toEqual([]);
+  });
+
+  it('lists ancestors root first', () => {
+    expect(getAncestorIds(tree, '10.1.242.0/25')).toEqual([
+      '10.1.240.0/20',
+      '10.1.240.0/21',
+      '10.1.240.0/22',
+      '10.1.242.0/23',
+      '10.1.242.0/24'
+    ]);
+    expect(getAncestorIds(tree, tree.rootId)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHARE_STATE_VERSION,
+  decodeShareState,
+  encodeShareState,
+  readShareHash
+} from '../urlState';
+import { defaultPlanConfig } from '../../config/samplePlan';
+import { reservationProfiles } from '../../config/reservationProfiles';
+import type { SharedState } from '../../types/workspace';
+
+const calculatorOnly: SharedState = {
+  calculator: {
+    input: { ipAddress: '192.168.1.0', cidr: 24 },
+    calculatedCidr: '192.168.1.0/24',
+    subnetCidrs: ['192.168.1.0/25', '192.168.1.128/26', '192.168.1.192/26'],
+    selectedSubnet: '192.168.1.128/26'
+  }
+};
+
+describe('URL Share State', () => {
+  it('round-trips calculator state', async () => {
+    const encoded = await encodeShareState(calculatorOnly);
+    expect(encoded.startsWith(`${SHARE_STATE_VERSION}.`)).toBe(true);
+    expect(encoded).toMatch(/^[0-9]+\.[A-Za-z0-9_-]+$/);
+    expect(await decodeShareState(encoded)).toEqual(calculatorOnly);
+  });
+
+  it('round-trips planner config and overrides', async () => {
+    const state: SharedState = {
+      ...calculatorOnly,
+      planner: {
+        planConfig: defaultPlanConfig,
+        statusOverrides: { '10.1.242.0/24': 'RESERVED' }
+      }
+    };
+
+    const encoded = await encodeShareState(state);
+    expect(await decodeShareState(encoded)).toEqual(state);
+    // Deflate keeps the sample plan well under typical URL limits
+    expect(encoded.length).toBeLessThan(JSON.stringify(state).length);
+  });
+
+  it('rejects unknown versions and malformed payloads', async () => {
+    const encoded = await encodeShareState(calculatorOnly);
+    const payload = encoded.slice(encoded.indexOf('.') + 1);
+
+    expect(await decodeShareState(`${SHARE_STATE_VERSION + 1}.${payload}`)).toBeNull();
+    expect(await decodeShareState(payload)).toBeNull();
+    expect(await decodeShareState(`${SHARE_STATE_VERSION}.not-deflate`)).toBeNull();
+  });
+
+  it('rejects payloads that fail validation', async () => {
+    const badPlan = await encodeShareState({
+      ...calculatorOnly,
+      planner: {
+        planConfig: { ...defaultPlanConfig, rootCidr: '10.1.240.1/20' },
+        statusOverrides: {}
+      }
+    });
+    const badStatus = await encodeShareState({
+      ...calculatorOnly,
+      planner: {
+        planConfig: defaultPlanConfig,
+        statusOverrides: { '10.1.242.0/24': 'BROKEN' as never }
+      }
+    });
+    const badMetadata = await encodeShareState({
+      ...calculatorOnly,
+      planner: {
+        planConfig: {
+          ...defaultPlanConfig,
+          nodeMetadata: { '10.1.241.0/27': { name: 5, tags: 'prod' } as never }
+        },
+        statusOverrides: {}
+      }
+    });
+
+    expect(await decodeShareState(badPlan)).toBeNull();
+    expect(await decodeShareState(badStatus)).toBeNull();
+    expect(await decodeShareState(badMetadata)).toBeNull();
+
+    for (const vlanId of [0, -5, 5000]) {
+      const badVlan = await encodeShareState({
+        ...calculatorOnly,
+        planner: {
+          planConfig: { ...defaultPlanConfig, nodeMetadata: { '10.1.241.0/27': { vlanId } } },
+          statusOverrides: {}
+        }
+      });
+      expect(await decodeShareState(badVlan)).toBeNull();
+    }
+  });
+
+  it('reads reservation profiles by id and only trusts custom counts', async () => {
+    const withReservation = (reservation: unknown) => encodeShareState({
+      calculator: { ...calculatorOnly.calculator, input: { ...calculatorOnly.calculator.input, reservation: reservation as never } }
+    });
+    const decodedReservation = async (reservation: unknown) =>
+      (await decodeShareState(await withReservation(reservation)))?.calculator.input.reservation;
+
+    expect(await decodedReservation({ id: 'aws', reservedFirst: 50, reservedLast: 0 })).toEqual(reservationProfiles.aws);
+    expect(await decodedReservation({ id: 'custom', reservedFirst: 3, reservedLast: 2 }))
+      .toEqual({ id: 'custom', reservedFirst: 3, reservedLast: 2 });
+
+    expect(await decodeShareState(await withReservation({ id: 'bogus', reservedFirst: 1, reservedLast: 1 }))).toBeNull();
+    expect(await decodeShareState(await withReservation({ id: 'toString' }))).toBeNull();
+    expect(await decodeShareState(await withReservation({ id: 'custom', reservedFirst: -1, reservedLast: 0 }))).toBeNull();
+  });
+
+  it('reads the share key from a location hash', () => {
+    expect(readShareHash('#s=1.abc_-')).toBe('1.abc_-');
+    expect(readShareHash('')).toBeNull();
+    expect(readShareHash('#other=1')).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getItemOffsets, getScrollTopForIndex, getVisibleRange } from '../virtualList';
+
+describe('Virtual List Windowing', () => {
+  const offsets = getItemOffsets([10, 10, 30, 10, 10, 10]);
+
+  it('accumulates item offsets', () => {
+    expect(offsets).toEqual([0, 10, 20, 50, 60, 70, 80]);
+    expect(getItemOffsets([])).toEqual([0]);
+  });
+
+  it('finds the items inside the viewport', () => {
+    expect(getVisibleRange(offsets, 0, 25, 0)).toEqual({ start: 0, end: 3 });
+    expect(getVisibleRange(offsets, 35, 20, 0)).toEqual({ start: 2, end: 4 });
+    expect(getVisibleRange(offsets, 35, 20, 1)).toEqual({ start: 1, end: 5 });
+    expect(getVisibleRange(offsets, 500, 20, 2)).toEqual({ start: 3, end: 6 });
+    expect(getVisibleRange([0], 0, 100)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('centers off-screen items and leaves visible ones alone', () => {
+    expect(getScrollTopForIndex(offsets, 1, 0, 30)).toBe(0);
+    expect(getScrollTopForIndex(offsets, 4, 0, 30)).toBe(50);
+    expect(getScrollTopForIndex(offsets, 5, 0, 30)).toBe(50);
+    expect(getScrollTopForIndex(offsets, 9, 15, 30)).toBe(15);
+  });
+
+  it('windows a 200k item list quickly', () => {
+    const started = performance.now();
+    const large = getItemOffsets(new Array(200000).fill(62));
+    for (let scrollTop = 0; scrollTop < large[large.length - 1]; scrollTop += 62 * 997) {
+      const { start, end } = getVisibleRange(large, scrollTop, 640);
+      expect(end - start).toBeLessThanOrEqual(28);
+    }
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { allocateVlsm, parseVlsmRequirements } from '../vlsm';
+import { getPrefixForHosts } from '../subnetCalculations';
+import { reservationProfiles } from '../../config/reservationProfiles';
+
+describe('VLSM Requirement Parsing', () => {
+  it('parses named host counts and multipliers', () => {
+    const { requirements, errors } = parseVlsmRequirements('Users: 500 hosts, DMZ: 30, Links: 2 x 4');
+
+    expect(errors).toEqual([]);
+    expect(requirements).toEqual([
+      { name: 'Users', hosts: 500, count: 1 },
+      { name: 'DMZ', hosts: 30, count: 1 },
+      { name: 'Links', hosts: 4, count: 2 }
+    ]);
+  });
+
+  it('names unnamed entries and reports unparseable ones', () => {
+    const { requirements, errors } = parseVlsmRequirements('100\nGuests: lots\nVoice: 0');
+
+    expect(requirements).toEqual([{ name: 'Subnet 1', hosts: 100, count: 1 }]);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('rejects counts larger than the parent block can hold', () => {
+    const { requirements, errors } = parseVlsmRequirements('Links: 1000000 x 2, Loopbacks: 99999999999 x 1, P2P: 64 x 2', 24);
+
+    expect(requirements).toEqual([{ name: 'P2P', hosts: 2, count: 64 }]);
+    expect(errors).toEqual([
+      '"Links: 1000000 x 2" asks for 1,000,000 subnets; a /24 holds at most 128 /31',
+      '"Loopbacks: 99999999999 x 1" asks for 99,999,999,999 subnets; a /24 holds at most 256 /32'
+    ]);
+  });
+
+  it('keeps entries with duplicate names', () => {
+    const { requirements } = parseVlsmRequirements('Web: 10, Web: 20, Links: 2 x 4, Links 1: 8');
+    const result = allocateVlsm('10.0.0.0/24', requirements);
+
+    expect(result.unallocated).toEqual([]);
+    expect(result.allocations.map((a) => a.name)).toEqual(['Web', 'Web', 'Links 1', 'Links 1', 'Links 2']);
+    expect(new Set(result.allocations.map((a) => a.subnet.networkAddress)).size).toBe(5);
+  });
+});
+
+describe('Prefix Sizing', () => {
+  it('picks the smallest prefix that fits the host count', () => {
+    expect(getPrefixForHosts(500)).toBe(23);
+    expect(getPrefixForHosts(254)).toBe(24);
+    expect(getPrefixForHosts(255)).toBe(23);
+    expect(getPrefixForHosts(30)).toBe(27);
+    expect(getPrefixForHosts(2)).toBe(31);
+    expect(getPrefixForHosts(1)).toBe(32);
+  });
+});
+
+describe('VLSM Allocation', () => {
+  it('allocates largest first on aligned boundaries', () => {
+    const { requirements } = parseVlsmRequirements('DMZ: 30, Users: 500 hosts, Links: 2 x 4');
+    const result = allocateVlsm('10.0.0.0/22', requirements);
+
+    expect(result.unallocated).toEqual([]);
+    expect(result.allocations.map((a) => [a.name, `${a.subnet.networkAddress}/${a.subnet.cidr}`])).toEqual([
+      ['Users', '10.0.0.0/23'],
+      ['DMZ', '10.0.2.0/27'],
+      ['Links 1', '10.0.2.32/29'],
+      ['Links 2', '10.0.2.40/29']
+    ]);
+  });
+
+  it('reports leftover free space as aligned blocks', () => {
+    const result = allocateVlsm('10.0.0.0/22', [{ name: 'Users', hosts: 500, count: 1 }, { name: 'DMZ', hosts: 30, count: 1 }]);
+
+    expect(result.freeBlocks.map((b) => `${b.networkAddress}/${b.cidr}`)).toEqual([
+      '10.0.2.32/27',
+      '10.0.2.64/26',
+      '10.0.2.128/25',
+      '10.0.3.0/24'
+    ]);
+    expect(result.allocatedAddresses).toBe(544);
+    expect(result.freeAddresses).toBe(1024 - 544);
+  });
+
+  it('flags requirements that cannot fit and keeps placing smaller ones', () => {
+    const result = allocateVlsm('192.168.1.0/24', [
+      { name: 'Big', hosts: 200, count: 1 },
+      { name: 'Too Big', hosts: 120, count: 1 },
+      { name: 'Huge', hosts: 1000, count: 1 },
+      { name: 'Small', hosts: 10, count: 1 }
+    ]);
+
+    expect(result.allocations.map((a) => a.name)).toEqual(['Big']);
+    expect(result.unallocated.map((f) => f.name)).toEqual(['Huge', 'Too Big', 'Small']);
+    expect(result.unallocated[0].reason).toContain('larger than the parent');
+  });
+
+  it('fills gaps with the tightest free block', () => {
+    const result = allocateVlsm('192.168.1.0/24', [
+      { name: 'A', hosts: 100, count: 1 },
+      { name: 'B', hosts: 50, count: 1 },
+      { name: 'C', hosts: 20, count: 1 },
+      { name: 'D', hosts: 20, count: 1 }
+    ]);
+
+    expect(result.allocations.map((a) => `${a.subnet.networkAddress}/${a.subnet.cidr}`)).toEqual([
+      '192.168.1.0/25',
+      '192.168.1.128/26',
+      '192.168.1.192/27',
+      '192.168.1.224/27'
+    ]);
+    expect(result.freeBlocks).toEqual([]);
+  });
+
+  it('sizes requirements for the reservation profile', () => {
+    const result = allocateVlsm('10.0.0.0/24', [{ name: 'App', hosts: 60, count: 1 }], reservationProfiles.aws);
+
+    expect(result.allocations[0].subnet.cidr).toBe(25);
+    expect(result.allocations[0].subnet.usableHosts).toBe(123);
+    expect(result.freeBlocks[0].reservation).toEqual(reservationProfiles.aws);
+  });
+
+  it('reports a repeated requirement that runs out of space once', () => {
+    const result = allocateVlsm('10.0.0.0/24', [
+      { name: 'Links', hosts: 2, count: 1_000_000 },
+      { name: 'Huge', hosts: 1000, count: 5_000_000_000 }
+    ]);
+
+    expect(result.allocations).toHaveLength(128);
+    expect(result.allocations[127].name).toBe('Links 128');
+    expect(result.unallocated).toEqual([
+      {
+        name: 'Huge',
+        requestedHosts: 1000,
+        reason: 'Needs a block larger than the parent /24 (5,000,000,000 of 5,000,000,000 did not fit)'
+      },
+      {
+        name: 'Links',
+        requestedHosts: 2,
+        reason: 'No free /31 left in 10.0.0.0/24 (999,872 of 1,000,000 did not fit)'
+      }
+    ]);
+  });
+
+  it('rejects non-IPv4 parents', () => {
+    expect(() => allocateVlsm('2001:db8::/64', [])).toThrow('VLSM allocation requires an IPv4 parent block');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WORKSPACE_SCHEMA_VERSION,
+  createWorkspace,
+  createWorkspaceStore,
+  deleteWorkspace,
+  duplicateWorkspace,
+  addWorkspace,
+  getActiveWorkspace,
+  migrateWorkspaceStore,
+  renameWorkspace,
+  restoreCalculatorSession,
+  toCalculatorSession
+} from '../workspaceStorage';
+import { calculateSubnet, divideSubnet } from '../subnetCalculations';
+import { reservationProfiles } from '../../config/reservationProfiles';
+
+describe('Workspace Store', () => {
+  it('starts with a single active default workspace', () => {
+    const store = createWorkspaceStore();
+
+    expect(store.schemaVersion).toBe(WORKSPACE_SCHEMA_VERSION);
+    expect(store.workspaces).toHaveLength(1);
+    expect(getActiveWorkspace(store).name).toBe('Default');
+  });
+
+  it('creates, renames, duplicates and deletes workspaces', () => {
+    let store = createWorkspaceStore();
+    store = addWorkspace(store, createWorkspace('Branch Offices', { statusOverrides: { '10.1.241.0/27': 'FREE' } }));
+    const branch = getActiveWorkspace(store);
+    expect(branch.name).toBe('Branch Offices');
+
+    store = renameWorkspace(store, branch.id, '  Branches  ');
+    expect(getActiveWorkspace(store).name).toBe('Branches');
+    expect(renameWorkspace(store, branch.id, '   ')).toBe(store);
+
+    store = duplicateWorkspace(store, branch.id);
+    const copy = getActiveWorkspace(store);
+    expect(copy.name).toBe('Branches (copy)');
+    expect(copy.id).not.toBe(branch.id);
+    expect(copy.statusOverrides).toEqual({ '10.1.241.0/27': 'FREE' });
+    expect(copy.statusOverrides).not.toBe(branch.statusOverrides);
+
+    store = deleteWorkspace(store, copy.id);
+    expect(store.workspaces).toHaveLength(2);
+    expect(store.workspaces.some((workspace) => workspace.id === store.activeWorkspaceId)).toBe(true);
+  });
+
+  it('replaces the last workspace with a fresh default when deleted', () => {
+    const store = createWorkspaceStore();
+    const next = deleteWorkspace(store, store.activeWorkspaceId);
+
+    expect(next.workspaces).toHaveLength(1);
+    expect(next.activeWorkspaceId).not.toBe(store.activeWorkspaceId);
+  });
+});
+
+describe('Workspace Migration', () => {
+  it('accepts current-version data', () => {
+    const store = createWorkspaceStore();
+    expect(migrateWorkspaceStore(JSON.parse(JSON.stringify(store)))).toEqual(store);
+  });
+
+  it('rejects unusable or newer data', () => {
+    expect(migrateWorkspaceStore(null)).toBeNull();
+    expect(migrateWorkspaceStore('workspaces')).toBeNull();
+    expect(migrateWorkspaceStore({ schemaVersion: WORKSPACE_SCHEMA_VERSION, workspaces: [] })).toBeNull();
+    expect(migrateWorkspaceStore({ ...createWorkspaceStore(), schemaVersion: WORKSPACE_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+
+  it('repairs a dangling active workspace id', () => {
+    const store = { ...createWorkspaceStore(), activeWorkspaceId: 'missing' };
+    const migrated = migrateWorkspaceStore(store);
+    expect(migrated?.activeWorkspaceId).toBe(store.workspaces[0].id);
+  });
+});
+
+describe('Calculator Sessions', () => {
+  it('round-trips divided subnets through CIDR strings', () => {
+    const parent = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 24 });
+    const halves = divideSubnet(parent);
+    const session = toCalculatorSession({ ipAddress: '192.168.1.0', cidr: 24 }, parent, halves, '192.168.1.128/25');
+
+    expect(session.subnetCidrs).toEqual(['192.168.1.0/25', '192.168.1.128/25']);
+
+    const restored = restoreCalculatorSession(JSON.parse(JSON.stringify(session)));
+    expect(restored.subnet).toEqual(parent);
+    expect(restored.subnets).toEqual(halves);
+    expect(restored.selectedSubnet).toBe('192.168.1.128/25');
+  });
+
+  it('recalculates restored subnets under the saved reservation profile', () => {
+    const input = { ipAddress: '10.0.0.0', cidr: 24, reservation: reservationProfiles.gcp };
+    const subnet = calculateSubnet(input);
+    const session = toCalculatorSession(input, subnet, [subnet], '10.0.0.0/24');
+
+    const restored = restoreCalculatorSession(JSON.parse(JSON.stringify(session)));
+    expect(restored.subnet?.lastUsable).toBe('10.0.0.253');
+    expect(restored.subnets).toEqual([subnet]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { AddressClass, AddressClassification, SpecialPurposeBlock } from '../types/classification';
+import type { IPVersion, SubnetInfo } from '../types/subnet';
+import { ipv4SpecialPurposeBlocks, ipv6SpecialPurposeBlocks } from '../config/specialPurposeRegistry';
+import { ipToInt } from './subnetCalculations';
+import { ipv6ToBigInt } from './ipv6Calculations';
+
+interface BlockRange {
+  start: bigint;
+  end: bigint;
+}
+
+interface IndexedBlock extends BlockRange {
+  block: SpecialPurposeBlock;
+  prefix: number;
+}
+
+// Global unicast space; IPv6 outside it is not routable unless a registry block says otherwise
+const IPV6_GLOBAL_UNICAST = '2000::/3';
+
+function toBigInt(address: string, version: IPVersion): bigint {
+  return version === 4 ? BigInt(ipToInt(address)) : ipv6ToBigInt(address);
+}
+
+function cidrRange(cidr: string, version: IPVersion): BlockRange & { prefix: number } {
+  const [address, prefixText] = cidr.split('/');
+  const prefix = Number(prefixText);
+  const hostBits = BigInt((version === 4 ? 32 : 128) - prefix);
+  const start = toBigInt(address, version);
+  return { start, end: start + (1n << hostBits) - 1n, prefix };
+}
+
+function indexRegistry(blocks: SpecialPurposeBlock[], version: IPVersion): IndexedBlock[] {
+  return blocks
+    .map((block) => ({ block, ...cidrRange(block.cidr, version) }))
+    .sort((a, b) => (a.start === b.start ? a.prefix - b.prefix : a.start < b.start ? -1 : 1));
+}
+
+const registries: Record<IPVersion, IndexedBlock[]> = {
+  4: indexRegistry(ipv4SpecialPurposeBlocks, 4),
+  6: indexRegistry(ipv6SpecialPurposeBlocks, 6)
+};
+
+/**
+ * Classful class of an IPv4 address, from its leading bits
+ *
+ * @example
+ * ```typescript
+ * getAddressClass('10.0.0.0')   // 'A'
+ * getAddressClass('224.0.0.1')  // 'D'
+ * ```
+ */
+export function getAddressClass(address: string): AddressClass {
+  const firstOctet = ipToInt(address) >>> 24;
+  if (firstOctet < 128) return 'A';
+  if (firstOctet < 192) return 'B';
+  if (firstOctet < 224) return 'C';
+  if (firstOctet < 240) return 'D';
+  return 'E';
+}
+
+/**
+ * Classify a subnet against the IANA special-purpose registries
+ *
+ * @param subnet - IPv4 or IPv6 subnet
+ * @returns Classful class (IPv4 only), the registry blocks the subnet overlaps
+ *          (in address order, enclosing blocks first), and whether every address
+ *          in it is globally routable
+ *
+ * @remarks
+ * A subnet is globally routable when the most specific registry block
+ * containing it (if any) is globally reachable and none of the blocks it
+ * overlaps inside itself are not. IPv6 subnets that no registry block
+ * covers must also sit inside 2000::/3.
+ *
+ * @example
+ * ```typescript
+ * classifySubnet(calculateSubnetFromCidr('192.168.1.0/24'))
+ * // { addressClass: 'C', specialPurpose: [{ cidr: '192.168.0.0/16', ... }], globallyRoutable: false }
+ * ```
+ */
+export function classifySubnet(subnet: SubnetInfo): AddressClassification {
+  const { version } = subnet;
+  const range = cidrRange(`${subnet.networkAddress}/${subnet.cidr}`, version);
+  const overlapping = registries[version].filter((entry) => entry.start <= range.end && entry.end >= range.start);
+
+  const containing = overlapping.filter((entry) => entry.start <= range.start && entry.end >= range.end);
+  const innermost = containing[containing.length - 1];
+  const inside = overlapping.filter((entry) => !containing.includes(entry));
+
+  let globallyRoutable = inside.every((entry) => entry.block.globallyReachable);
+  if (innermost) {
+    globallyRoutable &&= innermost.block.globallyReachable;
+  } else if (version === 6) {
+    const global = cidrRange(IPV6_GLOBAL_UNICAST, 6);
+    globallyRoutable &&= range.start >= global.start && range.end <= global.end;
+  }
+
+  return {
+    addressClass: version === 4 ? getAddressClass(subnet.networkAddress) : null,
+    specialPurpose: overlapping.map((entry) => entry.block),
+    globallyRoutable
+  };
+}
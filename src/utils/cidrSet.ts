@@ -0,0 +1,227 @@
+import type { AddressRange, CidrSet, CidrSetEntry } from '../types/cidrSet';
+import type { SubnetInfo } from '../types/subnet';
+import {
+  calculateSubnetFromCidr,
+  detectIPVersion,
+  getTotalHosts,
+  intToIP,
+  ipToInt,
+  validateCIDR,
+  validateIPAddress
+} from './subnetCalculations';
+
+const MAX_ADDRESS = 0xFFFFFFFF;
+
+function parseAddress(address: string): number {
+  const validation = validateIPAddress(address);
+  if (!validation.isValid) {
+    throw new Error(`Invalid IPv4 address "${address}": ${validation.error}`);
+  }
+  return ipToInt(address);
+}
+
+/**
+ * Parse one set entry into an address range
+ *
+ * @param entry - `address/prefix`, a bare address (/32), `start-end`, or a range object
+ * @returns Inclusive address range
+ *
+ * @throws Error for IPv6, malformed entries, CIDRs with host bits set, or ranges that run backwards
+ */
+function parseEntry(entry: CidrSetEntry): AddressRange {
+  if (typeof entry !== 'string') {
+    const { start, end } = entry;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > MAX_ADDRESS || start > end) {
+      throw new Error(`Invalid address range ${start}-${end}`);
+    }
+    return { start, end };
+  }
+
+  const text = entry.trim();
+  if (text.includes('-')) {
+    const [from, to] = text.split('-').map((part) => part.trim());
+    const range = { start: parseAddress(from), end: parseAddress(to) };
+    if (range.start > range.end) {
+      throw new Error(`Range "${text}" ends before it starts`);
+    }
+    return range;
+  }
+
+  const [address, rawPrefix = '32'] = text.split('/');
+  if (detectIPVersion(address) !== 4) {
+    throw new Error(`"${text}" is not an IPv4 address or range`);
+  }
+  const start = parseAddress(address);
+  const prefix = Number(rawPrefix);
+  const prefixValidation = /^\d+$/.test(rawPrefix) ? validateCIDR(prefix) : { isValid: false, error: 'Invalid prefix' };
+  if (!prefixValidation.isValid) {
+    throw new Error(`Invalid prefix in "${text}": ${prefixValidation.error}`);
+  }
+
+  const size = getTotalHosts(prefix);
+  if (start % size !== 0) {
+    throw new Error(`"${text}" has host bits set`);
+  }
+  return { start, end: start + size - 1 };
+}
+
+// Sort and merge ranges that overlap or touch
+function normalize(ranges: AddressRange[]): CidrSet {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: AddressRange[] = [];
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return { ranges: merged };
+}
+
+/**
+ * Build a set from CIDRs, addresses and ranges
+ *
+ * @param entries - Any mix of `10.0.0.0/8`, `10.0.0.1`, `10.0.0.5-10.0.0.20` and `{ start, end }`
+ * @returns Normalized set; overlapping and adjacent entries merge
+ *
+ * @throws Error if any entry is invalid (see the entry rules above)
+ *
+ * @example
+ * ```typescript
+ * cidrSetToCidrs(createCidrSet(['10.0.0.0/25', '10.0.0.128/25']))  // ['10.0.0.0/24']
+ * cidrSetToCidrs(createCidrSet(['10.0.0.5-10.0.0.8']))  // ['10.0.0.5/32', '10.0.0.6/31', '10.0.0.8/32']
+ * ```
+ */
+export function createCidrSet(entries: CidrSetEntry[] = []): CidrSet {
+  return normalize(entries.map(parseEntry));
+}
+
+/**
+ * Union of any number of sets
+ */
+export function unionCidrSets(...sets: CidrSet[]): CidrSet {
+  return normalize(sets.flatMap((set) => set.ranges));
+}
+
+/**
+ * Addresses present in both sets
+ */
+export function intersectCidrSets(a: CidrSet, b: CidrSet): CidrSet {
+  const ranges: AddressRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.ranges.length && j < b.ranges.length) {
+    const start = Math.max(a.ranges[i].start, b.ranges[j].start);
+    const end = Math.min(a.ranges[i].end, b.ranges[j].end);
+    if (start <= end) ranges.push({ start, end });
+
+    // Advance whichever range finishes first
+    if (a.ranges[i].end < b.ranges[j].end) i++;
+    else j++;
+  }
+  return { ranges };
+}
+
+/**
+ * Addresses in the first set that are not in the second
+ *
+ * @example
+ * ```typescript
+ * const free = subtractCidrSets(createCidrSet(['10.0.0.0/22']), createCidrSet(['10.0.1.0/24']));
+ * cidrSetToCidrs(free)  // ['10.0.0.0/24', '10.0.2.0/23']
+ * ```
+ */
+export function subtractCidrSets(a: CidrSet, b: CidrSet): CidrSet {
+  const ranges: AddressRange[] = [];
+  let j = 0;
+  a.ranges.forEach(({ start, end }) => {
+    let current = start;
+    // Skip removals that end before this range
+    while (j < b.ranges.length && b.ranges[j].end < current) j++;
+
+    let k = j;
+    while (k < b.ranges.length && b.ranges[k].start <= end) {
+      if (b.ranges[k].start > current) {
+        ranges.push({ start: current, end: b.ranges[k].start - 1 });
+      }
+      current = Math.max(current, b.ranges[k].end + 1);
+      k++;
+    }
+    if (current <= end) ranges.push({ start: current, end });
+  });
+  return { ranges };
+}
+
+/**
+ * Whether every address of `other` is in `set`
+ *
+ * @param other - Another set, or a single entry such as `10.0.1.0/24`
+ */
+export function cidrSetContains(set: CidrSet, other: CidrSet | CidrSetEntry): boolean {
+  const inner = typeof other === 'string' || !('ranges' in other) ? createCidrSet([other]) : other;
+  return subtractCidrSets(inner, set).ranges.length === 0;
+}
+
+/**
+ * Whether the two sets share any address
+ */
+export function cidrSetsOverlap(a: CidrSet, b: CidrSet): boolean {
+  return intersectCidrSets(a, b).ranges.length > 0;
+}
+
+/**
+ * Number of addresses in the set
+ */
+export function getCidrSetSize(set: CidrSet): number {
+  return set.ranges.reduce((sum, range) => sum + range.end - range.start + 1, 0);
+}
+
+// Fewest aligned CIDR blocks covering exactly one range
+function rangeToCidrs({ start, end }: AddressRange): string[] {
+  const cidrs: string[] = [];
+  let current = start;
+  while (current <= end) {
+    let prefix = 32;
+    while (prefix > 0) {
+      const size = getTotalHosts(prefix - 1);
+      if (current % size !== 0 || current + size - 1 > end) break;
+      prefix--;
+    }
+    cidrs.push(`${intToIP(current)}/${prefix}`);
+    current += getTotalHosts(prefix);
+  }
+  return cidrs;
+}
+
+/**
+ * The set as the minimal list of CIDR blocks, in address order
+ *
+ * @remarks
+ * Each range is split greedily into the largest aligned block that fits,
+ * which is optimal because the ranges in a set never touch.
+ */
+export function cidrSetToCidrs(set: CidrSet): string[] {
+  return set.ranges.flatMap(rangeToCidrs);
+}
+
+/**
+ * Split an arbitrary IPv4 address range into the fewest CIDR blocks
+ *
+ * @param start - First address of the range
+ * @param end - Last address of the range
+ * @returns Blocks in address order that cover exactly start..end
+ *
+ * @throws Error if either address is invalid or the range ends before it starts
+ *
+ * @example
+ * ```typescript
+ * rangeToSubnets('10.1.2.5', '10.1.3.77').map((s) => `${s.networkAddress}/${s.cidr}`)
+ * // ['10.1.2.5/32', '10.1.2.6/31', '10.1.2.8/29', '10.1.2.16/28', '10.1.2.32/27',
+ * //  '10.1.2.64/26', '10.1.2.128/25', '10.1.3.0/26', '10.1.3.64/29', '10.1.3.72/30', '10.1.3.76/31']
+ * ```
+ */
+export function rangeToSubnets(start: string, end: string): SubnetInfo[] {
+  return cidrSetToCidrs(createCidrSet([`${start}-${end}`])).map(calculateSubnetFromCidr);
+}
@@ -0,0 +1,210 @@
+import type { ConfigOptions, ConfigTarget, ConfigTemplate } from '../types/deviceConfig';
+import type { SubnetInfo } from '../types/subnet';
+import type { SubnetTree } from '../types/subnetTree';
+import { calculateSubnetFromCidr } from './subnetCalculations';
+import { searchPlannerTree } from './treeSearch';
+
+const DEFAULT_LIST_NAME = 'SUBNETS';
+
+const DEFAULT_INTERFACES: Record<ConfigTemplate, string> = {
+  'cisco-ios': 'GigabitEthernet0/0',
+  'cisco-acl': 'GigabitEthernet0/0',
+  junos: 'ge-0/0/0',
+  iptables: 'eth0',
+  nftables: 'eth0',
+  'linux-ip': 'eth0'
+};
+
+function cidrOf(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+// Comment text for a target: its CIDR, name and usable range
+function describe(target: ConfigTarget): string {
+  const { subnet } = target;
+  const name = target.name ? ` ${target.name}` : '';
+  const usable = subnet.usableHosts > 0 ? `usable ${subnet.firstUsable} - ${subnet.lastUsable}` : 'no usable addresses';
+  return `${cidrOf(subnet)}${name} (${usable})`;
+}
+
+// Interfaces take the first usable address, or the network address when the profile leaves none
+function interfaceAddress(subnet: SubnetInfo): string {
+  return subnet.firstUsable || subnet.networkAddress;
+}
+
+// Names go into device configs, so keep them to characters every target accepts
+function sanitizeName(name: string): string {
+  return name.trim().replace(/[^A-Za-z0-9_.-]+/g, '-') || DEFAULT_LIST_NAME;
+}
+
+function subinterface(parent: string, target: ConfigTarget): string {
+  return target.vlanId === undefined ? parent : `${parent}.${target.vlanId}`;
+}
+
+function renderCiscoInterfaces(targets: ConfigTarget[], parent: string): string[] {
+  return targets.flatMap((target) => {
+    const { subnet } = target;
+    const lines = [`! ${describe(target)}`, `interface ${subinterface(parent, target)}`];
+    if (target.name) lines.push(` description ${target.name}`);
+    if (target.vlanId !== undefined) lines.push(` encapsulation dot1Q ${target.vlanId}`);
+    lines.push(subnet.version === 4
+      ? ` ip address ${interfaceAddress(subnet)} ${subnet.subnetMask}`
+      : ` ipv6 address ${interfaceAddress(subnet)}/${subnet.cidr}`);
+    lines.push(' no shutdown', '!');
+    return lines;
+  });
+}
+
+function renderCiscoAcl(targets: ConfigTarget[], listName: string): string[] {
+  const lines: string[] = [];
+  const v4 = targets.filter((target) => target.subnet.version === 4);
+  const v6 = targets.filter((target) => target.subnet.version === 6);
+
+  if (v4.length > 0) {
+    lines.push('! IPv4 ACL: source matched with the wildcard mask', `ip access-list extended ${listName}`);
+    for (const target of v4) {
+      lines.push(` remark ${describe(target)}`);
+      lines.push(` permit ip ${target.subnet.networkAddress} ${target.subnet.wildcardMask} any`);
+    }
+    lines.push('!');
+  }
+  if (v6.length > 0) {
+    lines.push('! IPv6 ACLs match on prefix length', `ipv6 access-list ${listName}-V6`);
+    for (const target of v6) {
+      lines.push(` remark ${describe(target)}`);
+      lines.push(` permit ipv6 ${cidrOf(target.subnet)} any`);
+    }
+    lines.push('!');
+  }
+  return lines;
+}
+
+function renderJunos(targets: ConfigTarget[], listName: string): string[] {
+  return [
+    `# Prefix-list ${listName}`,
+    ...targets.flatMap((target) => [
+      `# ${describe(target)}`,
+      `set policy-options prefix-list ${listName} ${cidrOf(target.subnet)}`
+    ])
+  ];
+}
+
+function renderIptables(targets: ConfigTarget[], listName: string, parent: string): string[] {
+  const commands = (['iptables', 'ip6tables'] as const).filter((command) =>
+    targets.some((target) => (target.subnet.version === 4) === (command === 'iptables'))
+  );
+  const lines = [
+    `# Chain ${listName}, jumped to from FORWARD for traffic arriving on ${parent}`,
+    ...commands.map((command) => `${command} -N ${listName}`)
+  ];
+  for (const target of targets) {
+    const command = target.subnet.version === 4 ? 'iptables' : 'ip6tables';
+    const comment = target.name ? ` -m comment --comment "${target.name.replace(/"/g, '')}"` : '';
+    lines.push(`# ${describe(target)}`);
+    lines.push(`${command} -A ${listName} -s ${cidrOf(target.subnet)}${comment} -j ACCEPT`);
+  }
+  lines.push('# Hook the chain into FORWARD', ...commands.map((command) => `${command} -A FORWARD -i ${parent} -j ${listName}`));
+  return lines;
+}
+
+function renderNftables(targets: ConfigTarget[], listName: string): string[] {
+  const lines = ['# Interval sets in the inet filter table; reference them with ip saddr @name'];
+  for (const version of [4, 6] as const) {
+    const members = targets.filter((target) => target.subnet.version === version);
+    if (members.length === 0) continue;
+
+    const setName = version === 4 ? listName : `${listName}_v6`;
+    const type = version === 4 ? 'ipv4_addr' : 'ipv6_addr';
+    lines.push(`nft add set inet filter ${setName} '{ type ${type}; flags interval; }'`);
+    for (const target of members) {
+      lines.push(`# ${describe(target)}`);
+      lines.push(`nft add element inet filter ${setName} '{ ${cidrOf(target.subnet)} }'`);
+    }
+  }
+  return lines;
+}
+
+function renderLinuxIp(targets: ConfigTarget[], parent: string): string[] {
+  const lines: string[] = [];
+  const vlans = new Set<number>();
+
+  for (const target of targets) {
+    if (target.vlanId !== undefined && !vlans.has(target.vlanId)) {
+      vlans.add(target.vlanId);
+      lines.push(
+        `# VLAN ${target.vlanId} on ${parent}`,
+        `ip link add link ${parent} name ${subinterface(parent, target)} type vlan id ${target.vlanId}`,
+        `ip link set ${subinterface(parent, target)} up`
+      );
+    }
+  }
+
+  for (const target of targets) {
+    const { subnet } = target;
+    const family = subnet.version === 6 ? ' -6' : '';
+    const device = subinterface(parent, target);
+    lines.push(`# ${describe(target)}`);
+    lines.push(`ip${family} addr add ${interfaceAddress(subnet)}/${subnet.cidr} dev ${device}`);
+    // The kernel adds the connected route with the address; spelled out for static setups
+    lines.push(`ip${family} route replace ${cidrOf(subnet)} dev ${device}`);
+  }
+  return lines;
+}
+
+/**
+ * Render subnets as device configuration
+ *
+ * @param targets - Subnets to configure, with optional names and VLAN ids
+ * @param template - Config dialect to produce
+ * @param options - List name for ACLs, prefix-lists, chains and sets, and the parent interface
+ * @returns Config text with a comment above each subnet
+ *
+ * @remarks
+ * Interface templates assign the first usable address of each subnet.
+ * Targets with a VLAN id become subinterfaces of the parent interface.
+ *
+ * @example
+ * ```typescript
+ * generateDeviceConfig([{ subnet: calculateSubnetFromCidr('10.0.0.0/24') }], 'cisco-acl')
+ * // '! IPv4 ACL: ...\nip access-list extended SUBNETS\n remark ...\n permit ip 10.0.0.0 0.0.0.255 any\n!'
+ * ```
+ */
+export function generateDeviceConfig(
+  targets: ConfigTarget[],
+  template: ConfigTemplate,
+  options: ConfigOptions = {}
+): string {
+  const listName = sanitizeName(options.listName ?? DEFAULT_LIST_NAME);
+  const parent = options.interfaceName?.trim() || DEFAULT_INTERFACES[template];
+
+  switch (template) {
+    case 'cisco-ios':
+      return renderCiscoInterfaces(targets, parent).join('\n');
+    case 'cisco-acl':
+      return renderCiscoAcl(targets, listName).join('\n');
+    case 'junos':
+      return renderJunos(targets, listName).join('\n');
+    case 'iptables':
+      return renderIptables(targets, listName, parent).join('\n');
+    case 'nftables':
+      return renderNftables(targets, listName).join('\n');
+    case 'linux-ip':
+      return renderLinuxIp(targets, parent).join('\n');
+  }
+}
+
+export function subnetsToConfigTargets(subnets: SubnetInfo[]): ConfigTarget[] {
+  return subnets.map((subnet) => ({ subnet }));
+}
+
+// Topmost IN_USE planner nodes, named and tagged with a VLAN from their metadata
+export function planToConfigTargets(tree: SubnetTree): ConfigTarget[] {
+  return searchPlannerTree(tree, 'IN_USE').nodeIds.map((nodeId) => {
+    const metadata = tree.nodes[nodeId]?.metadata;
+    return {
+      subnet: calculateSubnetFromCidr(nodeId),
+      name: metadata?.name,
+      vlanId: metadata?.vlanId
+    };
+  });
+}
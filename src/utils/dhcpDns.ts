@@ -0,0 +1,316 @@
+import type {
+  DhcpFormat,
+  DhcpScope,
+  DhcpScopeOptions,
+  ReverseZone,
+  ReverseZoneFormat,
+  ReverseZoneOptions,
+  ServiceTarget
+} from '../types/dhcpDns';
+import type { SubnetInfo } from '../types/subnet';
+import { calculateSubnetFromCidr, intToIP, ipToInt, validateIPAddress } from './subnetCalculations';
+import { expandIPv6 } from './ipv6Calculations';
+import { createCidrSet, subtractCidrSets } from './cidrSet';
+
+const DEFAULT_LEASE_TIME = 86400;
+const DEFAULT_NAME_SERVERS = ['ns1.example.com.'];
+const DEFAULT_HOSTMASTER = 'hostmaster.example.com.';
+const DEFAULT_TTL = 3600;
+
+// Planner nodes carry a network and prefix instead of a full SubnetInfo
+function resolveTarget(target: ServiceTarget): { subnet: SubnetInfo; name?: string } {
+  if ('networkAddress' in target) return { subnet: target };
+  return { subnet: calculateSubnetFromCidr(target.id), name: target.metadata?.name };
+}
+
+function cidrOf(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+function heading(subnet: SubnetInfo, name?: string): string {
+  return name ? `${cidrOf(subnet)} ${name}` : cidrOf(subnet);
+}
+
+function usableRange(subnet: SubnetInfo): string {
+  return subnet.usableHosts > 0 ? `usable ${subnet.firstUsable} - ${subnet.lastUsable}` : 'no usable addresses';
+}
+
+/**
+ * Work out the router and address pools for a DHCP scope
+ *
+ * @param target - IPv4 subnet or planner node
+ * @param options - Router address and exclusions
+ * @returns Pools covering the usable range minus the router and exclusions
+ *
+ * @throws Error for IPv6 subnets, a router outside the subnet, or malformed exclusions
+ *
+ * @example
+ * ```typescript
+ * getDhcpScope(calculateSubnetFromCidr('10.0.0.0/24'), { exclusions: ['10.0.0.2-10.0.0.9'] })
+ * // { cidr: '10.0.0.0/24', router: '10.0.0.1', pools: [{ start: '10.0.0.10', end: '10.0.0.254' }] }
+ * ```
+ */
+export function getDhcpScope(target: ServiceTarget, options: DhcpScopeOptions = {}): DhcpScope {
+  const { subnet } = resolveTarget(target);
+  if (subnet.version !== 4) {
+    throw new Error('DHCP scopes are generated for IPv4 subnets only');
+  }
+
+  const router = options.router?.trim() || subnet.firstUsable || subnet.networkAddress;
+  const validation = validateIPAddress(router);
+  if (!validation.isValid) {
+    throw new Error(`Invalid router address "${router}": ${validation.error}`);
+  }
+  const network = ipToInt(subnet.networkAddress);
+  const broadcast = ipToInt(subnet.broadcastAddress);
+  if (ipToInt(router) < network || ipToInt(router) > broadcast) {
+    throw new Error(`Router ${router} is outside ${cidrOf(subnet)}`);
+  }
+
+  // The reservation profile can leave nothing to hand out
+  if (subnet.usableHosts === 0) return { cidr: cidrOf(subnet), router, pools: [] };
+  const first = ipToInt(subnet.firstUsable);
+  const last = ipToInt(subnet.lastUsable);
+
+  const excluded = createCidrSet([router, ...(options.exclusions ?? []).filter((entry) => entry.trim())]);
+  const { ranges } = subtractCidrSets(createCidrSet([{ start: first, end: last }]), excluded);
+  return {
+    cidr: cidrOf(subnet),
+    router,
+    pools: ranges.map((range) => ({ start: intToIP(range.start), end: intToIP(range.end) }))
+  };
+}
+
+function renderKea(scope: DhcpScope, subnet: SubnetInfo, name: string | undefined, options: DhcpScopeOptions): string {
+  const optionData = [{ name: 'routers', data: scope.router }];
+  if (options.dnsServers?.length) optionData.push({ name: 'domain-name-servers', data: options.dnsServers.join(', ') });
+  if (options.domainName) optionData.push({ name: 'domain-name', data: options.domainName });
+
+  // Kea keeps "comment" in the subnet's user context
+  const entry = {
+    comment: `${heading(subnet, name)}: ${usableRange(subnet)}, router ${scope.router}`,
+    id: options.subnetId ?? 1,
+    subnet: scope.cidr,
+    pools: scope.pools.map((pool) => ({ pool: `${pool.start} - ${pool.end}` })),
+    'option-data': optionData,
+    'valid-lifetime': options.leaseTime ?? DEFAULT_LEASE_TIME
+  };
+  return [
+    '// Entry for the "subnet4" list in the Dhcp4 section of kea-dhcp4.conf',
+    JSON.stringify(entry, null, 2)
+  ].join('\n');
+}
+
+function renderDhcpd(scope: DhcpScope, subnet: SubnetInfo, name: string | undefined, options: DhcpScopeOptions): string {
+  const lines = [
+    `# ${heading(subnet, name)}: ${usableRange(subnet)}`,
+    `subnet ${subnet.networkAddress} netmask ${subnet.subnetMask} {`
+  ];
+  if (scope.pools.length === 0) {
+    lines.push('  # No addresses left to lease after the router and exclusions');
+  }
+  for (const pool of scope.pools) {
+    lines.push(`  range ${pool.start} ${pool.end};`);
+  }
+  lines.push(`  option routers ${scope.router};`);
+  lines.push(`  option broadcast-address ${subnet.broadcastAddress};`);
+  if (options.dnsServers?.length) lines.push(`  option domain-name-servers ${options.dnsServers.join(', ')};`);
+  if (options.domainName) lines.push(`  option domain-name "${options.domainName}";`);
+  lines.push(`  default-lease-time ${options.leaseTime ?? DEFAULT_LEASE_TIME};`);
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render a DHCP scope for ISC Kea (JSON) or ISC dhcpd
+ *
+ * @param target - IPv4 subnet or planner node
+ * @param format - `kea` or `dhcpd`
+ * @param options - Router, exclusions, DNS servers, domain name and lease time
+ * @returns Scope config with a comment naming the subnet and its usable range
+ *
+ * @throws Error for the same inputs as {@link getDhcpScope}
+ */
+export function generateDhcpScope(target: ServiceTarget, format: DhcpFormat, options: DhcpScopeOptions = {}): string {
+  const { subnet, name } = resolveTarget(target);
+  const scope = getDhcpScope(subnet, options);
+  return format === 'kea'
+    ? renderKea(scope, subnet, name, options)
+    : renderDhcpd(scope, subnet, name, options);
+}
+
+function ipv4ReverseZones(subnet: SubnetInfo): ReverseZone[] {
+  const octets = subnet.networkAddress.split('.').map(Number);
+
+  if (subnet.cidr > 24) {
+    // RFC 2317: the block gets its own zone below the /24, named <first octet>/<prefix>
+    const parentZone = `${octets[2]}.${octets[1]}.${octets[0]}.in-addr.arpa`;
+    const label = `${octets[3]}/${subnet.cidr}`;
+    return [{
+      name: `${label}.${parentZone}`,
+      delegation: {
+        parentZone,
+        label,
+        firstOctet: octets[3],
+        lastOctet: Number(subnet.broadcastAddress.split('.')[3])
+      }
+    }];
+  }
+
+  // Zones sit on octet boundaries, so a prefix between them spans several
+  const boundary = Math.max(8, Math.ceil(subnet.cidr / 8) * 8);
+  const count = 2 ** (boundary - subnet.cidr);
+  const step = 2 ** (32 - boundary);
+  const start = ipToInt(subnet.networkAddress);
+
+  return Array.from({ length: count }, (_, i) => {
+    const zoneOctets = intToIP(start + i * step).split('.').slice(0, boundary / 8);
+    return { name: `${zoneOctets.reverse().join('.')}.in-addr.arpa` };
+  });
+}
+
+function ipv6ReverseZones(subnet: SubnetInfo): ReverseZone[] {
+  const nibbles = expandIPv6(subnet.networkAddress).replace(/:/g, '').split('');
+  const boundary = Math.max(4, Math.ceil(subnet.cidr / 4) * 4);
+  const fixed = Math.floor(subnet.cidr / 4);
+  const spread = boundary / 4 - fixed;
+  // Nibble zones: a prefix off a 4-bit boundary spans 2-8 zones
+  const count = 2 ** (boundary - subnet.cidr);
+  const base = spread > 0 ? parseInt(nibbles[fixed], 16) : 0;
+
+  return Array.from({ length: count }, (_, i) => {
+    const zoneNibbles = nibbles.slice(0, boundary / 4);
+    if (spread > 0) zoneNibbles[fixed] = (base + i).toString(16);
+    return { name: `${zoneNibbles.reverse().join('.')}.ip6.arpa` };
+  });
+}
+
+/**
+ * Reverse DNS zones covering a subnet
+ *
+ * @param target - IPv4 or IPv6 subnet, or a planner node
+ * @returns in-addr.arpa or ip6.arpa zones in address order
+ *
+ * @remarks
+ * IPv4 zones sit on octet boundaries and IPv6 zones on nibble boundaries,
+ * so a /23 needs two /24 zones. Subnets smaller than a /24 get an RFC 2317
+ * classless zone that the /24 zone delegates to.
+ *
+ * @example
+ * ```typescript
+ * getReverseZones(calculateSubnetFromCidr('10.1.2.0/23'))
+ * // [{ name: '2.1.10.in-addr.arpa' }, { name: '3.1.10.in-addr.arpa' }]
+ * getReverseZones(calculateSubnetFromCidr('192.0.2.64/26'))[0].name
+ * // '64/26.2.0.192.in-addr.arpa'
+ * ```
+ */
+export function getReverseZones(target: ServiceTarget): ReverseZone[] {
+  const { subnet } = resolveTarget(target);
+  return subnet.version === 4 ? ipv4ReverseZones(subnet) : ipv6ReverseZones(subnet);
+}
+
+// Owner name of an address relative to the zone, or null when it is outside it
+function relativePtrName(address: string, subnet: SubnetInfo, zone: ReverseZone): string | null {
+  if (!address) return null;
+  if (zone.delegation) {
+    const value = ipToInt(address);
+    const inBlock = value >= ipToInt(subnet.networkAddress) && value <= ipToInt(subnet.broadcastAddress);
+    return inBlock ? address.split('.')[3] : null;
+  }
+
+  const labels = subnet.version === 4
+    ? address.split('.').reverse()
+    : expandIPv6(address).replace(/:/g, '').split('').reverse();
+  const full = `${labels.join('.')}.${subnet.version === 4 ? 'in-addr' : 'ip6'}.arpa`;
+  return full.endsWith(`.${zone.name}`) ? full.slice(0, -(zone.name.length + 1)) : null;
+}
+
+function withoutDot(name: string): string {
+  return name.replace(/\.$/, '');
+}
+
+function withDot(name: string): string {
+  return name.endsWith('.') ? name : `${name}.`;
+}
+
+function renderBindZone(zone: ReverseZone, subnet: SubnetInfo, title: string, options: ReverseZoneOptions): string[] {
+  const nameServers = (options.nameServers?.length ? options.nameServers : DEFAULT_NAME_SERVERS).map(withDot);
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const lines = [
+    `; Reverse zone for ${title}`,
+    `$ORIGIN ${zone.name}.`,
+    `$TTL ${ttl}`,
+    `@ IN SOA ${nameServers[0]} ${withDot(options.hostmaster ?? DEFAULT_HOSTMASTER)} (`,
+    `    ${options.serial ?? 1} ; serial`,
+    `    ${ttl} ; refresh`,
+    '    900 ; retry',
+    '    1209600 ; expire',
+    `    ${ttl} ) ; negative caching TTL`,
+    ...nameServers.map((server) => `@ IN NS ${server}`)
+  ];
+
+  const example = relativePtrName(subnet.firstUsable, subnet, zone);
+  if (example) {
+    lines.push('; PTR records go here, for example:', `; ${example} IN PTR host.example.com.`);
+  }
+
+  if (zone.delegation) {
+    const { parentZone, label, firstOctet, lastOctet } = zone.delegation;
+    lines.push(
+      '',
+      `; RFC 2317 delegation: add to the ${parentZone} zone`,
+      ...nameServers.map((server) => `${label} IN NS ${server}`),
+      `$GENERATE ${firstOctet}-${lastOctet} $ IN CNAME $.${label}`
+    );
+  }
+  return lines;
+}
+
+function renderPowerDnsZone(zone: ReverseZone, subnet: SubnetInfo, title: string, options: ReverseZoneOptions): string[] {
+  const nameServers = (options.nameServers?.length ? options.nameServers : DEFAULT_NAME_SERVERS).map(withoutDot);
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const lines = [
+    `# Reverse zone for ${title}`,
+    `pdnsutil create-zone ${zone.name} ${nameServers[0]}`,
+    ...nameServers.slice(1).map((server) => `pdnsutil add-record ${zone.name} @ NS ${ttl} ${server}`)
+  ];
+
+  const example = relativePtrName(subnet.firstUsable, subnet, zone);
+  if (example) {
+    lines.push('# PTR records go here, for example:', `# pdnsutil add-record ${zone.name} ${example} PTR ${ttl} host.example.com`);
+  }
+
+  if (zone.delegation) {
+    const { parentZone, label, firstOctet, lastOctet } = zone.delegation;
+    lines.push(
+      `# RFC 2317 delegation from the ${parentZone} zone`,
+      ...nameServers.map((server) => `pdnsutil add-record ${parentZone} ${label} NS ${ttl} ${server}`)
+    );
+    for (let octet = firstOctet; octet <= lastOctet; octet++) {
+      lines.push(`pdnsutil add-record ${parentZone} ${octet} CNAME ${ttl} ${octet}.${zone.name}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render reverse zone stubs for BIND (zone file) or PowerDNS (pdnsutil commands)
+ *
+ * @param target - IPv4 or IPv6 subnet, or a planner node
+ * @param format - `bind` or `powerdns`
+ * @param options - Name servers, hostmaster, TTL and SOA serial
+ * @returns One stub per zone from {@link getReverseZones}, plus the RFC 2317
+ *          NS and CNAME records for the parent zone when the subnet is smaller than a /24
+ */
+export function generateReverseZones(
+  target: ServiceTarget,
+  format: ReverseZoneFormat,
+  options: ReverseZoneOptions = {}
+): string {
+  const { subnet, name } = resolveTarget(target);
+  const title = heading(subnet, name);
+  const render = format === 'bind' ? renderBindZone : renderPowerDnsZone;
+  return getReverseZones(subnet)
+    .map((zone) => render(zone, subnet, title, options).join('\n'))
+    .join('\n\n');
+}
@@ -1,28 +1,46 @@
 import type { SubnetInfo } from '../types/subnet';
+import type { SubnetTree, TreePlanConfig } from '../types/subnetTree';
+import type { ConfigOptions, ConfigTarget, ConfigTemplate } from '../types/deviceConfig';
+import type { TerraformFormat, TerraformOptions } from '../types/terraform';
+import type { SvgImage } from '../types/imageExport';
+import { generateDeviceConfig } from './deviceConfig';
+import { generateTerraform } from './terraformExport';
+import { getReservedAddresses } from './subnetCalculations';
+import { rasterizeSvg } from './imageExport';
 
 export interface ExportData {
   timestamp: string;
   subnets: SubnetInfo[];
 }
 
-export function exportToJSON(subnets: SubnetInfo[]): void {
-  const data: ExportData = {
-    timestamp: new Date().toISOString(),
-    subnets
-  };
-  
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+function downloadFile(content: BlobPart, type: string, baseName: string, extension: string): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `subnet-calculation-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+  link.download = `${baseName}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
 
-export function exportToCSV(subnets: SubnetInfo[]): void {
+function toCSV(rows: string[][]): string {
+  return rows
+    .map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
+
+export function exportToJSON(subnets: SubnetInfo[]): void {
+  const data: ExportData = {
+    timestamp: new Date().toISOString(),
+    subnets
+  };
+  
+  downloadFile(JSON.stringify(data, null, 2), 'application/json', 'subnet-calculation', 'json');
+}
+
+export function subnetsToCSVRows(subnets: SubnetInfo[]): string[][] {
   const headers = [
     'Network Address',
     'CIDR',
@@ -32,43 +50,113 @@ export function exportToCSV(subnets: SubnetInfo[]): void {
     'First Usable',
     'Last Usable',
     'Total Hosts',
-    'Usable Hosts'
+    'Usable Hosts',
+    'Reservation Profile',
+    'Reserved First',
+    'Reserved Last',
+    'Address Class',
+    'Special Purpose',
+    'Globally Routable'
   ];
   
-  const rows = subnets.map(subnet => [
-    subnet.networkAddress,
-    subnet.cidr.toString(),
-    subnet.subnetMask,
-    subnet.wildcardMask,
-    subnet.broadcastAddress,
-    subnet.firstUsable,
-    subnet.lastUsable,
-    subnet.totalHosts.toString(),
-    subnet.usableHosts.toString()
-  ]);
-  
-  const csvContent = [headers, ...rows]
-    .map(row => row.map(field => `"${field}"`).join(','))
-    .join('\n');
-  
-  const blob = new Blob([csvContent], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `subnet-calculation-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.csv`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  const rows = subnets.map(subnet => {
+    // IPv6 subnets have no reservation profile
+    const reserved = subnet.version === 4 ? getReservedAddresses(subnet.cidr, subnet.reservation) : null;
+    const { classification } = subnet;
+    return [
+      subnet.networkAddress,
+      subnet.cidr.toString(),
+      subnet.subnetMask,
+      subnet.wildcardMask,
+      subnet.broadcastAddress,
+      subnet.firstUsable,
+      subnet.lastUsable,
+      subnet.totalHosts.toString(),
+      subnet.usableHosts.toString(),
+      reserved ? subnet.reservation?.id ?? 'classic' : '',
+      reserved ? reserved.reservedFirst.toString() : '',
+      reserved ? reserved.reservedLast.toString() : '',
+      classification?.addressClass ?? '',
+      (classification?.specialPurpose ?? []).map(block => block.name).join('; '),
+      classification ? (classification.globallyRoutable ? 'yes' : 'no') : ''
+    ];
+  });
+
+  return [headers, ...rows];
+}
+
+export function exportToCSV(subnets: SubnetInfo[]): void {
+  downloadFile(toCSV(subnetsToCSVRows(subnets)), 'text/csv', 'subnet-calculation', 'csv');
+}
+
+// Shell-based templates download as scripts, the rest as plain text
+const SHELL_TEMPLATES: ConfigTemplate[] = ['iptables', 'nftables', 'linux-ip'];
+
+export function exportDeviceConfig(targets: ConfigTarget[], template: ConfigTemplate, options: ConfigOptions = {}): void {
+  const extension = SHELL_TEMPLATES.includes(template) ? 'sh' : 'txt';
+  downloadFile(generateDeviceConfig(targets, template, options), 'text/plain', `subnet-${template}`, extension);
+}
+
+export function exportTerraform(targets: ConfigTarget[], format: TerraformFormat, options: TerraformOptions = {}): void {
+  downloadFile(generateTerraform(targets, format, options), 'text/plain', `subnets-${format}`, 'tf');
+}
+
+export function exportPlanToJSON(config: TreePlanConfig): void {
+  downloadFile(JSON.stringify(config, null, 2), 'application/json', 'subnet-plan', 'json');
+}
+
+export function planToCSVRows(tree: SubnetTree): string[][] {
+  const headers = [
+    'Network',
+    'Prefix',
+    'Status',
+    'Name',
+    'Description',
+    'VLAN ID',
+    'Site',
+    'Owner',
+    'Tags',
+    'Attributes'
+  ];
+
+  // Annotated nodes and nodes with an explicit status, in address order
+  const rows = Object.values(tree.nodes)
+    .filter(node => node.metadata || node.explicitStatus)
+    .sort((a, b) => a.start - b.start || a.prefix - b.prefix)
+    .map(node => {
+      const metadata = node.metadata ?? {};
+      return [
+        node.network,
+        node.prefix.toString(),
+        node.effectiveStatus,
+        metadata.name ?? '',
+        metadata.description ?? '',
+        metadata.vlanId?.toString() ?? '',
+        metadata.site ?? '',
+        metadata.owner ?? '',
+        (metadata.tags ?? []).join('; '),
+        Object.entries(metadata.attributes ?? {}).map(([key, value]) => `${key}=${value}`).join('; ')
+      ];
+    });
+
+  return [headers, ...rows];
+}
+
+export function exportPlanToCSV(tree: SubnetTree): void {
+  downloadFile(toCSV(planToCSVRows(tree)), 'text/csv', 'subnet-plan', 'csv');
+}
+
+export function exportToSVG(image: SvgImage, baseName: string): void {
+  downloadFile(image.svg, 'image/svg+xml', baseName, 'svg');
 }
 
-export function exportToPNG(): void {
-  // This would require html2canvas library for full implementation
-  // For now, we'll show an alert with instructions
-  alert('PNG export feature requires html2canvas library. Use browser\'s built-in print-to-PDF functionality as an alternative.');
+// Rejects when the image is too large for a canvas or fails to render
+export async function exportToPNG(image: SvgImage, baseName: string, scale = 2): Promise<void> {
+  const png = await rasterizeSvg(image, scale);
+  downloadFile(png, 'image/png', baseName, 'png');
 }
 
-export function shareSubnetData(subnets: SubnetInfo[]): void {
+export function shareSubnetData(subnets: SubnetInfo[], url: string = window.location.href): void {
   if (navigator.share && subnets.length > 0) {
     const summary = subnets.length === 1 
       ? `Subnet: ${subnets[0].networkAddress}/${subnets[0].cidr} (${subnets[0].usableHosts} usable hosts)`
@@ -77,12 +165,12 @@ export function shareSubnetData(subnets: SubnetInfo[]): void {
     const data = {
       title: 'Subnet Calculator Results',
       text: summary,
-      url: window.location.href
+      url
     };
     
     navigator.share(data).catch(err => {
       console.error('Error sharing:', err);
-      copyToClipboard(summary);
+      copyToClipboard(`${summary}\n${url}`);
     });
   } else {
     // Fallback for browsers without Web Share API
@@ -90,9 +178,9 @@ export function shareSubnetData(subnets: SubnetInfo[]): void {
       ? `Subnet Calculator Results:\n${subnets.map(s => 
           `${s.networkAddress}/${s.cidr} - ${s.usableHosts} usable hosts`
         ).join('\n')}`
-      : 'No subnet data to share';
+      : 'Subnet Calculator link:';
     
-    copyToClipboard(summary);
+    copyToClipboard(`${summary}\n\n${url}`);
   }
 }
 
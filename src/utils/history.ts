@@ -0,0 +1,86 @@
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  state: T;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+// Oldest entries are dropped once the undo stack reaches this size
+export const MAX_HISTORY_ENTRIES = 100;
+
+export function createHistory<T>(state: T, label = 'Initial state'): HistoryState<T> {
+  return {
+    past: [],
+    present: { id: 0, label, state },
+    future: []
+  };
+}
+
+/**
+ * Record a new state as an undoable command. Pushing clears the redo
+ * stack; pushing the identical state object is a no-op. With `coalesce`,
+ * a push carrying the same label as the current entry updates it in place
+ * so a run of edits (e.g. typing) undoes as one step.
+ */
+export function pushHistory<T>(
+  history: HistoryState<T>,
+  state: T,
+  label: string,
+  coalesce = false
+): HistoryState<T> {
+  if (state === history.present.state) return history;
+
+  if (coalesce && history.past.length > 0 && history.present.label === label) {
+    return { ...history, present: { ...history.present, state }, future: [] };
+  }
+
+  const past = [...history.past, history.present].slice(-MAX_HISTORY_ENTRIES);
+  return {
+    past,
+    present: { id: history.present.id + 1, label, state },
+    future: []
+  };
+}
+
+export function undoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.past.length === 0) return history;
+
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future]
+  };
+}
+
+export function redoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.future.length === 0) return history;
+
+  const [next, ...future] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future
+  };
+}
+
+/**
+ * Move directly to any entry in the history, undoing or redoing every
+ * command in between.
+ */
+export function jumpToHistory<T>(history: HistoryState<T>, entryId: number): HistoryState<T> {
+  const entries = [...history.past, history.present, ...history.future];
+  const index = entries.findIndex((entry) => entry.id === entryId);
+  if (index === -1) return history;
+
+  return {
+    past: entries.slice(0, index),
+    present: entries[index],
+    future: entries.slice(index + 1)
+  };
+}
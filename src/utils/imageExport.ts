@@ -0,0 +1,287 @@
+import type { ImageOptions, ImageThemeColors, SubnetImageOptions, SvgImage } from '../types/imageExport';
+import type { SubnetInfo } from '../types/subnet';
+import type { EffectiveStatus, FlatTreeRow } from '../types/subnetTree';
+import { imageThemes } from '../config/imageThemes';
+import { compareSubnets } from './subnetCalculations';
+
+const DEFAULT_WIDTH = 960;
+const PADDING = 24;
+const HEADER_HEIGHT = 52;
+const BAR_HEIGHT = 28;
+const BLOCK_HEIGHT = 44;
+const TREE_ROW_HEIGHT = 36;
+const ROW_GAP = 8;
+const INDENT_WIDTH = 20;
+const LEGEND_HEIGHT = 28;
+// Largest canvas side most browsers will encode
+const MAX_CANVAS_SIDE = 16384;
+
+const MONO_FONT = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+const SANS_FONT = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+// Monospace glyphs are 0.6em wide, which lets labels be placed without measuring text
+const MONO_CHAR_WIDTH = 0.6;
+
+const STATUS_ORDER: EffectiveStatus[] = ['IN_USE', 'FREE', 'RESERVED', 'UNAVAILABLE', 'PARTIAL'];
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// One decimal keeps the markup small without visible rounding
+function num(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function rect(x: number, y: number, width: number, height: number, fill: string, stroke?: string, radius = 6): string {
+  const outline = stroke ? ` stroke="${stroke}" stroke-width="1.5"` : '';
+  return `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" rx="${radius}" fill="${fill}"${outline}/>`;
+}
+
+interface TextStyle {
+  size: number;
+  fill: string;
+  mono?: boolean;
+  bold?: boolean;
+  anchor?: 'start' | 'end';
+}
+
+function text(x: number, y: number, content: string, style: TextStyle): string {
+  const attributes = [
+    `x="${num(x)}"`,
+    `y="${num(y)}"`,
+    `font-family="${style.mono ? MONO_FONT : SANS_FONT}"`,
+    `font-size="${style.size}"`,
+    `fill="${style.fill}"`,
+    ...(style.bold ? ['font-weight="600"'] : []),
+    ...(style.anchor === 'end' ? ['text-anchor="end"'] : [])
+  ];
+  return `<text ${attributes.join(' ')}>${escapeXml(content)}</text>`;
+}
+
+// Cut text to the characters that fit in `width`, using the monospace width as an upper bound
+function fitText(content: string, width: number, size: number): string {
+  const maxChars = Math.floor(width / (size * MONO_CHAR_WIDTH));
+  if (content.length <= maxChars) return content;
+  return maxChars > 1 ? `${content.slice(0, maxChars - 1)}…` : '';
+}
+
+function header(title: string, subtitle: string, colors: ImageThemeColors): string[] {
+  return [
+    text(PADDING, PADDING + 18, title, { size: 16, fill: colors.text, bold: true }),
+    text(PADDING, PADDING + 38, subtitle, { size: 12, fill: colors.mutedText })
+  ];
+}
+
+function svgDocument(width: number, height: number, colors: ImageThemeColors, title: string, body: string[]): SvgImage {
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${num(height)}" viewBox="0 0 ${width} ${num(height)}" role="img">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<rect width="100%" height="100%" fill="${colors.background}"/>`,
+    ...body,
+    '</svg>'
+  ].join('\n');
+  return { svg, width, height: Math.ceil(height) };
+}
+
+function subnetKey(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+function blockFill(subnet: SubnetInfo, colors: ImageThemeColors): string {
+  if (subnet.cidr <= 16) return colors.blockFills[0];
+  return subnet.cidr <= 24 ? colors.blockFills[1] : colors.blockFills[2];
+}
+
+// Address-proportional widths with a 4px floor so the smallest blocks stay visible
+function barWidths(subnets: SubnetInfo[], available: number): number[] {
+  const minimum = 4;
+  const total = subnets.reduce((acc, subnet) => acc + subnet.totalHosts, 0);
+  const spare = available - minimum * subnets.length;
+  if (spare <= 0) return subnets.map(() => available / subnets.length);
+  return subnets.map((subnet) => minimum + (spare * subnet.totalHosts) / total);
+}
+
+/**
+ * Render the calculator's subnet blocks as an SVG image
+ *
+ * @param subnets - Subnets to draw, in any order
+ * @param options - Theme, width, title and the subnet to highlight
+ * @returns SVG markup with its pixel size
+ *
+ * @remarks
+ * Mirrors the Subnet Blocks view: one row per subnet in address order, the
+ * bar sized by prefix relative to the largest subnet (never under 20%) and
+ * shaded by prefix length, labelled with the CIDR, usable range, usable
+ * hosts and mask. IPv4 sets also get an address bar on top with each block
+ * sized by its address count.
+ *
+ * @example
+ * ```typescript
+ * const { svg, width, height } = renderSubnetBlocksSvg(subnets, { theme: 'dark' });
+ * ```
+ */
+export function renderSubnetBlocksSvg(subnets: SubnetInfo[], options: SubnetImageOptions = {}): SvgImage {
+  const colors = imageThemes[options.theme ?? 'light'];
+  const width = options.width ?? DEFAULT_WIDTH;
+  const available = width - PADDING * 2;
+  const sorted = [...subnets].sort(compareSubnets);
+  const title = options.title ?? 'Subnet Blocks';
+
+  const usable = sorted.reduce((acc, subnet) => acc + subnet.usableHosts, 0);
+  const body = header(
+    title,
+    `${sorted.length} subnet${sorted.length === 1 ? '' : 's'} • ${usable.toLocaleString()} usable addresses`,
+    colors
+  );
+
+  let y = PADDING + HEADER_HEIGHT;
+  if (sorted.length > 1 && sorted.every((subnet) => subnet.version === 4)) {
+    let x = PADDING;
+    barWidths(sorted, available).forEach((blockWidth, i) => {
+      const selected = subnetKey(sorted[i]) === options.selectedSubnet;
+      body.push(rect(x, y, blockWidth, BAR_HEIGHT, selected ? colors.selectedFill : blockFill(sorted[i], colors), colors.background, 2));
+      x += blockWidth;
+    });
+    y += BAR_HEIGHT + ROW_GAP * 2;
+  }
+
+  const minCidr = Math.min(...sorted.map((subnet) => subnet.cidr));
+  sorted.forEach((subnet) => {
+    const selected = subnetKey(subnet) === options.selectedSubnet;
+    const barWidth = available * Math.max(0.5 ** (subnet.cidr - minCidr), 0.2);
+    const range = subnet.usableHosts > 0 ? `${subnet.firstUsable} - ${subnet.lastUsable}` : 'no usable range';
+    body.push(
+      rect(PADDING, y, available, BLOCK_HEIGHT, colors.track),
+      rect(PADDING, y, barWidth, BLOCK_HEIGHT, selected ? colors.selectedFill : blockFill(subnet, colors), selected ? colors.selectedStroke : colors.blockStroke),
+      text(PADDING + 12, y + 27, subnetKey(subnet), { size: 13, fill: colors.text, mono: true, bold: true }),
+      text(PADDING + available - 12, y + 27, `${range} • ${subnet.usableHosts.toLocaleString()} usable • ${subnet.subnetMask}`, {
+        size: 12,
+        fill: colors.mutedText,
+        anchor: 'end'
+      })
+    );
+    y += BLOCK_HEIGHT + ROW_GAP;
+  });
+
+  return svgDocument(width, y - ROW_GAP + PADDING, colors, title, body);
+}
+
+function partialPattern(colors: ImageThemeColors): string {
+  const { fill } = colors.status.PARTIAL;
+  return [
+    '<defs>',
+    '<pattern id="partial" width="24" height="24" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">',
+    `<rect width="24" height="24" fill="${colors.track}"/>`,
+    `<rect width="12" height="24" fill="${fill}"/>`,
+    '</pattern>',
+    '</defs>'
+  ].join('\n');
+}
+
+/**
+ * Render planner tree rows as an SVG image
+ *
+ * @param rows - Rows to draw, e.g. the visible rows from `flattenTree`
+ * @param options - Theme, width and title
+ * @returns SVG markup with its pixel size
+ *
+ * @remarks
+ * Each node is a bar indented by depth and colored by its effective status
+ * (partial nodes are striped), labelled with its CIDR, name, address count
+ * and status. A status legend closes the image.
+ */
+export function renderPlannerTreeSvg(rows: FlatTreeRow[], options: ImageOptions = {}): SvgImage {
+  const colors = imageThemes[options.theme ?? 'light'];
+  const width = options.width ?? DEFAULT_WIDTH;
+  const available = width - PADDING * 2;
+  const title = options.title ?? (rows[0] ? `Plan ${rows[0].node.id}` : 'Plan');
+
+  const body = [
+    partialPattern(colors),
+    ...header(title, `${rows.length} node${rows.length === 1 ? '' : 's'} shown`, colors)
+  ];
+
+  let y = PADDING + HEADER_HEIGHT;
+  rows.forEach(({ node, depth }) => {
+    const status = colors.status[node.effectiveStatus];
+    // Keep deep rows at least a third of the width so their labels fit
+    const x = PADDING + Math.min(depth * INDENT_WIDTH, (available * 2) / 3);
+    const rowWidth = PADDING + available - x;
+    const cidr = `${node.network}/${node.prefix}`;
+    body.push(
+      rect(x, y, rowWidth, TREE_ROW_HEIGHT, node.effectiveStatus === 'PARTIAL' ? 'url(#partial)' : status.fill, status.stroke),
+      text(x + 12, y + 23, cidr, { size: 13, fill: status.text, mono: true, bold: true })
+    );
+    const label = `${node.totalIPs.toLocaleString()} IPs • ${node.effectiveStatus}`;
+    const labelEnd = PADDING + available - 12;
+    // The name sits between the CIDR and the right-aligned label, cut short when it would reach the label
+    const nameX = x + 12 + cidr.length * 13 * MONO_CHAR_WIDTH + 12;
+    const name = fitText(node.metadata?.name ?? '', labelEnd - label.length * 12 * MONO_CHAR_WIDTH - 12 - nameX, 12);
+    if (name) {
+      body.push(text(nameX, y + 23, name, { size: 12, fill: status.text }));
+    }
+    body.push(text(labelEnd, y + 23, label, { size: 12, fill: status.text, anchor: 'end' }));
+    y += TREE_ROW_HEIGHT + ROW_GAP;
+  });
+
+  y += ROW_GAP;
+  let x = PADDING;
+  STATUS_ORDER.forEach((key) => {
+    const status = colors.status[key];
+    body.push(
+      rect(x, y + 4, 14, 14, key === 'PARTIAL' ? 'url(#partial)' : status.fill, status.stroke, 3),
+      text(x + 20, y + 16, key, { size: 11, fill: colors.mutedText, mono: true })
+    );
+    x += 20 + key.length * 11 * MONO_CHAR_WIDTH + 24;
+  });
+
+  return svgDocument(width, y + LEGEND_HEIGHT + PADDING, colors, title, body);
+}
+
+/**
+ * Rasterize an SVG image to PNG
+ *
+ * @param image - Output of one of the SVG renderers
+ * @param scale - Pixel density multiplier, e.g. 2 for high-DPI screens
+ * @returns PNG data
+ *
+ * @throws Error (as a rejection) if the scaled image is larger than a canvas
+ *         can hold, or the browser cannot draw or encode it
+ */
+export function rasterizeSvg(image: SvgImage, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const canvasWidth = Math.round(image.width * scale);
+    const canvasHeight = Math.round(image.height * scale);
+    if (canvasWidth > MAX_CANVAS_SIDE || canvasHeight > MAX_CANVAS_SIDE) {
+      reject(new Error(`Image is too large at ${scale}x (${canvasWidth} x ${canvasHeight} px); try a smaller scale or SVG`));
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas rendering is not available'));
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      context.drawImage(img, 0, 0, canvasWidth, canvasHeight);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not draw the SVG image'));
+    };
+    img.src = url;
+  });
+}
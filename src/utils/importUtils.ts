@@ -0,0 +1,308 @@
+import type { SubnetInfo } from '../types/subnet';
+import type { ImportMode, ImportParseResult, ImportRow } from '../types/import';
+import type { PlanConfigField, TreePlanConfig } from '../types/subnetTree';
+import {
+  calculateSubnet,
+  detectIPVersion,
+  ipToInt,
+  validateCIDR,
+  validateIPAddress
+} from './subnetCalculations';
+import { compressIPv6, ipv6ToBigInt, validateIPv6Address, validateIPv6Prefix } from './ipv6Calculations';
+import { parseCidrRange, validatePlanConfig } from './subnetTree';
+import { checkNodeMetadataShape } from './nodeMetadata';
+
+const CSV_ADDRESS_HEADER = 'Network Address';
+const CSV_PREFIX_HEADER = 'CIDR';
+
+const PLAN_LIST_FIELDS = ['assignedCidrs', 'inUseCidrs', 'reservedCidrs', 'unavailableCidrs'] as const;
+
+// Lists whose entries carry a status; assigned ranges only mark containers
+const PLAN_STATUS_FIELDS = [
+  { field: 'inUseCidrs', label: 'in use' },
+  { field: 'reservedCidrs', label: 'reserved' },
+  { field: 'unavailableCidrs', label: 'unavailable' }
+] as const;
+
+export interface PlanImportReport {
+  config: TreePlanConfig;
+  rows: ImportRow[];
+  errors: string[];
+  isValid: boolean;
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+function subnetRange(subnet: SubnetInfo): { start: bigint; end: bigint } {
+  if (subnet.version === 6) {
+    return { start: ipv6ToBigInt(subnet.networkAddress), end: ipv6ToBigInt(subnet.broadcastAddress) };
+  }
+  return { start: BigInt(ipToInt(subnet.networkAddress)), end: BigInt(ipToInt(subnet.broadcastAddress)) };
+}
+
+function subnetsOverlap(a: SubnetInfo, b: SubnetInfo): boolean {
+  if (a.version !== b.version) return false;
+  const rangeA = subnetRange(a);
+  const rangeB = subnetRange(b);
+  return rangeA.start <= rangeB.end && rangeB.start <= rangeA.end;
+}
+
+function subnetLabel(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+/**
+ * Validate one network/prefix pair from an import source
+ *
+ * @returns The calculated subnet when valid, plus any row errors
+ * (bad IP, bad prefix, or a network address that is not on a boundary)
+ */
+function checkSubnetEntry(address: string, prefixText: string): Pick<ImportRow, 'subnet' | 'errors'> {
+  if (!address) return { subnet: null, errors: ['Missing network address'] };
+
+  const isIPv6 = detectIPVersion(address) === 6;
+  const ipValidation = isIPv6 ? validateIPv6Address(address) : validateIPAddress(address);
+  if (!ipValidation.isValid) {
+    return { subnet: null, errors: [`Invalid IP: ${ipValidation.error}`] };
+  }
+
+  if (!/^\d+$/.test(prefixText)) {
+    return { subnet: null, errors: [`Invalid prefix "${prefixText}"`] };
+  }
+  const cidr = Number(prefixText);
+  const prefixValidation = isIPv6 ? validateIPv6Prefix(cidr) : validateCIDR(cidr);
+  if (!prefixValidation.isValid) {
+    return { subnet: null, errors: [`Invalid prefix: ${prefixValidation.error}`] };
+  }
+
+  const subnet = calculateSubnet({ ipAddress: address, cidr });
+  const normalized = isIPv6 ? compressIPv6(address) : address;
+  if (subnet.networkAddress !== normalized) {
+    return { subnet: null, errors: [`Not aligned: network is ${subnetLabel(subnet)}`] };
+  }
+
+  return { subnet, errors: [] };
+}
+
+function parseExportJson(data: Record<string, unknown>): ImportParseResult {
+  if (!Array.isArray(data.subnets)) {
+    return { data: null, errors: ['Expected a "subnets" array'] };
+  }
+
+  const rows = data.subnets.map((item, index): ImportRow => {
+    const record = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const address = typeof record.networkAddress === 'string' ? record.networkAddress.trim() : '';
+    const prefixText = record.cidr === undefined ? '' : String(record.cidr);
+    return { row: index + 1, entry: `${address || '?'}/${prefixText || '?'}`, ...checkSubnetEntry(address, prefixText) };
+  });
+
+  return { data: { format: 'json', rows }, errors: [] };
+}
+
+function parseExportCsv(text: string): ImportParseResult {
+  const lines = text.split(/\r?\n/);
+  const header = parseCsvLine(lines[0] ?? '');
+  const addressIndex = header.indexOf(CSV_ADDRESS_HEADER);
+  const prefixIndex = header.indexOf(CSV_PREFIX_HEADER);
+
+  if (addressIndex === -1 || prefixIndex === -1) {
+    return { data: null, errors: [`CSV header must include "${CSV_ADDRESS_HEADER}" and "${CSV_PREFIX_HEADER}" columns`] };
+  }
+
+  const rows: ImportRow[] = [];
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = parseCsvLine(line);
+    const address = fields[addressIndex] ?? '';
+    const prefixText = fields[prefixIndex] ?? '';
+    // Line numbers count the header so they match a spreadsheet view
+    rows.push({ row: index + 2, entry: `${address || '?'}/${prefixText || '?'}`, ...checkSubnetEntry(address, prefixText) });
+  });
+
+  return { data: { format: 'csv', rows }, errors: [] };
+}
+
+function parsePlanJson(data: Record<string, unknown>): ImportParseResult {
+  const errors: string[] = [];
+  if (typeof data.rootCidr !== 'string') errors.push('Plan is missing "rootCidr"');
+  if (typeof data.minPrefix !== 'number') errors.push('Plan is missing a numeric "minPrefix"');
+
+  PLAN_LIST_FIELDS.forEach((field) => {
+    const list = data[field];
+    const required = field === 'assignedCidrs';
+    if (list === undefined && !required) return;
+    if (!Array.isArray(list) || !list.every((cidr) => typeof cidr === 'string')) {
+      errors.push(`Plan "${field}" must be a list of CIDR strings`);
+    }
+  });
+
+  const nodeMetadata = data.nodeMetadata;
+  if (nodeMetadata !== undefined) errors.push(...checkNodeMetadataShape(nodeMetadata));
+
+  if (errors.length > 0) return { data: null, errors };
+
+  const config: TreePlanConfig = {
+    rootCidr: (data.rootCidr as string).trim(),
+    minPrefix: data.minPrefix as number,
+    assignedCidrs: data.assignedCidrs as string[],
+    inUseCidrs: (data.inUseCidrs as string[] | undefined) ?? [],
+    reservedCidrs: (data.reservedCidrs as string[] | undefined) ?? [],
+    unavailableCidrs: (data.unavailableCidrs as string[] | undefined) ?? [],
+    ...(nodeMetadata ? { nodeMetadata: nodeMetadata as TreePlanConfig['nodeMetadata'] } : {})
+  };
+  return { data: { format: 'plan', config }, errors: [] };
+}
+
+/**
+ * Parse an import file: `ExportData` JSON, the CSV written by
+ * `exportToCSV`, or a planner JSON matching `TreePlanConfig`
+ *
+ * @param text - File contents
+ * @returns Parsed rows or plan, or file-level errors when the format is not recognized
+ */
+export function parseImportText(text: string): ImportParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) return { data: null, errors: ['File is empty'] };
+
+  if (!trimmed.startsWith('{')) {
+    return parseExportCsv(trimmed);
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(trimmed);
+  } catch (err) {
+    return { data: null, errors: [`Invalid JSON: ${err instanceof Error ? err.message : 'parse error'}`] };
+  }
+
+  if ('rootCidr' in data) return parsePlanJson(data);
+  if ('subnets' in data) return parseExportJson(data);
+  return { data: null, errors: ['Unrecognized JSON: expected exported subnets or a plan configuration'] };
+}
+
+/**
+ * Flag rows that overlap an earlier row or, when merging, a subnet already
+ * in the session. Overlapping rows are excluded from the import.
+ *
+ * @param rows - Rows from `parseImportText`
+ * @param existing - Current session subnets to check against (merge mode)
+ */
+export function checkSubnetOverlaps(rows: ImportRow[], existing: SubnetInfo[] = []): ImportRow[] {
+  const accepted: ImportRow[] = [];
+
+  return rows.map((row) => {
+    if (!row.subnet) return row;
+    const subnet = row.subnet;
+
+    const errors = [
+      ...existing
+        .filter((current) => subnetsOverlap(current, subnet))
+        .map((current) => `Overlaps ${subnetLabel(current)} in current session`),
+      ...accepted
+        .filter((earlier) => earlier.subnet && subnetsOverlap(earlier.subnet, subnet))
+        .map((earlier) => `Overlaps ${earlier.entry} (row ${earlier.row})`)
+    ];
+
+    if (errors.length > 0) {
+      return { ...row, subnet: null, errors: [...row.errors, ...errors] };
+    }
+    accepted.push(row);
+    return row;
+  });
+}
+
+export function getImportableSubnets(rows: ImportRow[]): SubnetInfo[] {
+  return rows.flatMap((row) => (row.subnet && row.errors.length === 0 ? [row.subnet] : []));
+}
+
+/**
+ * Merge an imported plan into the current one. The current root and
+ * minimum prefix are kept; CIDR lists are unioned and imported node
+ * metadata wins over existing metadata for the same node.
+ */
+export function mergePlanConfigs(current: TreePlanConfig, incoming: TreePlanConfig): TreePlanConfig {
+  const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+  return {
+    ...current,
+    assignedCidrs: union(current.assignedCidrs, incoming.assignedCidrs),
+    inUseCidrs: union(current.inUseCidrs, incoming.inUseCidrs),
+    reservedCidrs: union(current.reservedCidrs, incoming.reservedCidrs),
+    unavailableCidrs: union(current.unavailableCidrs, incoming.unavailableCidrs),
+    nodeMetadata: { ...current.nodeMetadata, ...incoming.nodeMetadata }
+  };
+}
+
+/**
+ * Build the per-row report for a plan import. Each CIDR in the resulting
+ * plan becomes a row carrying its validation errors, plus an overlap error
+ * when ranges in two different status lists intersect.
+ *
+ * @param incoming - Plan parsed from the file
+ * @param current - Plan in the active workspace
+ * @param mode - Replace the current plan or merge lists into it
+ */
+export function validatePlanImport(incoming: TreePlanConfig, current: TreePlanConfig, mode: ImportMode): PlanImportReport {
+  const config = mode === 'merge' ? mergePlanConfigs(current, incoming) : incoming;
+  const validation = validatePlanConfig(config);
+
+  const rows: ImportRow[] = [];
+  const pushRow = (field: PlanConfigField, cidr: string) => {
+    const errors = (validation.errors[field] ?? []).filter((message) => message.startsWith(`${cidr}:`));
+    rows.push({ row: rows.length + 1, entry: cidr, field, subnet: null, errors });
+  };
+
+  pushRow('rootCidr', config.rootCidr);
+  PLAN_LIST_FIELDS.forEach((field) => {
+    (config[field] ?? []).forEach((cidr) => pushRow(field, cidr));
+  });
+
+  // Ranges listed under two different statuses make the plan ambiguous
+  const statusRanges = PLAN_STATUS_FIELDS.flatMap(({ field, label }) =>
+    rows
+      .filter((row) => row.field === field && row.errors.length === 0)
+      .map((row) => ({ row, label, range: parseCidrRange(row.entry) }))
+  );
+  statusRanges.forEach(({ row, range }) => {
+    statusRanges.forEach((other) => {
+      if (other.row.field === row.field) return;
+      if (range.start <= other.range.end && other.range.start <= range.end) {
+        row.errors.push(`Overlaps ${other.row.entry} (${other.label})`);
+      }
+    });
+  });
+
+  const errors = validation.errors.minPrefix ?? [];
+  return {
+    config,
+    rows,
+    errors,
+    isValid: errors.length === 0 && rows.every((row) => row.errors.length === 0)
+  };
+}
@@ -0,0 +1,464 @@
+import type { SubnetInfo, ValidationResult } from '../types/subnet';
+
+const IPV6_BITS = 128;
+const IPV6_MAX = (1n << 128n) - 1n;
+
+/**
+ * Validate IPv6 address format
+ *
+ * @param ip - IPv6 address in full, compressed (`::`) or IPv4-embedded notation
+ * @returns Validation result with success status and error message if invalid
+ *
+ * @remarks
+ * Checks that:
+ * - At most one `::` compression marker is present
+ * - Each group is 1-4 hexadecimal digits
+ * - Exactly 8 groups result after expanding `::`
+ * - An embedded IPv4 tail (e.g. `::ffff:192.0.2.1`) has valid octets
+ *
+ * Zone identifiers (`fe80::1%eth0`) are not accepted.
+ *
+ * @example
+ * ```typescript
+ * validateIPv6Address('2001:db8::1')   // { isValid: true }
+ * validateIPv6Address('2001:db8:::1')  // { isValid: false, error: 'Invalid IPv6 address format' }
+ * validateIPv6Address('2001:db8::g')   // { isValid: false, error: 'IPv6 groups must be 1-4 hex digits' }
+ * ```
+ */
+export function validateIPv6Address(ip: string): ValidationResult {
+  const groups = splitIPv6Groups(ip);
+
+  if (!groups) {
+    return { isValid: false, error: 'Invalid IPv6 address format' };
+  }
+
+  if (groups.some((group) => !/^[0-9a-fA-F]{1,4}$/.test(group))) {
+    return { isValid: false, error: 'IPv6 groups must be 1-4 hex digits' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate IPv6 prefix length
+ *
+ * @param prefix - Prefix length (0-128)
+ * @returns Validation result with success status and error message if invalid
+ *
+ * @example
+ * ```typescript
+ * validateIPv6Prefix(64)   // { isValid: true }
+ * validateIPv6Prefix(129)  // { isValid: false, error: 'Prefix must be between 0-128' }
+ * ```
+ */
+export function validateIPv6Prefix(prefix: number): ValidationResult {
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > IPV6_BITS) {
+    return { isValid: false, error: 'Prefix must be between 0-128' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Split an IPv6 address into eight raw groups, expanding `::` and any
+ * embedded IPv4 tail. Returns null when the overall shape is wrong; group
+ * contents are left for the caller to check.
+ */
+function splitIPv6Groups(ip: string): string[] | null {
+  if (!ip || ip.includes('%')) return null;
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const parseHalf = (half: string): string[] | null => {
+    if (half === '') return [];
+    const parts = half.split(':');
+    const last = parts[parts.length - 1];
+
+    if (last.includes('.')) {
+      const octets = last.split('.');
+      if (octets.length !== 4 || octets.some((octet) => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+        return null;
+      }
+      const [a, b, c, d] = octets.map(Number);
+      parts.splice(parts.length - 1, 1, ((a << 8) | b).toString(16), ((c << 8) | d).toString(16));
+    }
+
+    return parts;
+  };
+
+  const head = parseHalf(halves[0]);
+  const tail = halves.length === 2 ? parseHalf(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  // An embedded IPv4 tail is only allowed at the very end of the address
+  if (halves.length === 2 && halves[0].includes('.')) return null;
+
+  if (halves.length === 1) {
+    return head.length === 8 ? head : null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (missing < 1) return null;
+
+  return [...head, ...Array<string>(missing).fill('0'), ...tail];
+}
+
+/**
+ * Convert IPv6 address to 128-bit unsigned BigInt
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @returns 128-bit unsigned integer representation
+ *
+ * @throws Error if the address is not valid IPv6
+ *
+ * @example
+ * ```typescript
+ * ipv6ToBigInt('::1')          // 1n
+ * ipv6ToBigInt('2001:db8::')   // 42540766411282592856903984951653826560n
+ * ```
+ */
+export function ipv6ToBigInt(ip: string): bigint {
+  const groups = splitIPv6Groups(ip);
+  if (!groups || groups.some((group) => !/^[0-9a-fA-F]{1,4}$/.test(group))) {
+    throw new Error('Invalid IPv6 address format');
+  }
+
+  return groups.reduce((acc, group) => (acc << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+/**
+ * Convert 128-bit unsigned BigInt to compressed IPv6 address
+ *
+ * @param value - Integer between 0 and 2^128 - 1
+ * @returns IPv6 address in RFC 5952 canonical (compressed) form
+ *
+ * @example
+ * ```typescript
+ * bigIntToIPv6(1n)  // '::1'
+ * bigIntToIPv6(0n)  // '::'
+ * ```
+ */
+export function bigIntToIPv6(value: bigint): string {
+  return compressIPv6(bigIntToGroups(value).map((group) => group.toString(16)).join(':'));
+}
+
+function bigIntToGroups(value: bigint): number[] {
+  const normalized = value & IPV6_MAX;
+  const groups: number[] = [];
+  for (let i = 7; i >= 0; i--) {
+    groups.push(Number((normalized >> BigInt(i * 16)) & 0xFFFFn));
+  }
+  return groups;
+}
+
+/**
+ * Expand IPv6 address to full eight-group notation
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @returns Lowercase address with all eight 4-digit groups
+ *
+ * @example
+ * ```typescript
+ * expandIPv6('2001:db8::1')  // '2001:0db8:0000:0000:0000:0000:0000:0001'
+ * expandIPv6('::')           // '0000:0000:0000:0000:0000:0000:0000:0000'
+ * ```
+ */
+export function expandIPv6(ip: string): string {
+  return bigIntToGroups(ipv6ToBigInt(ip))
+    .map((group) => group.toString(16).padStart(4, '0'))
+    .join(':');
+}
+
+/**
+ * Compress IPv6 address to RFC 5952 canonical form
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @returns Lowercase address with leading zeros removed and the longest
+ * run of two or more zero groups replaced by `::`
+ *
+ * @remarks
+ * When two zero runs have equal length the first one is compressed.
+ * A single zero group is never replaced by `::`.
+ *
+ * @example
+ * ```typescript
+ * compressIPv6('2001:0db8:0000:0000:0000:0000:0000:0001')  // '2001:db8::1'
+ * compressIPv6('2001:db8:0:1:0:0:0:1')                     // '2001:db8:0:1::1'
+ * ```
+ */
+export function compressIPv6(ip: string): string {
+  const groups = bigIntToGroups(ipv6ToBigInt(ip));
+
+  let bestStart = -1;
+  let bestLength = 0;
+  let runStart = -1;
+
+  groups.forEach((group, index) => {
+    if (group === 0) {
+      if (runStart === -1) runStart = index;
+      const runLength = index - runStart + 1;
+      if (runLength > bestLength) {
+        bestStart = runStart;
+        bestLength = runLength;
+      }
+    } else {
+      runStart = -1;
+    }
+  });
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestLength < 2) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Convert IPv6 address to binary string representation
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @returns Eight 16-bit binary groups separated by colons
+ */
+export function ipv6ToBinary(ip: string): string {
+  return bigIntToGroups(ipv6ToBigInt(ip))
+    .map((group) => group.toString(2).padStart(16, '0'))
+    .join(':');
+}
+
+function prefixToMaskBigInt(prefix: number): bigint {
+  if (prefix === 0) return 0n;
+  return (IPV6_MAX << BigInt(IPV6_BITS - prefix)) & IPV6_MAX;
+}
+
+/**
+ * Convert IPv6 prefix length to mask
+ *
+ * @param prefix - Prefix length (0-128)
+ * @returns Mask in compressed IPv6 notation
+ *
+ * @example
+ * ```typescript
+ * ipv6PrefixToMask(64)  // 'ffff:ffff:ffff:ffff::'
+ * ipv6PrefixToMask(0)   // '::'
+ * ```
+ */
+export function ipv6PrefixToMask(prefix: number): string {
+  return bigIntToIPv6(prefixToMaskBigInt(prefix));
+}
+
+/**
+ * Convert IPv6 prefix length to host (wildcard) mask
+ *
+ * @param prefix - Prefix length (0-128)
+ * @returns Bitwise inverse of the prefix mask in compressed notation
+ *
+ * @example
+ * ```typescript
+ * ipv6PrefixToWildcard(64)   // '::ffff:ffff:ffff:ffff'
+ * ipv6PrefixToWildcard(128)  // '::'
+ * ```
+ */
+export function ipv6PrefixToWildcard(prefix: number): string {
+  return bigIntToIPv6(~prefixToMaskBigInt(prefix) & IPV6_MAX);
+}
+
+/**
+ * Calculate IPv6 network address (first address of the prefix)
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @param prefix - Prefix length (0-128)
+ * @returns Network address in compressed notation
+ *
+ * @example
+ * ```typescript
+ * getIPv6NetworkAddress('2001:db8:abcd:12::1', 48)  // '2001:db8:abcd::'
+ * ```
+ */
+export function getIPv6NetworkAddress(ip: string, prefix: number): string {
+  return bigIntToIPv6(ipv6ToBigInt(ip) & prefixToMaskBigInt(prefix));
+}
+
+/**
+ * Calculate last IPv6 address in the prefix
+ *
+ * @param ip - IPv6 address in any accepted notation
+ * @param prefix - Prefix length (0-128)
+ * @returns Last address (all host bits set) in compressed notation
+ *
+ * @remarks
+ * IPv6 has no broadcast address; the last address is a regular
+ * unicast address and is usable by hosts.
+ *
+ * @example
+ * ```typescript
+ * getIPv6LastAddress('2001:db8::', 64)  // '2001:db8::ffff:ffff:ffff:ffff'
+ * ```
+ */
+export function getIPv6LastAddress(ip: string, prefix: number): string {
+  const network = ipv6ToBigInt(ip) & prefixToMaskBigInt(prefix);
+  return bigIntToIPv6(network | (~prefixToMaskBigInt(prefix) & IPV6_MAX));
+}
+
+/**
+ * Calculate total addresses in an IPv6 prefix
+ *
+ * @param prefix - Prefix length (0-128)
+ * @returns Exact address count (2^(128-prefix)) as BigInt
+ *
+ * @example
+ * ```typescript
+ * getIPv6TotalAddresses(64)   // 18446744073709551616n
+ * getIPv6TotalAddresses(128)  // 1n
+ * ```
+ */
+export function getIPv6TotalAddresses(prefix: number): bigint {
+  return 1n << BigInt(IPV6_BITS - prefix);
+}
+
+/**
+ * Calculate usable IPv6 host addresses in a prefix
+ *
+ * @param prefix - Prefix length (0-128)
+ * @returns Exact usable address count as BigInt
+ *
+ * @remarks
+ * The first address of every prefix is the Subnet-Router anycast address
+ * (RFC 4291 section 2.6.1) and is excluded. There is no broadcast address.
+ *
+ * Special cases:
+ * - /128 = 1 usable (host route)
+ * - /127 = 2 usable (RFC 6164 point-to-point, no anycast address)
+ *
+ * @example
+ * ```typescript
+ * getIPv6UsableAddresses(64)   // 18446744073709551615n
+ * getIPv6UsableAddresses(127)  // 2n
+ * ```
+ */
+export function getIPv6UsableAddresses(prefix: number): bigint {
+  const total = getIPv6TotalAddresses(prefix);
+  return prefix >= 127 ? total : total - 1n;
+}
+
+/**
+ * Calculate complete subnet information for an IPv6 prefix
+ *
+ * @param ipAddress - IPv6 address in any accepted notation
+ * @param prefix - Prefix length (0-128)
+ * @returns Subnet analysis using the shared SubnetInfo shape
+ *
+ * @remarks
+ * Field mapping for IPv6:
+ * - `broadcastAddress` holds the last address in the prefix
+ * - `subnetMask` / `wildcardMask` are colon-hex masks
+ * - `totalHosts` / `usableHosts` are Numbers and lose precision above 2^53;
+ *   use {@link getIPv6TotalAddresses} for exact counts
+ *
+ * @example
+ * ```typescript
+ * calculateIPv6Subnet('2001:db8::1', 64)
+ * // networkAddress: '2001:db8::', broadcastAddress: '2001:db8::ffff:ffff:ffff:ffff',
+ * // firstUsable: '2001:db8::1', cidr: 64, version: 6, ...
+ * ```
+ */
+export function calculateIPv6Subnet(ipAddress: string, prefix: number): SubnetInfo {
+  const mask = prefixToMaskBigInt(prefix);
+  const networkInt = ipv6ToBigInt(ipAddress) & mask;
+  const lastInt = networkInt | (~mask & IPV6_MAX);
+
+  const networkAddress = bigIntToIPv6(networkInt);
+  const subnetMask = bigIntToIPv6(mask);
+
+  return {
+    version: 6,
+    networkAddress,
+    broadcastAddress: bigIntToIPv6(lastInt),
+    subnetMask,
+    wildcardMask: bigIntToIPv6(~mask & IPV6_MAX),
+    firstUsable: bigIntToIPv6(prefix >= 127 ? networkInt : networkInt + 1n),
+    lastUsable: bigIntToIPv6(lastInt),
+    totalHosts: Number(getIPv6TotalAddresses(prefix)),
+    usableHosts: Number(getIPv6UsableAddresses(prefix)),
+    cidr: prefix,
+    binaryNetwork: ipv6ToBinary(networkAddress),
+    binaryMask: ipv6ToBinary(subnetMask)
+  };
+}
+
+/**
+ * Divide IPv6 prefix into two equal halves
+ *
+ * @param subnet - IPv6 subnet to divide
+ * @returns Tuple of two new subnets with prefix + 1
+ *
+ * @throws Error if attempting to divide a /128
+ *
+ * @example
+ * ```typescript
+ * const [low, high] = divideIPv6Subnet(calculateIPv6Subnet('2001:db8::', 32));
+ * // low:  2001:db8::/33
+ * // high: 2001:db8:8000::/33
+ * ```
+ */
+export function divideIPv6Subnet(subnet: SubnetInfo): [SubnetInfo, SubnetInfo] {
+  if (subnet.cidr >= IPV6_BITS) {
+    throw new Error('Cannot divide /128 subnet');
+  }
+
+  const newPrefix = subnet.cidr + 1;
+  const networkInt = ipv6ToBigInt(subnet.networkAddress);
+  const halfSize = getIPv6TotalAddresses(newPrefix);
+
+  return [
+    calculateIPv6Subnet(subnet.networkAddress, newPrefix),
+    calculateIPv6Subnet(bigIntToIPv6(networkInt + halfSize), newPrefix)
+  ];
+}
+
+/**
+ * Check if two IPv6 subnets are buddies that can be joined
+ *
+ * @param subnet1 - First subnet
+ * @param subnet2 - Second subnet
+ * @returns True if both have the same prefix and share the same parent
+ *
+ * @example
+ * ```typescript
+ * canJoinIPv6Subnets(
+ *   calculateIPv6Subnet('2001:db8::', 33),
+ *   calculateIPv6Subnet('2001:db8:8000::', 33)
+ * ) // true
+ * ```
+ */
+export function canJoinIPv6Subnets(subnet1: SubnetInfo, subnet2: SubnetInfo): boolean {
+  if (subnet1.cidr !== subnet2.cidr || subnet1.cidr <= 0) {
+    return false;
+  }
+
+  const network1 = ipv6ToBigInt(subnet1.networkAddress);
+  const network2 = ipv6ToBigInt(subnet2.networkAddress);
+  if (network1 === network2) return false;
+
+  const parentMask = prefixToMaskBigInt(subnet1.cidr - 1);
+  return (network1 & parentMask) === (network2 & parentMask);
+}
+
+/**
+ * Join two IPv6 buddy subnets into their parent prefix
+ *
+ * @param subnet1 - First subnet
+ * @param subnet2 - Second subnet
+ * @returns Parent subnet with prefix - 1
+ *
+ * @throws Error if subnets cannot be joined
+ */
+export function joinIPv6Subnets(subnet1: SubnetInfo, subnet2: SubnetInfo): SubnetInfo {
+  if (!canJoinIPv6Subnets(subnet1, subnet2)) {
+    throw new Error('Subnets cannot be joined');
+  }
+
+  return calculateIPv6Subnet(subnet1.networkAddress, subnet1.cidr - 1);
+}
@@ -0,0 +1,179 @@
+import type {
+  MetadataGroupKey,
+  NodeMetadata,
+  SubnetNode,
+  SubnetTree,
+  TreePlanConfig
+} from '../types/subnetTree';
+import type { StatusTotals } from './subnetTree';
+
+export interface MetadataTotals {
+  value: string;
+  totals: StatusTotals;
+}
+
+interface InheritedMetadata {
+  site?: string;
+  owner?: string;
+  vlan?: string;
+  tags: string[];
+}
+
+export function normalizeMetadata(metadata: NodeMetadata): NodeMetadata | undefined {
+  const normalized: NodeMetadata = {};
+
+  (['name', 'description', 'site', 'owner'] as const).forEach((field) => {
+    const value = metadata[field]?.trim();
+    if (value) normalized[field] = value;
+  });
+
+  if (metadata.vlanId !== undefined && Number.isInteger(metadata.vlanId)) {
+    normalized.vlanId = metadata.vlanId;
+  }
+
+  const tags = Array.from(new Set((metadata.tags ?? []).map((tag) => tag.trim()).filter(Boolean)));
+  if (tags.length > 0) normalized.tags = tags;
+
+  const attributes = Object.entries(metadata.attributes ?? {})
+    .map(([key, value]) => [key.trim(), value.trim()] as const)
+    .filter(([key]) => key);
+  if (attributes.length > 0) normalized.attributes = Object.fromEntries(attributes);
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+function isVlanId(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 4094;
+}
+
+export function validateMetadata(metadata: NodeMetadata): string[] {
+  const errors: string[] = [];
+  if (metadata.vlanId !== undefined && !isVlanId(metadata.vlanId)) {
+    errors.push('VLAN ID must be between 1-4094');
+  }
+  return errors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Shape check for untrusted metadata (plan imports and share links) before it is cast
+export function checkMetadataShape(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['must be an object'];
+
+  const errors: string[] = [];
+  (['name', 'description', 'site', 'owner'] as const).forEach((field) => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') errors.push(`${field} must be a string`);
+  });
+  if (value.vlanId !== undefined && !isVlanId(value.vlanId)) {
+    errors.push('vlanId must be an integer between 1-4094');
+  }
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === 'string'))) {
+    errors.push('tags must be a list of strings');
+  }
+  if (value.attributes !== undefined &&
+    !(isPlainObject(value.attributes) && Object.values(value.attributes).every((item) => typeof item === 'string'))) {
+    errors.push('attributes must map names to strings');
+  }
+  return errors;
+}
+
+export function checkNodeMetadataShape(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['Plan "nodeMetadata" must be an object keyed by CIDR'];
+  return Object.entries(value).flatMap(([cidr, metadata]) =>
+    checkMetadataShape(metadata).map((error) => `Plan "nodeMetadata" for ${cidr}: ${error}`)
+  );
+}
+
+/**
+ * Set or clear the metadata for one node. Metadata lives on the plan so it
+ * survives status edits and tree rebuilds.
+ */
+export function setNodeMetadata(
+  plan: TreePlanConfig,
+  nodeId: string,
+  metadata: NodeMetadata | undefined
+): TreePlanConfig {
+  const normalized = metadata ? normalizeMetadata(metadata) : undefined;
+  const nodeMetadata = { ...plan.nodeMetadata };
+
+  if (normalized) {
+    nodeMetadata[nodeId] = normalized;
+  } else {
+    delete nodeMetadata[nodeId];
+  }
+  return { ...plan, nodeMetadata };
+}
+
+export function metadataMatches(metadata: NodeMetadata | undefined, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!metadata || !needle) return false;
+
+  const haystack = [
+    metadata.name,
+    metadata.description,
+    metadata.site,
+    metadata.owner,
+    metadata.vlanId !== undefined ? `vlan ${metadata.vlanId}` : undefined,
+    ...(metadata.tags ?? []),
+    ...Object.entries(metadata.attributes ?? {}).map(([key, value]) => `${key}=${value}`)
+  ];
+  return haystack.some((value) => value?.toLowerCase().includes(needle));
+}
+
+export function searchNodeMetadata(tree: SubnetTree, query: string): SubnetNode[] {
+  return Object.values(tree.nodes)
+    .filter((node) => metadataMatches(node.metadata, query))
+    .sort((a, b) => a.start - b.start || a.prefix - b.prefix);
+}
+
+function groupValues(group: MetadataGroupKey, inherited: InheritedMetadata): string[] {
+  if (group === 'tag') return inherited.tags;
+  const value = inherited[group];
+  return value ? [value] : [];
+}
+
+/**
+ * Address totals per site, owner, VLAN or tag. Nodes inherit values from
+ * their nearest annotated ancestor; tags accumulate down the tree, so one
+ * address can count toward several tags. Unlabeled space is reported
+ * under an empty value.
+ */
+export function calculateMetadataTotals(tree: SubnetTree, group: MetadataGroupKey): MetadataTotals[] {
+  const byValue: Record<string, StatusTotals> = {};
+  const add = (value: string, node: SubnetNode) => {
+    byValue[value] ??= { total: 0, IN_USE: 0, FREE: 0, RESERVED: 0, UNAVAILABLE: 0 };
+    byValue[value].total += node.totalIPs;
+    if (node.effectiveStatus !== 'PARTIAL') {
+      byValue[value][node.effectiveStatus] += node.totalIPs;
+    }
+  };
+
+  const visit = (nodeId: string, parent: InheritedMetadata) => {
+    const node = tree.nodes[nodeId];
+    if (!node) return;
+
+    const metadata = node.metadata;
+    const inherited: InheritedMetadata = {
+      site: metadata?.site ?? parent.site,
+      owner: metadata?.owner ?? parent.owner,
+      vlan: metadata?.vlanId !== undefined ? String(metadata.vlanId) : parent.vlan,
+      tags: metadata?.tags ? Array.from(new Set([...parent.tags, ...metadata.tags])) : parent.tags
+    };
+
+    if (node.children.length > 0) {
+      node.children.forEach((childId) => visit(childId, inherited));
+      return;
+    }
+
+    const values = groupValues(group, inherited);
+    (values.length > 0 ? values : ['']).forEach((value) => add(value, node));
+  };
+
+  visit(tree.rootId, { tags: [] });
+
+  return Object.entries(byValue)
+    .map(([value, totals]) => ({ value, totals }))
+    .sort((a, b) => (a.value === '' ? 1 : 0) - (b.value === '' ? 1 : 0) || b.totals.total - a.totals.total);
+}
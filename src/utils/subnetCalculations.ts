@@ -1,4 +1,79 @@
-import type { SubnetInfo, SubnetInput, ValidationResult } from '../types/subnet';
+import type {
+  AddressNotation,
+  IPRange,
+  IPVersion,
+  NotationParseResult,
+  PrefixNotation,
+  ReservationProfile,
+  SubnetInfo,
+  SubnetInput,
+  ValidationResult
+} from '../types/subnet';
+import {
+  calculateIPv6Subnet,
+  canJoinIPv6Subnets,
+  divideIPv6Subnet,
+  ipv6ToBigInt,
+  joinIPv6Subnets
+} from './ipv6Calculations';
+import { reservationProfiles } from '../config/reservationProfiles';
+import { classifySubnet } from './addressClassification';
+
+/**
+ * Detect the address family of an IP address string
+ *
+ * @param ip - IPv4 or IPv6 address
+ * @returns 6 if the address contains a colon, otherwise 4
+ *
+ * @remarks
+ * This is a notation check only; use {@link validateIPAddress} or
+ * `validateIPv6Address` to verify the address itself.
+ *
+ * @example
+ * ```typescript
+ * detectIPVersion('192.168.1.1')  // 4
+ * detectIPVersion('2001:db8::1')  // 6
+ * ```
+ */
+export function detectIPVersion(ip: string): IPVersion {
+  return ip.includes(':') ? 6 : 4;
+}
+
+/**
+ * Get the longest prefix length for an address family
+ *
+ * @param version - Address family
+ * @returns 32 for IPv4, 128 for IPv6
+ */
+export function getMaxPrefix(version: IPVersion): number {
+  return version === 6 ? 128 : 32;
+}
+
+/**
+ * Order subnets by address family, network address, then prefix length
+ *
+ * @param a - First subnet
+ * @param b - Second subnet
+ * @returns Negative, zero or positive number suitable for `Array.sort`
+ *
+ * @remarks
+ * IPv4 subnets sort before IPv6 subnets. IPv6 addresses are compared as
+ * 128-bit integers so compressed notation does not affect ordering.
+ */
+export function compareSubnets(a: SubnetInfo, b: SubnetInfo): number {
+  if (a.version !== b.version) {
+    return a.version - b.version;
+  }
+
+  if (a.version === 6) {
+    const aInt = ipv6ToBigInt(a.networkAddress);
+    const bInt = ipv6ToBigInt(b.networkAddress);
+    if (aInt !== bInt) return aInt < bInt ? -1 : 1;
+    return a.cidr - b.cidr;
+  }
+
+  return (ipToInt(a.networkAddress) - ipToInt(b.networkAddress)) || a.cidr - b.cidr;
+}
 
 /**
  * Validate IPv4 address format and octet ranges
@@ -189,6 +264,7 @@ export function cidrToMask(cidr: number): string {
  * ```
  */
 export function cidrToWildcard(cidr: number): string {
+  if (cidr === 0) return '255.255.255.255';
   const wildcard = ~((0xFFFFFFFF << (32 - cidr)) >>> 0) >>> 0;
   return intToIP(wildcard);
 }
@@ -216,6 +292,7 @@ export function cidrToWildcard(cidr: number): string {
  * ```
  */
 export function getNetworkAddress(ip: string, cidr: number): string {
+  if (cidr === 0) return '0.0.0.0';
   const ipInt = ipToInt(ip);
   const mask = (0xFFFFFFFF << (32 - cidr)) >>> 0;
   const networkInt = (ipInt & mask) >>> 0;
@@ -245,6 +322,7 @@ export function getNetworkAddress(ip: string, cidr: number): string {
  * ```
  */
 export function getBroadcastAddress(ip: string, cidr: number): string {
+  if (cidr === 0) return '255.255.255.255';
   const networkInt = ipToInt(getNetworkAddress(ip, cidr));
   const hostBits = 32 - cidr;
   const broadcastInt = (networkInt | ((1 << hostBits) - 1)) >>> 0;
@@ -255,32 +333,36 @@ export function getBroadcastAddress(ip: string, cidr: number): string {
  * Calculate first usable host address
  *
  * @param networkAddress - Network address (first address in subnet)
+ * @param reserved - Addresses held back at the start of the subnet
  * @returns First usable IP address for host assignment
  *
  * @remarks
- * First usable address is network address + 1.
- * Network address itself is reserved for subnet identification.
+ * First usable address is network address + 1 by default.
+ * Network address itself is reserved for subnet identification; cloud
+ * providers hold back more (see {@link getReservedAddresses}).
  *
  * @example
  * ```typescript
  * getFirstUsable('192.168.1.0')    // '192.168.1.1'
  * getFirstUsable('10.5.0.0')       // '10.5.0.1'
  * getFirstUsable('172.16.5.128')   // '172.16.5.129'
+ * getFirstUsable('10.0.0.0', 4)    // '10.0.0.4' (AWS)
  * ```
  */
-export function getFirstUsable(networkAddress: string): string {
+export function getFirstUsable(networkAddress: string, reserved = 1): string {
   const networkInt = ipToInt(networkAddress);
-  return intToIP(networkInt + 1);
+  return intToIP(networkInt + reserved);
 }
 
 /**
  * Calculate last usable host address
  *
  * @param broadcastAddress - Broadcast address (last address in subnet)
+ * @param reserved - Addresses held back at the end of the subnet
  * @returns Last usable IP address for host assignment
  *
  * @remarks
- * Last usable address is broadcast address - 1.
+ * Last usable address is broadcast address - 1 by default.
  * Broadcast address itself is reserved for subnet-wide broadcasts.
  *
  * @example
@@ -288,11 +370,12 @@ export function getFirstUsable(networkAddress: string): string {
  * getLastUsable('192.168.1.255')   // '192.168.1.254'
  * getLastUsable('10.5.255.255')    // '10.5.255.254'
  * getLastUsable('172.16.5.255')    // '172.16.5.254'
+ * getLastUsable('10.0.0.255', 2)   // '10.0.0.253' (GCP)
  * ```
  */
-export function getLastUsable(broadcastAddress: string): string {
+export function getLastUsable(broadcastAddress: string, reserved = 1): string {
   const broadcastInt = ipToInt(broadcastAddress);
-  return intToIP(broadcastInt - 1);
+  return intToIP(broadcastInt - reserved);
 }
 
 /**
@@ -321,40 +404,117 @@ export function getTotalHosts(cidr: number): number {
   return Math.pow(2, 32 - cidr);
 }
 
+/**
+ * Addresses a reservation profile holds back in a subnet of this size
+ *
+ * @param cidr - CIDR prefix length (0-32)
+ * @param profile - Reservation profile, classic by default
+ * @returns Reserved address counts at the start and end of the subnet
+ *
+ * @remarks
+ * The profile's counts apply to every prefix except:
+ * - classic: /31 and /32 reserve nothing (point-to-point and host routes)
+ * - rfc3021: /31 reserves nothing, a /32 keeps both reservations and so
+ *   has no usable address
+ *
+ * @example
+ * ```typescript
+ * getReservedAddresses(24)                            // { reservedFirst: 1, reservedLast: 1 }
+ * getReservedAddresses(31)                            // { reservedFirst: 0, reservedLast: 0 }
+ * getReservedAddresses(24, reservationProfiles.aws)   // { reservedFirst: 4, reservedLast: 1 }
+ * ```
+ */
+export function getReservedAddresses(
+  cidr: number,
+  profile: ReservationProfile = reservationProfiles.classic
+): Pick<ReservationProfile, 'reservedFirst' | 'reservedLast'> {
+  if ((profile.id === 'classic' && cidr >= 31) || (profile.id === 'rfc3021' && cidr === 31)) {
+    return { reservedFirst: 0, reservedLast: 0 };
+  }
+  return { reservedFirst: profile.reservedFirst, reservedLast: profile.reservedLast };
+}
+
 /**
  * Calculate usable host addresses in subnet
  *
  * @param cidr - CIDR prefix length (0-32)
+ * @param profile - Reservation profile, classic by default
  * @returns Number of addresses available for host assignment
  *
  * @remarks
- * Usable hosts = Total - 2 (excludes network and broadcast)
+ * Usable hosts = Total - reserved (network and broadcast for classic)
  *
  * Special cases:
  * - /32 = 1 usable (host route, no network/broadcast)
  * - /31 = 2 usable (RFC 3021 point-to-point, no network/broadcast)
  * - /30 = 2 usable (4 total - network - broadcast)
  *
+ * Subnets too small for the profile's reservations have 0 usable.
+ *
  * @example
  * ```typescript
  * getUsableHosts(24)  // 254 (256 - 2)
  * getUsableHosts(30)  // 2 (4 - 2)
  * getUsableHosts(31)  // 2 (RFC 3021 point-to-point)
  * getUsableHosts(32)  // 1 (host route)
+ * getUsableHosts(24, reservationProfiles.aws)  // 251 (256 - 5)
  * ```
  */
-export function getUsableHosts(cidr: number): number {
-  const total = getTotalHosts(cidr);
-  return cidr === 32 ? 1 : (cidr === 31 ? 2 : total - 2);
+export function getUsableHosts(cidr: number, profile: ReservationProfile = reservationProfiles.classic): number {
+  const { reservedFirst, reservedLast } = getReservedAddresses(cidr, profile);
+  return Math.max(getTotalHosts(cidr) - reservedFirst - reservedLast, 0);
+}
+
+/**
+ * Find the smallest IPv4 prefix that fits a number of hosts
+ *
+ * @param hosts - Required usable host count (at least 1)
+ * @param profile - Reservation profile, classic by default
+ * @returns Longest CIDR prefix whose usable hosts cover the requirement,
+ * or null if no IPv4 block is large enough
+ *
+ * @remarks
+ * Uses {@link getUsableHosts}, so /31 and /32 are chosen for 2 and 1 hosts
+ * under the classic profile.
+ *
+ * @example
+ * ```typescript
+ * getPrefixForHosts(500)  // 23 (510 usable)
+ * getPrefixForHosts(30)   // 27 (30 usable)
+ * getPrefixForHosts(2)    // 31 (RFC 3021 point-to-point)
+ * getPrefixForHosts(30, reservationProfiles.aws)  // 26 (59 usable)
+ * ```
+ */
+export function getPrefixForHosts(hosts: number, profile: ReservationProfile = reservationProfiles.classic): number | null {
+  for (let cidr = 32; cidr >= 0; cidr--) {
+    if (getUsableHosts(cidr, profile) >= hosts) {
+      return cidr;
+    }
+  }
+  return null;
+}
+
+function withClassification(subnet: SubnetInfo): SubnetInfo {
+  return { ...subnet, classification: classifySubnet(subnet) };
 }
 
 /**
  * Calculate complete subnet information from IP and CIDR
  *
- * @param input - IP address and CIDR prefix
+ * @param input - IP address, CIDR prefix and optional reservation profile
  * @returns Complete subnet analysis with all network parameters
  *
  * @remarks
+ * IPv6 input (any address containing `:`) is delegated to
+ * `calculateIPv6Subnet`, which fills the same fields for a 128-bit prefix
+ * and ignores the reservation profile.
+ *
+ * The reservation profile (classic when omitted) decides the usable range
+ * and count; see {@link getReservedAddresses}. First and last usable are
+ * empty strings when the profile leaves no usable address. Non-classic
+ * profiles are kept on the result as `reservation`, and the IANA
+ * special-purpose classification (see `classifySubnet`) as `classification`.
+ *
  * Calculates all subnet properties:
  * - Network and broadcast addresses
  * - Subnet and wildcard masks
@@ -368,6 +528,7 @@ export function getUsableHosts(cidr: number): number {
  * ```typescript
  * calculateSubnet({ ipAddress: '192.168.1.0', cidr: 24 })
  * // Returns: {
+ * //   version: 4,
  * //   networkAddress: '192.168.1.0',
  * //   broadcastAddress: '192.168.1.255',
  * //   subnetMask: '255.255.255.0',
@@ -378,28 +539,35 @@ export function getUsableHosts(cidr: number): number {
  * //   usableHosts: 254,
  * //   cidr: 24,
  * //   binaryNetwork: '11000000.10101000.00000001.00000000',
- * //   binaryMask: '11111111.11111111.11111111.00000000'
+ * //   binaryMask: '11111111.11111111.11111111.00000000',
+ * //   classification: { addressClass: 'C', specialPurpose: [...], globallyRoutable: false }
  * // }
  * ```
  */
 export function calculateSubnet(input: SubnetInput): SubnetInfo {
-  const { ipAddress, cidr } = input;
+  const { ipAddress, cidr, reservation } = input;
+
+  if (detectIPVersion(ipAddress) === 6) {
+    return withClassification(calculateIPv6Subnet(ipAddress, cidr));
+  }
   
   const networkAddress = getNetworkAddress(ipAddress, cidr);
   const broadcastAddress = getBroadcastAddress(ipAddress, cidr);
   const subnetMask = cidrToMask(cidr);
   const wildcardMask = cidrToWildcard(cidr);
   
-  const firstUsable = getFirstUsable(networkAddress);
-  const lastUsable = getLastUsable(broadcastAddress);
-  
+  const { reservedFirst, reservedLast } = getReservedAddresses(cidr, reservation);
   const totalHosts = getTotalHosts(cidr);
-  const usableHosts = getUsableHosts(cidr);
+  const usableHosts = getUsableHosts(cidr, reservation);
+
+  const firstUsable = usableHosts > 0 ? getFirstUsable(networkAddress, reservedFirst) : '';
+  const lastUsable = usableHosts > 0 ? getLastUsable(broadcastAddress, reservedLast) : '';
   
   const binaryNetwork = ipToBinary(networkAddress);
   const binaryMask = ipToBinary(subnetMask);
   
-  return {
+  return withClassification({
+    version: 4,
     networkAddress,
     broadcastAddress,
     subnetMask,
@@ -410,8 +578,263 @@ export function calculateSubnet(input: SubnetInput): SubnetInfo {
     usableHosts,
     cidr,
     binaryNetwork,
-    binaryMask
+    binaryMask,
+    ...(reservation && reservation.id !== 'classic' ? { reservation } : {})
+  });
+}
+
+/**
+ * Recalculate a subnet under another reservation profile
+ *
+ * @param subnet - Subnet to recalculate
+ * @param reservation - Profile to apply; omit for classic
+ * @returns The IPv4 subnet with usable range and count for the profile,
+ *          or the subnet unchanged for IPv6
+ *
+ * @example
+ * ```typescript
+ * withReservation(calculateSubnetFromCidr('10.0.0.0/24'), reservationProfiles.azure).firstUsable
+ * // '10.0.0.4'
+ * ```
+ */
+export function withReservation(subnet: SubnetInfo, reservation?: ReservationProfile): SubnetInfo {
+  if (subnet.version === 6) return subnet;
+  return calculateSubnet({ ipAddress: subnet.networkAddress, cidr: subnet.cidr, reservation });
+}
+
+/**
+ * Calculate subnet information from CIDR notation
+ *
+ * @param cidr - Address and prefix, e.g. `192.168.1.0/24` or `2001:db8::/64`
+ * @returns Complete subnet analysis (see {@link calculateSubnet})
+ *
+ * @throws Error if the string has no `/prefix` part
+ *
+ * @example
+ * ```typescript
+ * calculateSubnetFromCidr('10.0.0.0/8').broadcastAddress  // '10.255.255.255'
+ * ```
+ */
+export function calculateSubnetFromCidr(cidr: string): SubnetInfo {
+  const [ipAddress, rawPrefix] = cidr.trim().split('/');
+  if (!ipAddress || rawPrefix === undefined || rawPrefix === '') {
+    throw new Error('Expected CIDR notation (address/prefix)');
+  }
+
+  return calculateSubnet({ ipAddress, cidr: Number(rawPrefix) });
+}
+
+// Leading 1 bits of a 32-bit value
+function countLeadingOnes(value: number): number {
+  return Math.clz32(~value >>> 0);
+}
+
+// Position (1-32, counted from the left) of the lowest 1 bit, or 0 when there is none
+function lastOneBit(value: number): number {
+  return value === 0 ? 0 : Math.clz32((value & -value) >>> 0) + 1;
+}
+
+function isContiguousMask(value: number): boolean {
+  const ones = countLeadingOnes(value);
+  return ones === 32 || (value >>> 0) === (ones === 0 ? 0 : (0xFFFFFFFF << (32 - ones)) >>> 0);
+}
+
+/**
+ * Explain why a dotted mask is neither a subnet mask nor a wildcard mask.
+ * Values with the top bit set are read as subnet masks, the rest as
+ * wildcards, and both nearest valid masks are suggested.
+ */
+function explainNonContiguousMask(text: string, value: number): string {
+  const asWildcard = value >>> 31 === 0;
+  // Work on the subnet mask form; a wildcard is its inverse
+  const mask = asWildcard ? ~value >>> 0 : value;
+  const shorter = countLeadingOnes(mask);
+  const longer = lastOneBit(mask);
+  const format = (prefix: number) => `${asWildcard ? cidrToWildcard(prefix) : cidrToMask(prefix)} (/${prefix})`;
+
+  return asWildcard
+    ? `${text} is not a valid wildcard mask: its bits must be all 0s followed by all 1s, ` +
+      `but bit ${shorter + 1} is 1 and bit ${longer} is 0. Did you mean ${format(shorter)} or ${format(longer)}?`
+    : `${text} is not a valid subnet mask: its bits must be all 1s followed by all 0s, ` +
+      `but bit ${shorter + 1} is 0 and bit ${longer} is 1. Did you mean ${format(shorter)} or ${format(longer)}?`;
+}
+
+function parseAddressNotation(text: string): { value: number; notation: AddressNotation } | { error: string } {
+  if (/^0x[0-9a-f]+$/i.test(text)) {
+    const value = parseInt(text.slice(2), 16);
+    return text.length <= 10 ? { value, notation: 'hex' } : { error: `${text} is larger than 32 bits` };
+  }
+
+  if (/^\d+$/.test(text)) {
+    const value = Number(text);
+    return value <= 0xFFFFFFFF ? { value, notation: 'integer' } : { error: `${text} is larger than 32 bits` };
+  }
+
+  const validation = validateIPAddress(text);
+  return validation.isValid
+    ? { value: ipToInt(text), notation: 'dotted' }
+    : { error: validation.error ?? 'Invalid IP address format' };
+}
+
+function parsePrefixNotation(text: string): { cidr: number; notation: PrefixNotation } | { error: string } {
+  if (/^\d{1,2}$/.test(text)) {
+    const cidr = Number(text);
+    const validation = validateCIDR(cidr);
+    return validation.isValid ? { cidr, notation: 'prefix' } : { error: validation.error ?? 'Invalid CIDR notation' };
+  }
+
+  const validation = validateIPAddress(text);
+  if (!validation.isValid) {
+    return { error: `Invalid mask "${text}": ${validation.error}` };
+  }
+
+  const value = ipToInt(text);
+  if (isContiguousMask(value)) {
+    return { cidr: countLeadingOnes(value), notation: 'mask' };
+  }
+  if (isContiguousMask(~value >>> 0)) {
+    return { cidr: countLeadingOnes(~value >>> 0), notation: 'wildcard' };
+  }
+  return { error: explainNonContiguousMask(text, value) };
+}
+
+/**
+ * Parse an IPv4 address with an optional prefix written in any common notation
+ *
+ * @param text - Address, optionally followed by a prefix after `/` or whitespace
+ * @returns Parse result with the dotted address, the prefix length when one
+ * was given, which notations were used, and an error message if invalid
+ *
+ * @remarks
+ * The address may be:
+ * - dotted decimal: `192.168.1.0`
+ * - hexadecimal with a `0x` prefix: `0xC0A80100`
+ * - a 32-bit integer: `3232235776`
+ *
+ * The prefix may be:
+ * - a prefix length: `/24` or ` 24`
+ * - a dotted subnet mask: `255.255.255.0`
+ * - a dotted wildcard (inverse) mask: `0.0.0.255`
+ *
+ * A mask is read as a subnet mask when its 1 bits are contiguous from the
+ * left and as a wildcard when its 1 bits are contiguous from the right.
+ * `0.0.0.0` and `255.255.255.255` fit both and are read as subnet masks
+ * (/0 and /32). Masks that fit neither are rejected with an explanation
+ * naming the offending bits and the nearest valid masks.
+ *
+ * Host bits are kept; {@link calculateSubnet} finds the network address.
+ *
+ * @example
+ * ```typescript
+ * parseSubnetNotation('192.168.1.0/24')             // ipAddress '192.168.1.0', cidr 24, prefix
+ * parseSubnetNotation('192.168.1.0 255.255.255.0')  // cidr 24, mask
+ * parseSubnetNotation('192.168.1.0/0.0.0.255')      // cidr 24, wildcard
+ * parseSubnetNotation('0xC0A80100')                 // ipAddress '192.168.1.0', no cidr, hex
+ * parseSubnetNotation('3232235776 24')              // ipAddress '192.168.1.0', cidr 24, integer
+ * parseSubnetNotation('10.0.0.0 255.0.255.0')
+ * // { isValid: false, error: '255.0.255.0 is not a valid subnet mask: ... Did you mean 255.0.0.0 (/8) or 255.255.255.0 (/24)?' }
+ * ```
+ */
+export function parseSubnetNotation(text: string): NotationParseResult {
+  const match = text.trim().match(/^(\S+?)(?:\s*\/\s*(\S+)|\s+(\S+))?$/);
+  if (!match) {
+    return { isValid: false, error: text.trim() ? 'Unrecognized address notation' : 'Enter an IP address' };
+  }
+
+  const [, addressText, slashPrefix, spacedPrefix] = match;
+  if (detectIPVersion(addressText) === 6) {
+    return { isValid: false, error: 'Alternative notations are IPv4 only' };
+  }
+
+  const address = parseAddressNotation(addressText);
+  if ('error' in address) {
+    return { isValid: false, error: address.error };
+  }
+
+  const result: NotationParseResult = {
+    isValid: true,
+    ipAddress: intToIP(address.value),
+    addressNotation: address.notation
   };
+
+  const prefixText = slashPrefix ?? spacedPrefix;
+  if (prefixText === undefined) return result;
+
+  const prefix = parsePrefixNotation(prefixText);
+  if ('error' in prefix) {
+    return { isValid: false, error: prefix.error };
+  }
+
+  return { ...result, cidr: prefix.cidr, prefixNotation: prefix.notation };
+}
+
+/**
+ * Parse an IPv4 address range such as firewall vendors export
+ *
+ * @param text - Two addresses separated by a dash, e.g. `10.1.2.5 - 10.1.3.77`
+ * @returns Start and end addresses, trimmed
+ *
+ * @throws Error if either address is invalid or the range ends before it starts
+ *
+ * @example
+ * ```typescript
+ * parseIPRange('10.1.2.5 - 10.1.3.77')  // { start: '10.1.2.5', end: '10.1.3.77' }
+ * parseIPRange('10.0.0.9-10.0.0.1')     // throws: Range ends before it starts
+ * ```
+ */
+export function parseIPRange(text: string): IPRange {
+  const parts = text.split('-').map((part) => part.trim());
+  if (parts.length !== 2) {
+    throw new Error('Expected a range (start - end)');
+  }
+
+  const [start, end] = parts;
+  for (const address of parts) {
+    const validation = validateIPAddress(address);
+    if (!validation.isValid) {
+      throw new Error(`Invalid range address "${address}": ${validation.error}`);
+    }
+  }
+
+  if (ipToInt(start) > ipToInt(end)) {
+    throw new Error('Range ends before it starts');
+  }
+
+  return { start, end };
+}
+
+/**
+ * Find the smallest subnet containing two IPv4 addresses
+ *
+ * @param ip1 - First address
+ * @param ip2 - Second address, in either order
+ * @returns Complete subnet analysis (see {@link calculateSubnet}) of the covering subnet
+ *
+ * @throws Error if either address is invalid
+ *
+ * @remarks
+ * The prefix is the number of leading bits the two addresses share, so the
+ * result is the one aligned block that contains both. It usually covers
+ * more than the span between them: 10.0.0.255 and 10.0.1.0 sit in different
+ * /24s and need a /23.
+ *
+ * @example
+ * ```typescript
+ * getSmallestCommonSubnet('10.1.2.5', '10.1.3.77')   // 10.1.2.0/23
+ * getSmallestCommonSubnet('10.0.0.255', '10.0.1.0')  // 10.0.0.0/23
+ * getSmallestCommonSubnet('10.0.0.7', '10.0.0.7')    // 10.0.0.7/32
+ * ```
+ */
+export function getSmallestCommonSubnet(ip1: string, ip2: string): SubnetInfo {
+  for (const address of [ip1, ip2]) {
+    const validation = validateIPAddress(address);
+    if (!validation.isValid) {
+      throw new Error(`Invalid IP address "${address}": ${validation.error}`);
+    }
+  }
+
+  const prefix = Math.clz32((ipToInt(ip1) ^ ipToInt(ip2)) >>> 0);
+  return calculateSubnet({ ipAddress: ip1, cidr: prefix });
 }
 
 /**
@@ -429,6 +852,10 @@ export function calculateSubnet(input: SubnetInput): SubnetInfo {
  *
  * Example: Dividing /24 creates two /25 subnets
  *
+ * Both halves keep the subnet's reservation profile.
+ *
+ * IPv6 subnets are delegated to `divideIPv6Subnet` (limit /128).
+ *
  * @example
  * ```typescript
  * const subnet = calculateSubnet({ ipAddress: '192.168.1.0', cidr: 24 });
@@ -438,6 +865,11 @@ export function calculateSubnet(input: SubnetInput): SubnetInfo {
  * ```
  */
 export function divideSubnet(subnet: SubnetInfo): [SubnetInfo, SubnetInfo] {
+  if (subnet.version === 6) {
+    const [first, second] = divideIPv6Subnet(subnet);
+    return [withClassification(first), withClassification(second)];
+  }
+
   if (subnet.cidr >= 32) {
     throw new Error('Cannot divide /32 subnet');
   }
@@ -448,12 +880,14 @@ export function divideSubnet(subnet: SubnetInfo): [SubnetInfo, SubnetInfo] {
   
   const firstSubnet = calculateSubnet({
     ipAddress: subnet.networkAddress,
-    cidr: newCidr
+    cidr: newCidr,
+    reservation: subnet.reservation
   });
   
   const secondSubnet = calculateSubnet({
     ipAddress: intToIP(networkInt + halfSize),
-    cidr: newCidr
+    cidr: newCidr,
+    reservation: subnet.reservation
   });
   
   return [firstSubnet, secondSubnet];
@@ -468,6 +902,7 @@ export function divideSubnet(subnet: SubnetInfo): [SubnetInfo, SubnetInfo] {
  *
  * @remarks
  * Subnets can be joined if:
+ * - Both belong to the same address family
  * - Both have same CIDR prefix
  * - CIDR is greater than /0
  * - Network addresses are exactly one subnet apart
@@ -483,6 +918,14 @@ export function divideSubnet(subnet: SubnetInfo): [SubnetInfo, SubnetInfo] {
  * ```
  */
 export function canJoinSubnets(subnet1: SubnetInfo, subnet2: SubnetInfo): boolean {
+  if (subnet1.version !== subnet2.version) {
+    return false;
+  }
+
+  if (subnet1.version === 6) {
+    return canJoinIPv6Subnets(subnet1, subnet2);
+  }
+
   if (subnet1.cidr !== subnet2.cidr || subnet1.cidr <= 0) {
     return false;
   }
@@ -505,7 +948,8 @@ export function canJoinSubnets(subnet1: SubnetInfo, subnet2: SubnetInfo): boolea
  *
  * @remarks
  * Joining decreases CIDR by 1 and combines address space.
- * Resulting network address is the lower of the two.
+ * Resulting network address is the lower of the two, with the first
+ * subnet's reservation profile.
  *
  * Example: Joining two /25 subnets creates one /24 subnet
  *
@@ -521,6 +965,10 @@ export function joinSubnets(subnet1: SubnetInfo, subnet2: SubnetInfo): SubnetInf
   if (!canJoinSubnets(subnet1, subnet2)) {
     throw new Error('Subnets cannot be joined');
   }
+
+  if (subnet1.version === 6) {
+    return withClassification(joinIPv6Subnets(subnet1, subnet2));
+  }
   
   const network1 = ipToInt(subnet1.networkAddress);
   const network2 = ipToInt(subnet2.networkAddress);
@@ -528,6 +976,7 @@ export function joinSubnets(subnet1: SubnetInfo, subnet2: SubnetInfo): SubnetInf
   
   return calculateSubnet({
     ipAddress: newNetworkAddress,
-    cidr: subnet1.cidr - 1
+    cidr: subnet1.cidr - 1,
+    reservation: subnet1.reservation
   });
 }
\ No newline at end of file
@@ -1,6 +1,48 @@
 import { describe, expect, it } from 'vitest';
 import { defaultPlanConfig } from '../config/samplePlan';
-import { buildSubnetTree, calculateStatusTotals, getFreeBlocks } from './subnetTree';
+import type { SubnetTree } from '../types/subnetTree';
+import {
+  allocateNextFree,
+  applyAllocationImport,
+  applyStatusOverrides,
+  buildSubnetTree,
+  calculateStatusTotals,
+  expandNodes,
+  findNextFree,
+  flattenTree,
+  getFreeBlocks,
+  getLargestFreeBlock,
+  getNode,
+  getStatusOverrides,
+  hasImplicitChildren,
+  previewAllocationImport,
+  releaseSubtree,
+  updateNodeStatus,
+  validatePlanConfig
+} from './subnetTree';
+
+// Materialize every implicit subtree, giving the fully expanded tree the
+// planner used to build eagerly
+function expandAll(tree: SubnetTree): SubnetTree {
+  for (;;) {
+    const implicit = Object.values(tree.nodes).filter((node) => hasImplicitChildren(tree, node));
+    if (implicit.length === 0) return tree;
+    tree = expandNodes(tree, implicit.map((node) => node.id));
+  }
+}
+
+// Implicit nodes have no children listed, so compare blocks by id
+function blockIds(tree: SubnetTree, prefixes: number[], limit?: number) {
+  return getFreeBlocks(tree, prefixes, limit).map((block) => block.id);
+}
+
+// Explicit flags can differ where a non-cascading edit pins implicit children
+function statusesOf(tree: SubnetTree, reference: SubnetTree) {
+  return Object.keys(reference.nodes).map((id) => {
+    const node = getNode(tree, id);
+    return [id, node?.effectiveStatus, node?.defaultStatus];
+  });
+}
 
 describe('subnet tree planner', () => {
   it('computes roll-up statuses and totals for the sample plan', () => {
@@ -22,4 +64,245 @@ describe('subnet tree planner', () => {
     expect(freeBlocks.every((block) => block.effectiveStatus === 'FREE')).toBe(true);
     expect(freeBlocks.every((block) => [24, 25, 26].includes(block.prefix))).toBe(true);
   });
+
+  it('accepts the sample plan configuration', () => {
+    expect(validatePlanConfig(defaultPlanConfig)).toEqual({ isValid: true, errors: {} });
+  });
+
+  it('reports invalid plan configuration fields', () => {
+    const validation = validatePlanConfig({
+      ...defaultPlanConfig,
+      assignedCidrs: ['10.1.241.0/24', '10.2.0.0/24', '10.1.242.5/24'],
+      inUseCidrs: ['10.1.241.0/28', 'not-a-cidr']
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors.assignedCidrs).toEqual([
+      '10.2.0.0/24: outside root 10.1.240.0/20',
+      '10.1.242.5/24: not aligned, network is 10.1.242.0/24'
+    ]);
+    expect(validation.errors.inUseCidrs).toEqual([
+      '10.1.241.0/28: deeper than minimum prefix /27',
+      'not-a-cidr: expected address/prefix'
+    ]);
+  });
+
+  it('bounds the minimum prefix', () => {
+    expect(validatePlanConfig({ ...defaultPlanConfig, minPrefix: 40 }).errors.minPrefix).toEqual(['Minimum prefix must be between 0-32']);
+    expect(validatePlanConfig({ ...defaultPlanConfig, minPrefix: 16 }).errors.minPrefix).toEqual(['Minimum prefix must be /20 or longer']);
+
+    // Deep trees are fine now that only listed ranges are materialized
+    const validation = validatePlanConfig({ ...defaultPlanConfig, rootCidr: '10.0.0.0/8', minPrefix: 24, assignedCidrs: ['10.0.0.0/8'] });
+    expect(validation.errors.minPrefix).toBeUndefined();
+  });
+
+  it('round-trips explicit status changes through overrides', () => {
+    const baseTree = buildSubnetTree(defaultPlanConfig);
+    const edited = updateNodeStatus(baseTree, '10.1.242.0/24', 'RESERVED');
+    const overrides = getStatusOverrides(edited, baseTree);
+
+    expect(overrides['10.1.242.0/24']).toBe('RESERVED');
+    expect(overrides['10.1.242.0/26']).toBe('RESERVED');
+    expect(overrides['10.1.241.0/27']).toBeUndefined();
+
+    const restored = applyStatusOverrides(buildSubnetTree(defaultPlanConfig), overrides);
+    expect(restored.nodes).toEqual(edited.nodes);
+    expect(getNode(restored, '10.1.242.0/27')?.effectiveStatus).toBe('RESERVED');
+    expect(applyStatusOverrides(baseTree, { '192.0.2.0/24': 'IN_USE' })).toBe(baseTree);
+  });
+
+  it('previews bulk allocation lists with conflicts', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    const rows = previewAllocationImport(tree, defaultPlanConfig, [
+      '# exported from router configs',
+      '10.1.248.0/27 IN_USE web-tier',
+      '10.1.248.32/27 reserved future web',
+      '',
+      '10.2.0.0/24 IN_USE elsewhere',
+      '10.1.248.64/28 IN_USE too-small',
+      '10.1.250.0/24 RESERVED',
+      '10.1.250.0/25 UNAVAILABLE',
+      '10.1.248.96/27',
+      '10.1.248.128/27 PARKED'
+    ].join('\n'));
+
+    expect(rows.map((row) => row.line)).toEqual([2, 3, 5, 6, 7, 8, 9, 10]);
+    expect(rows[0]).toMatchObject({ cidr: '10.1.248.0/27', status: 'IN_USE', label: 'web-tier', currentStatus: 'UNAVAILABLE', errors: [] });
+    expect(rows[1]).toMatchObject({ status: 'RESERVED', label: 'future web', errors: [] });
+    expect(rows[2].errors).toEqual(['outside root 10.1.240.0/20']);
+    expect(rows[3].errors).toEqual(['deeper than minimum prefix /27']);
+    expect(rows[4].errors).toEqual(['conflicts with 10.1.250.0/25 (line 8, UNAVAILABLE)']);
+    expect(rows[5].errors).toEqual(['conflicts with 10.1.250.0/24 (line 7, RESERVED)']);
+    expect(rows[6].errors).toEqual(['missing status']);
+    expect(rows[7].errors).toEqual(['unknown status "PARKED"']);
+  });
+
+  it('applies only conflict-free bulk allocations', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    const rows = previewAllocationImport(tree, defaultPlanConfig, [
+      '10.1.248.0/24 RESERVED',
+      '10.1.248.0/27 RESERVED',
+      '10.1.250.0/24 IN_USE',
+      '10.1.250.0/25 FREE'
+    ].join('\n'));
+
+    const updated = applyAllocationImport(tree, rows);
+    expect(updated.nodes['10.1.248.0/24'].effectiveStatus).toBe('RESERVED');
+    expect(getNode(updated, '10.1.250.0/24')?.effectiveStatus).toBe('UNAVAILABLE');
+    expect(calculateStatusTotals(updated).RESERVED).toBe(256);
+  });
+
+  it('flattens visible nodes depth-first', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    const all = flattenTree(tree, {});
+    expect(all).toHaveLength(Object.keys(tree.nodes).length);
+    expect(all.slice(0, 3).map((row) => [row.node.id, row.depth])).toEqual([
+      ['10.1.240.0/20', 0],
+      ['10.1.240.0/21', 1],
+      ['10.1.240.0/22', 2]
+    ]);
+
+    const collapsed = flattenTree(tree, { '10.1.240.0/21': true });
+    expect(collapsed.map((row) => row.node.id).slice(0, 3)).toEqual(['10.1.240.0/20', '10.1.240.0/21', '10.1.248.0/21']);
+
+    const available = flattenTree(tree, {}, (node) => node.effectiveStatus !== 'UNAVAILABLE');
+    expect(available.some((row) => row.node.id === '10.1.240.0/24' || row.node.id === '10.1.240.0/27')).toBe(false);
+    expect(available.some((row) => row.node.id === '10.1.241.0/27')).toBe(true);
+  });
+
+  it('flattens a 131k node tree quickly', () => {
+    // Every other /24 listed, so the whole /8 down to /24 is materialized
+    const tree = buildSubnetTree({
+      rootCidr: '10.0.0.0/8',
+      minPrefix: 24,
+      assignedCidrs: ['10.0.0.0/8'],
+      inUseCidrs: Array.from({ length: 32768 }, (_, i) => `10.${i >> 7}.${(i & 127) * 2}.0/24`)
+    });
+
+    const started = performance.now();
+    const rows = flattenTree(tree, {});
+    expect(performance.now() - started).toBeLessThan(1000);
+    expect(rows).toHaveLength(131071);
+    expect(rows[rows.length - 1]).toMatchObject({ node: { id: '10.255.255.0/24' }, depth: 16 });
+  });
+
+  it('materializes only listed ranges and their siblings', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    expect(Object.keys(tree.nodes).length).toBeLessThan(100);
+    expect(Object.keys(expandAll(tree).nodes)).toHaveLength(255);
+    expect(hasImplicitChildren(tree, tree.nodes['10.1.240.0/24'])).toBe(true);
+
+    const deep = buildSubnetTree({ rootCidr: '10.0.0.0/8', minPrefix: 24, assignedCidrs: ['10.0.0.0/8'], inUseCidrs: ['10.20.30.0/24'] });
+    expect(Object.keys(deep.nodes)).toHaveLength(33);
+    expect(calculateStatusTotals(deep)).toMatchObject({ total: 2 ** 24, IN_USE: 256, FREE: 2 ** 24 - 256 });
+    expect(getFreeBlocks(deep, [24], 3).map((block) => block.id)).toEqual(['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/24']);
+  });
+
+  it('expands implicit subtrees with inherited statuses', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    const expanded = expandNodes(tree, ['10.1.241.64/26', '10.9.0.0/24', '10.1.241.0/27']);
+
+    expect(expanded.nodes['10.1.241.64/26'].children).toEqual(['10.1.241.64/27', '10.1.241.96/27']);
+    expect(expanded.nodes['10.1.241.96/27']).toMatchObject({ effectiveStatus: 'FREE', defaultStatus: 'FREE', parentId: '10.1.241.64/26' });
+    expect(Object.keys(expanded.nodes)).toHaveLength(Object.keys(tree.nodes).length + 2);
+    expect(expandNodes(tree, ['10.1.240.0/20'])).toBe(tree);
+    expect(getNode(tree, '10.1.241.96/27')).toEqual(expanded.nodes['10.1.241.96/27']);
+  });
+
+  it('matches the fully expanded tree on the sample plan', () => {
+    const sparse = buildSubnetTree(defaultPlanConfig);
+    const full = expandAll(sparse);
+
+    expect(calculateStatusTotals(sparse)).toEqual(calculateStatusTotals(full));
+    expect(blockIds(sparse, [24, 25, 26, 27])).toEqual(blockIds(full, [24, 25, 26, 27]));
+    expect(blockIds(sparse, [24, 25, 26], 2)).toEqual(blockIds(full, [24, 25, 26]).slice(0, 2));
+
+    const edits: [string, 'IN_USE' | 'FREE' | 'RESERVED' | 'UNAVAILABLE', boolean][] = [
+      ['10.1.248.32/27', 'IN_USE', true],
+      ['10.1.241.64/26', 'RESERVED', false],
+      ['10.1.244.0/22', 'FREE', true],
+      ['10.1.240.0/21', 'UNAVAILABLE', false]
+    ];
+    edits.forEach(([nodeId, status, cascade]) => {
+      const sparseUpdated = updateNodeStatus(sparse, nodeId, status, cascade);
+      const fullUpdated = updateNodeStatus(full, nodeId, status, cascade);
+
+      expect(statusesOf(sparseUpdated, full)).toEqual(statusesOf(fullUpdated, full));
+      expect(calculateStatusTotals(sparseUpdated)).toEqual(calculateStatusTotals(fullUpdated));
+      expect(blockIds(sparseUpdated, [24, 25, 26])).toEqual(blockIds(fullUpdated, [24, 25, 26]));
+
+      const restored = applyStatusOverrides(sparse, getStatusOverrides(sparseUpdated, sparse));
+      expect(statusesOf(restored, full)).toEqual(statusesOf(fullUpdated, full));
+    });
+  });
+
+  it('finds the next free block by strategy, alignment and parent', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    const next = (prefix: number, options = {}) => findNextFree(tree, prefix, options)?.id ?? null;
+
+    // Free space in the sample plan: 10.1.241.32/27, 10.1.241.64/26, 10.1.243.64/26
+    expect(next(27)).toBe('10.1.241.32/27');
+    expect(next(26)).toBe('10.1.241.64/26');
+    expect(next(26, { strategy: 'best-fit' })).toBe('10.1.241.64/26');
+    expect(next(27, { alignTo: 26 })).toBe('10.1.241.64/27');
+    expect(next(27, { alignTo: 24 })).toBe('10.1.241.32/27');
+    expect(next(27, { withinId: '10.1.243.0/24' })).toBe('10.1.243.64/27');
+    expect(next(27, { withinId: '10.1.241.96/27' })).toBe('10.1.241.96/27');
+    expect(next(25)).toBeNull();
+    expect(next(28)).toBeNull();
+    expect(next(27, { withinId: '10.1.248.0/24' })).toBeNull();
+    expect(next(27, { withinId: '192.0.2.0/24' })).toBeNull();
+  });
+
+  it('prefers the smallest gap with best-fit', () => {
+    const tree = buildSubnetTree({
+      rootCidr: '10.0.0.0/22',
+      minPrefix: 26,
+      assignedCidrs: ['10.0.0.0/22'],
+      inUseCidrs: ['10.0.0.0/24', '10.0.1.0/25', '10.0.2.0/25', '10.0.2.192/26']
+    });
+
+    expect(findNextFree(tree, 26)?.id).toBe('10.0.1.128/26');
+    expect(findNextFree(tree, 26, { strategy: 'best-fit' })?.id).toBe('10.0.2.128/26');
+    expect(findNextFree(tree, 24, { strategy: 'best-fit' })?.id).toBe('10.0.3.0/24');
+  });
+
+  it('allocates the chosen block in use with a label', () => {
+    const tree = buildSubnetTree({ rootCidr: '10.0.0.0/8', minPrefix: 24, assignedCidrs: ['10.0.0.0/8'] });
+
+    const first = allocateNextFree(tree, 24, { label: ' web ' });
+    expect(first?.node).toMatchObject({ id: '10.0.0.0/24', effectiveStatus: 'IN_USE', metadata: { name: 'web' } });
+    expect(first?.tree.nodes['10.0.0.0/24'].metadata?.name).toBe('web');
+
+    const second = allocateNextFree(first!.tree, 24);
+    expect(second?.node.id).toBe('10.0.1.0/24');
+    expect(second?.node.metadata).toBeUndefined();
+    expect(calculateStatusTotals(second!.tree).IN_USE).toBe(512);
+    expect(allocateNextFree(buildSubnetTree(defaultPlanConfig), 25)).toBeNull();
+  });
+
+  it('releases a subtree and merges buddies into larger free blocks', () => {
+    const tree = buildSubnetTree(defaultPlanConfig);
+    expect(getLargestFreeBlock(tree)?.id).toBe('10.1.241.64/26');
+
+    const released = releaseSubtree(tree, '10.1.241.0/27');
+    expect(released?.freeBlocks.map((block) => block.id)).toEqual(['10.1.241.0/25']);
+    expect(released?.tree.nodes['10.1.241.0/25']).toMatchObject({ effectiveStatus: 'FREE', children: [] });
+    expect(released?.tree.nodes['10.1.241.0/27']).toBeUndefined();
+    expect(getLargestFreeBlock(released!.tree)?.id).toBe('10.1.241.0/25');
+
+    const whole = releaseSubtree(tree, '10.1.241.0/24');
+    expect(whole?.freeBlocks.map((block) => block.id)).toEqual(['10.1.241.0/24']);
+    expect(whole?.tree.nodes['10.1.241.0/24'].explicitStatus).toBeUndefined();
+    expect(calculateStatusTotals(whole!.tree).FREE).toBe(calculateStatusTotals(tree).FREE + 160);
+
+    // Unassigned space goes back to its default, which isn't free
+    expect(releaseSubtree(tree, '10.1.240.0/24')?.freeBlocks).toEqual([]);
+    expect(releaseSubtree(tree, '10.1.241.0/28')).toBeNull();
+  });
+
+  it('reports no largest free block when nothing is free', () => {
+    const tree = buildSubnetTree({ rootCidr: '10.0.0.0/24', minPrefix: 26, assignedCidrs: [] });
+    expect(getLargestFreeBlock(tree)).toBeNull();
+  });
 });
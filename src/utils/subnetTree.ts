@@ -1,5 +1,19 @@
-import { getNetworkAddress, intToIP, ipToInt } from './subnetCalculations';
-import type { ExplicitStatus, SubnetNode, SubnetTree, TreePlanConfig, EffectiveStatus } from '../types/subnetTree';
+import { getNetworkAddress, intToIP, ipToInt, validateCIDR, validateIPAddress } from './subnetCalculations';
+import type {
+  ExplicitStatus,
+  SubnetNode,
+  SubnetTree,
+  TreePlanConfig,
+  EffectiveStatus,
+  PlanConfigField,
+  PlanConfigValidation,
+  StatusOverrides,
+  AllocationImportRow,
+  AllocationOptions,
+  AllocationResult,
+  FlatTreeRow,
+  ReleaseResult
+} from '../types/subnetTree';
 
 interface ParsedRange {
   cidr: string;
@@ -17,6 +31,16 @@ const STATUS_DEFAULTS: Record<string, ExplicitStatus> = {
   UNAVAILABLE: 'UNAVAILABLE'
 };
 
+// Spellings accepted for each status in bulk allocation lists
+const STATUS_ALIASES: Record<string, ExplicitStatus> = {
+  IN_USE: 'IN_USE',
+  INUSE: 'IN_USE',
+  USED: 'IN_USE',
+  FREE: 'FREE',
+  RESERVED: 'RESERVED',
+  UNAVAILABLE: 'UNAVAILABLE'
+};
+
 export function cidrKey(network: string, prefix: number): string {
   return `${network}/${prefix}`;
 }
@@ -39,8 +63,64 @@ export function parseCidrRange(cidr: string): ParsedRange {
   };
 }
 
-function containsRange(container: ParsedRange, target: SubnetNode): boolean {
-  return container.start <= target.start && container.end >= target.end;
+function validateCidrString(cidr: string): string | null {
+  const [ip, rawPrefix, extra] = cidr.split('/');
+  if (extra !== undefined || rawPrefix === undefined || !/^\d+$/.test(rawPrefix)) {
+    return `${cidr}: expected address/prefix`;
+  }
+
+  const ipValidation = validateIPAddress(ip);
+  if (!ipValidation.isValid) return `${cidr}: ${ipValidation.error}`;
+
+  const cidrValidation = validateCIDR(Number(rawPrefix));
+  if (!cidrValidation.isValid) return `${cidr}: ${cidrValidation.error}`;
+
+  if (getNetworkAddress(ip, Number(rawPrefix)) !== ip) {
+    return `${cidr}: not aligned, network is ${getNetworkAddress(ip, Number(rawPrefix))}/${rawPrefix}`;
+  }
+
+  return null;
+}
+
+export function validatePlanConfig(plan: TreePlanConfig): PlanConfigValidation {
+  const errors: PlanConfigValidation['errors'] = {};
+  const addError = (field: PlanConfigField, message: string) => {
+    errors[field] = [...(errors[field] ?? []), message];
+  };
+
+  const rootError = validateCidrString(plan.rootCidr);
+  if (rootError) {
+    addError('rootCidr', rootError);
+  }
+
+  const root = rootError ? null : parseCidrRange(plan.rootCidr);
+
+  if (!Number.isInteger(plan.minPrefix) || plan.minPrefix < 0 || plan.minPrefix > 32) {
+    addError('minPrefix', 'Minimum prefix must be between 0-32');
+  } else if (root && plan.minPrefix < root.prefix) {
+    addError('minPrefix', `Minimum prefix must be /${root.prefix} or longer`);
+  }
+
+  const listFields = ['assignedCidrs', 'inUseCidrs', 'reservedCidrs', 'unavailableCidrs'] as const;
+  listFields.forEach((field) => {
+    (plan[field] ?? []).forEach((cidr) => {
+      const cidrError = validateCidrString(cidr);
+      if (cidrError) {
+        addError(field, cidrError);
+        return;
+      }
+      if (!root) return;
+
+      const range = parseCidrRange(cidr);
+      if (range.start < root.start || range.end > root.end) {
+        addError(field, `${cidr}: outside root ${root.cidr}`);
+      } else if (range.prefix > plan.minPrefix) {
+        addError(field, `${cidr}: deeper than minimum prefix /${plan.minPrefix}`);
+      }
+    });
+  });
+
+  return { isValid: Object.keys(errors).length === 0, errors };
 }
 
 function cloneNodes(nodes: Record<string, SubnetNode>): Record<string, SubnetNode> {
@@ -51,15 +131,15 @@ function cloneNodes(nodes: Record<string, SubnetNode>): Record<string, SubnetNod
   return clone;
 }
 
-function buildNodeTree(
-  range: ParsedRange,
-  minPrefix: number,
-  nodes: Record<string, SubnetNode>,
-  parentId?: string
-): void {
-  const id = cidrKey(range.network, range.prefix);
-  const node: SubnetNode = {
-    id,
+function rangeAt(start: number, prefix: number): ParsedRange {
+  const network = intToIP(start);
+  const size = 2 ** (32 - prefix);
+  return { cidr: cidrKey(network, prefix), network, prefix, start, end: start + size - 1, size };
+}
+
+function createNode(range: ParsedRange, parentId?: string): SubnetNode {
+  return {
+    id: range.cidr,
     network: range.network,
     prefix: range.prefix,
     start: range.start,
@@ -71,61 +151,140 @@ function buildNodeTree(
     defaultStatus: 'UNAVAILABLE',
     totalIPs: range.size
   };
+}
 
-  nodes[id] = node;
+// Both halves of a leaf, carrying its statuses since the leaf stood for them
+function implicitChildren(node: SubnetNode): SubnetNode[] {
+  const childPrefix = node.prefix + 1;
+  const childSize = node.totalIPs / 2;
+  return [node.start, node.start + childSize].map((start) => ({
+    ...createNode(rangeAt(start, childPrefix), node.id),
+    explicitStatus: node.explicitStatus,
+    effectiveStatus: node.effectiveStatus,
+    defaultStatus: node.defaultStatus
+  }));
+}
 
-  if (parentId) {
-    nodes[parentId].children.push(id);
+/**
+ * Materialize a node only where a listed range sits below it. Everything
+ * else stays a single leaf standing in for a uniform subtree down to
+ * minPrefix, so memory follows the size of the plan rather than the depth
+ * of the tree.
+ */
+function buildNodeTree(
+  range: ParsedRange,
+  anchors: ParsedRange[],
+  assigned: ParsedRange[],
+  nodes: Record<string, SubnetNode>,
+  parent?: SubnetNode
+): void {
+  const inAssigned = parent?.defaultStatus === STATUS_DEFAULTS.FREE ||
+    assigned.some((candidate) => candidate.start <= range.start && candidate.end >= range.end);
+  const node: SubnetNode = {
+    ...createNode(range, parent?.id),
+    defaultStatus: inAssigned ? STATUS_DEFAULTS.FREE : STATUS_DEFAULTS.UNAVAILABLE
+  };
+
+  nodes[node.id] = node;
+  if (parent) {
+    parent.children.push(node.id);
   }
 
-  if (range.prefix < minPrefix) {
-    const childPrefix = range.prefix + 1;
-    const childSize = range.size / 2;
-    const firstStart = range.start;
-    const secondStart = range.start + childSize;
-
-    const firstRange: ParsedRange = {
-      cidr: '',
-      network: intToIP(firstStart),
-      prefix: childPrefix,
-      start: firstStart,
-      end: firstStart + childSize - 1,
-      size: childSize
-    };
-
-    const secondRange: ParsedRange = {
-      cidr: '',
-      network: intToIP(secondStart),
-      prefix: childPrefix,
-      start: secondStart,
-      end: secondStart + childSize - 1,
-      size: childSize
-    };
-
-    buildNodeTree(firstRange, minPrefix, nodes, id);
-    buildNodeTree(secondRange, minPrefix, nodes, id);
+  const below = anchors.filter((anchor) =>
+    anchor.prefix > range.prefix && anchor.start >= range.start && anchor.end <= range.end
+  );
+  if (below.length === 0) return;
+
+  const overlapping = assigned.filter((candidate) => candidate.start <= range.end && candidate.end >= range.start);
+  const half = range.size / 2;
+  [range.start, range.start + half].forEach((start) => {
+    buildNodeTree(rangeAt(start, range.prefix + 1), below, overlapping, nodes, node);
+  });
+}
+
+// Range for a CIDR that names a node position: aligned, inside the root
+// and no deeper than minPrefix. The node itself may still be implicit.
+function treePosition(tree: SubnetTree, cidr: string): ParsedRange | null {
+  const root = tree.nodes[tree.rootId];
+  if (!root || validateCidrString(cidr)) return null;
+
+  const range = parseCidrRange(cidr);
+  if (range.start < root.start || range.end > root.end || range.prefix < root.prefix || range.prefix > tree.minPrefix) {
+    return null;
   }
+  return range;
 }
 
-function setDefaultStatuses(
-  nodes: Record<string, SubnetNode>,
-  assignedRanges: ParsedRange[]
-): Record<string, SubnetNode> {
-  const updated: Record<string, SubnetNode> = {};
-  Object.values(nodes).forEach((node) => {
-    const inAssigned = assignedRanges.some((range) => containsRange(range, node));
-    updated[node.id] = {
-      ...node,
-      defaultStatus: inAssigned ? STATUS_DEFAULTS.FREE : STATUS_DEFAULTS.UNAVAILABLE
-    };
+export function hasImplicitChildren(tree: SubnetTree, node: SubnetNode): boolean {
+  return node.children.length === 0 && node.prefix < tree.minPrefix;
+}
+
+// Deepest materialized node containing the range
+function findDeepestNode(nodes: Record<string, SubnetNode>, rootId: string, range: ParsedRange): SubnetNode {
+  let node = nodes[rootId];
+  for (;;) {
+    const child = node.children
+      .map((childId) => nodes[childId])
+      .find((candidate) => candidate.start <= range.start && candidate.end >= range.end);
+    if (!child) return node;
+    node = child;
+  }
+}
+
+// Split leaves from the deepest materialized ancestor down to the range
+function materialize(nodes: Record<string, SubnetNode>, rootId: string, range: ParsedRange): void {
+  let node = findDeepestNode(nodes, rootId, range);
+  while (node.prefix < range.prefix) {
+    const children = implicitChildren(node);
+    children.forEach((child) => {
+      nodes[child.id] = child;
+    });
+    nodes[node.id] = { ...node, children: children.map((child) => child.id) };
+    node = children.find((child) => child.start <= range.start && child.end >= range.end) as SubnetNode;
+  }
+}
+
+/**
+ * Look up a node by CIDR. Positions inside an implicit subtree get a
+ * detached node carrying the statuses of the leaf that stands for them.
+ */
+export function getNode(tree: SubnetTree, cidr: string): SubnetNode | null {
+  if (tree.nodes[cidr]) return tree.nodes[cidr];
+
+  const range = treePosition(tree, cidr);
+  if (!range) return null;
+
+  const leaf = findDeepestNode(tree.nodes, tree.rootId, range);
+  return {
+    ...createNode(range, cidrKey(getNetworkAddress(range.network, range.prefix - 1), range.prefix - 1)),
+    explicitStatus: leaf.explicitStatus,
+    effectiveStatus: leaf.effectiveStatus,
+    defaultStatus: leaf.defaultStatus
+  };
+}
+
+/**
+ * Materialize the children of each given node, e.g. when the user expands
+ * an implicit subtree. Ids that are not node positions are ignored.
+ */
+export function expandNodes(tree: SubnetTree, nodeIds: string[]): SubnetTree {
+  const ranges = nodeIds
+    .map((nodeId) => treePosition(tree, nodeId))
+    .filter((range): range is ParsedRange => range !== null && range.prefix < tree.minPrefix)
+    .filter((range) => tree.nodes[range.cidr]?.children.length !== 2);
+  if (ranges.length === 0) return tree;
+
+  const nodes = { ...tree.nodes };
+  ranges.forEach((range) => {
+    materialize(nodes, tree.rootId, rangeAt(range.start, range.prefix + 1));
   });
-  return updated;
+  return { ...tree, nodes };
 }
 
 function applyExplicitStatusToSubtree(
   nodes: Record<string, SubnetNode>,
   nodeId: string,
-  status: ExplicitStatus
+  status: ExplicitStatus | undefined
 ): void {
   const node = nodes[nodeId];
   if (!node) return;
@@ -141,7 +300,7 @@ function applyExplicitFromRanges(
 ): void {
   if (!cidrs || cidrs.length === 0) return;
 
-  cidrs.map(parseCidrRange).forEach((range) => {
+  cidrs.filter((cidr) => !validateCidrString(cidr)).map(parseCidrRange).forEach((range) => {
     const nodeId = cidrKey(range.network, range.prefix);
     if (nodes[nodeId]) {
       applyExplicitStatusToSubtree(nodes, nodeId, status);
@@ -179,22 +338,40 @@ function computeEffectiveStatuses(
 
 export function buildSubnetTree(plan: TreePlanConfig): SubnetTree {
   const rootRange = parseCidrRange(plan.rootCidr);
-  const nodes: Record<string, SubnetNode> = {};
+  const withinTree = (cidr: string) => {
+    if (validateCidrString(cidr)) return false;
+    const range = parseCidrRange(cidr);
+    return range.start >= rootRange.start && range.end <= rootRange.end && range.prefix <= plan.minPrefix;
+  };
 
-  buildNodeTree(rootRange, plan.minPrefix, nodes);
+  const assignedRanges = plan.assignedCidrs.filter((cidr) => !validateCidrString(cidr)).map(parseCidrRange);
+  const anchors = [
+    ...plan.assignedCidrs,
+    ...(plan.inUseCidrs ?? []),
+    ...(plan.reservedCidrs ?? []),
+    ...(plan.unavailableCidrs ?? []),
+    ...Object.keys(plan.nodeMetadata ?? {})
+  ].filter(withinTree).map(parseCidrRange);
 
-  const assignedRanges = plan.assignedCidrs.map(parseCidrRange);
-  const defaultedNodes = setDefaultStatuses(nodes, assignedRanges);
+  const nodes: Record<string, SubnetNode> = {};
+  buildNodeTree(rootRange, anchors, assignedRanges, nodes);
+
+  applyExplicitFromRanges(nodes, plan.inUseCidrs, STATUS_DEFAULTS.IN_USE);
+  applyExplicitFromRanges(nodes, plan.reservedCidrs, STATUS_DEFAULTS.RESERVED);
+  applyExplicitFromRanges(nodes, plan.unavailableCidrs, STATUS_DEFAULTS.UNAVAILABLE);
 
-  applyExplicitFromRanges(defaultedNodes, plan.inUseCidrs, STATUS_DEFAULTS.IN_USE);
-  applyExplicitFromRanges(defaultedNodes, plan.reservedCidrs, STATUS_DEFAULTS.RESERVED);
-  applyExplicitFromRanges(defaultedNodes, plan.unavailableCidrs, STATUS_DEFAULTS.UNAVAILABLE);
+  Object.entries(plan.nodeMetadata ?? {}).forEach(([nodeId, metadata]) => {
+    if (nodes[nodeId]) {
+      nodes[nodeId] = { ...nodes[nodeId], metadata };
+    }
+  });
 
-  const nodesWithEffective = computeEffectiveStatuses(rootRange.cidr, defaultedNodes);
+  const nodesWithEffective = computeEffectiveStatuses(rootRange.cidr, nodes);
 
   return {
     rootId: rootRange.cidr,
-    nodes: nodesWithEffective
+    nodes: nodesWithEffective,
+    minPrefix: plan.minPrefix
   };
 }
 
@@ -204,9 +381,20 @@ export function updateNodeStatus(
   status: ExplicitStatus,
   cascade = true
 ): SubnetTree {
-  if (!tree.nodes[nodeId]) return tree;
+  const range = treePosition(tree, nodeId);
+  if (!range) return tree;
 
   const nodes = cloneNodes(tree.nodes);
+  materialize(nodes, tree.rootId, range);
+
+  if (!cascade && hasImplicitChildren(tree, nodes[nodeId])) {
+    // Pin the children to their current status so they don't inherit the
+    // new one, here or when the overrides are replayed
+    materialize(nodes, tree.rootId, rangeAt(range.start, range.prefix + 1));
+    nodes[nodeId].children.forEach((childId) => {
+      nodes[childId] = { ...nodes[childId], explicitStatus: nodes[childId].explicitStatus ?? nodes[childId].defaultStatus };
+    });
+  }
 
   if (cascade) {
     applyExplicitStatusToSubtree(nodes, nodeId, status);
@@ -222,6 +410,65 @@ export function updateNodeStatus(
   };
 }
 
+export function getStatusOverrides(tree: SubnetTree, baseTree: SubnetTree): StatusOverrides {
+  const overrides: StatusOverrides = {};
+  Object.values(tree.nodes).forEach((node) => {
+    if (node.explicitStatus && node.explicitStatus !== getNode(baseTree, node.id)?.explicitStatus) {
+      overrides[node.id] = node.explicitStatus;
+    }
+  });
+  return overrides;
+}
+
+export function applyStatusOverrides(tree: SubnetTree, overrides: StatusOverrides): SubnetTree {
+  // Overrides for positions outside the tree (e.g. after a root change) are
+  // dropped. Broader ranges go first so nodes split out beneath them inherit
+  // the overridden status.
+  const applicable = Object.entries(overrides)
+    .map(([nodeId, status]) => ({ range: treePosition(tree, nodeId), status }))
+    .filter((entry): entry is { range: ParsedRange; status: ExplicitStatus } => entry.range !== null)
+    .sort((a, b) => a.range.prefix - b.range.prefix);
+  if (applicable.length === 0) return tree;
+
+  const nodes = cloneNodes(tree.nodes);
+  applicable.forEach(({ range, status }) => {
+    materialize(nodes, tree.rootId, range);
+    nodes[range.cidr] = { ...nodes[range.cidr], explicitStatus: status };
+  });
+
+  return {
+    ...tree,
+    nodes: computeEffectiveStatuses(tree.rootId, nodes)
+  };
+}
+
+/**
+ * Depth-first list of the nodes a tree view shows: children of collapsed
+ * nodes are skipped, and a node failing isVisible hides its whole subtree.
+ * Iterative so very large trees flatten without deep recursion.
+ */
+export function flattenTree(
+  tree: SubnetTree,
+  collapsed: Record<string, boolean>,
+  isVisible: (node: SubnetNode) => boolean = () => true
+): FlatTreeRow[] {
+  const rows: FlatTreeRow[] = [];
+  const root = tree.nodes[tree.rootId];
+  const stack: FlatTreeRow[] = root && isVisible(root) ? [{ node: root, depth: 0 }] : [];
+
+  for (let row = stack.pop(); row; row = stack.pop()) {
+    rows.push(row);
+    if (collapsed[row.node.id]) continue;
+
+    const { children } = row.node;
+    for (let i = children.length - 1; i >= 0; i--) {
+      const child = tree.nodes[children[i]];
+      if (child && isVisible(child)) stack.push({ node: child, depth: row.depth + 1 });
+    }
+  }
+  return rows;
+}
+
 export interface StatusTotals {
   total: number;
   IN_USE: number;
@@ -261,8 +508,224 @@ export function calculateStatusTotals(tree: SubnetTree): StatusTotals {
   return totals;
 }
 
-export function getFreeBlocks(tree: SubnetTree, prefixes: number[]): SubnetNode[] {
-  return Object.values(tree.nodes)
-    .filter((node) => node.effectiveStatus === 'FREE' && prefixes.includes(node.prefix))
-    .sort((a, b) => a.start - b.start);
+/**
+ * Free nodes at the given prefixes in address order, including positions
+ * inside implicit free subtrees. A limit stops the walk early, which keeps
+ * large free spaces cheap.
+ */
+export function getFreeBlocks(tree: SubnetTree, prefixes: number[], limit = Infinity): SubnetNode[] {
+  const blocks: SubnetNode[] = [];
+  const deepest = Math.min(Math.max(...prefixes), tree.minPrefix);
+
+  const visit = (node: SubnetNode | undefined) => {
+    if (!node || blocks.length >= limit) return;
+
+    if (node.effectiveStatus === 'FREE' && prefixes.includes(node.prefix)) {
+      blocks.push(node);
+    }
+
+    if (node.children.length > 0) {
+      node.children.forEach((childId) => visit(tree.nodes[childId]));
+    } else if (node.effectiveStatus === 'FREE' && node.prefix < deepest) {
+      implicitChildren(node).forEach(visit);
+    }
+  };
+
+  visit(tree.nodes[tree.rootId]);
+  return blocks;
+}
+
+/**
+ * Topmost free nodes under a node in address order: the largest CIDR
+ * blocks the free space can be handed out as
+ */
+export function getMaximalFreeBlocks(tree: SubnetTree, node: SubnetNode | undefined): SubnetNode[] {
+  if (!node) return [];
+  if (node.effectiveStatus === 'FREE') return [node];
+  return node.children.flatMap((childId) => getMaximalFreeBlocks(tree, tree.nodes[childId]));
+}
+
+/**
+ * Choose where the next /prefix would go without changing the tree.
+ *
+ * - first-fit takes the lowest free address
+ * - best-fit takes the smallest free block that fits, keeping large blocks whole
+ * - alignTo prefers blocks starting on a /alignTo boundary, falling back to any block
+ * - withinId limits the search to one node's range
+ *
+ * Returns null when nothing fits.
+ */
+export function findNextFree(tree: SubnetTree, prefix: number, options: AllocationOptions = {}): SubnetNode | null {
+  const { strategy = 'first-fit', alignTo, withinId = tree.rootId } = options;
+  const scope = getNode(tree, withinId);
+  if (!scope || !Number.isInteger(prefix) || prefix < scope.prefix || prefix > tree.minPrefix) return null;
+
+  const fitting = getMaximalFreeBlocks(tree, scope).filter((block) => block.prefix <= prefix);
+  const aligned = alignTo === undefined
+    ? fitting
+    : fitting.filter((block) => block.start % 2 ** (32 - Math.min(alignTo, prefix)) === 0);
+  const candidates = aligned.length > 0 ? aligned : fitting;
+  if (candidates.length === 0) return null;
+
+  // Blocks are in address order, so the first of equally small blocks wins
+  const block = strategy === 'best-fit'
+    ? candidates.reduce((best, candidate) => (candidate.prefix > best.prefix ? candidate : best))
+    : candidates[0];
+  return getNode(tree, cidrKey(block.network, prefix));
+}
+
+/**
+ * Mark the next free /prefix IN_USE (see findNextFree for the options).
+ * A label becomes the node's name.
+ */
+export function allocateNextFree(
+  tree: SubnetTree,
+  prefix: number,
+  options: AllocationOptions = {}
+): AllocationResult | null {
+  const chosen = findNextFree(tree, prefix, options);
+  if (!chosen) return null;
+
+  const updated = updateNodeStatus(tree, chosen.id, 'IN_USE', true);
+  const label = options.label?.trim();
+  const node = label
+    ? { ...updated.nodes[chosen.id], metadata: { ...updated.nodes[chosen.id].metadata, name: label } }
+    : updated.nodes[chosen.id];
+
+  return {
+    tree: { ...updated, nodes: { ...updated.nodes, [node.id]: node } },
+    node
+  };
+}
+
+export function getLargestFreeBlock(tree: SubnetTree): SubnetNode | null {
+  return getMaximalFreeBlocks(tree, tree.nodes[tree.rootId])
+    .reduce<SubnetNode | null>((largest, block) => (!largest || block.prefix < largest.prefix ? block : largest), null);
+}
+
+// Leaf whose statuses and metadata its parent already implies
+function isFoldable(parent: SubnetNode, child: SubnetNode | undefined): boolean {
+  return !!child &&
+    child.children.length === 0 &&
+    !child.metadata &&
+    child.explicitStatus === parent.explicitStatus &&
+    child.defaultStatus === parent.defaultStatus;
+}
+
+// Turn a parent of two identical leaves back into one implicit block
+function foldChildren(nodes: Record<string, SubnetNode>, nodeId: string): boolean {
+  const node = nodes[nodeId];
+  if (node.children.length === 0 || !node.children.every((childId) => isFoldable(node, nodes[childId]))) {
+    return false;
+  }
+  node.children.forEach((childId) => delete nodes[childId]);
+  nodes[nodeId] = { ...node, children: [] };
+  return true;
+}
+
+/**
+ * Clear explicit statuses on a subtree so it falls back to its default
+ * status, then fold buddies that became identical back into their parent,
+ * the same pairwise merge joinSubnets does. Reports the maximal free blocks
+ * that overlap the released range.
+ */
+export function releaseSubtree(tree: SubnetTree, nodeId: string): ReleaseResult | null {
+  const range = treePosition(tree, nodeId);
+  if (!range) return null;
+
+  const nodes = cloneNodes(tree.nodes);
+  materialize(nodes, tree.rootId, range);
+  applyExplicitStatusToSubtree(nodes, range.cidr, undefined);
+
+  const foldSubtree = (id: string) => {
+    nodes[id].children.forEach(foldSubtree);
+    foldChildren(nodes, id);
+  };
+  foldSubtree(range.cidr);
+
+  // Keep merging upward while the released block and its buddy match
+  let parentId = nodes[range.cidr].parentId;
+  while (parentId && foldChildren(nodes, parentId)) {
+    parentId = nodes[parentId].parentId;
+  }
+
+  const released = { ...tree, nodes: computeEffectiveStatuses(tree.rootId, nodes) };
+  return {
+    tree: released,
+    freeBlocks: getMaximalFreeBlocks(released, released.nodes[released.rootId])
+      .filter((block) => block.start <= range.end && block.end >= range.start)
+  };
+}
+
+function parseAllocationLine(text: string, line: number): AllocationImportRow {
+  const [cidr = '', rawStatus = '', ...labelParts] = text.split(/[\s,]+/);
+  const status = STATUS_ALIASES[rawStatus.toUpperCase().replace(/-/g, '_')] ?? null;
+  const row: AllocationImportRow = {
+    line,
+    text,
+    cidr,
+    status,
+    label: labelParts.join(' '),
+    currentStatus: null,
+    errors: []
+  };
+
+  const cidrError = validateCidrString(cidr);
+  if (cidrError) row.errors.push(cidrError);
+  if (!rawStatus) {
+    row.errors.push('missing status');
+  } else if (!status) {
+    row.errors.push(`unknown status "${rawStatus}"`);
+  }
+  return row;
+}
+
+export function previewAllocationImport(
+  tree: SubnetTree,
+  plan: TreePlanConfig,
+  text: string
+): AllocationImportRow[] {
+  const root = tree.nodes[tree.rootId];
+  const rows = text
+    .split(/\r?\n/)
+    .map((raw, index) => ({ raw: raw.trim(), line: index + 1 }))
+    .filter(({ raw }) => raw && !raw.startsWith('#'))
+    .map(({ raw, line }) => parseAllocationLine(raw, line));
+
+  const ranges = new Map<AllocationImportRow, ParsedRange>();
+  rows.forEach((row) => {
+    if (row.errors.length > 0) return;
+
+    const range = parseCidrRange(row.cidr);
+    if (!root || range.start < root.start || range.end > root.end) {
+      row.errors.push(`outside root ${plan.rootCidr}`);
+    } else if (range.prefix > plan.minPrefix) {
+      row.errors.push(`deeper than minimum prefix /${plan.minPrefix}`);
+    } else {
+      row.currentStatus = getNode(tree, range.cidr)?.effectiveStatus ?? null;
+      ranges.set(row, range);
+    }
+  });
+
+  // Overlapping lines must agree on status, otherwise the result would
+  // depend on line order
+  ranges.forEach((range, row) => {
+    ranges.forEach((otherRange, other) => {
+      if (other === row || other.status === row.status) return;
+      if (range.start <= otherRange.end && otherRange.start <= range.end) {
+        row.errors.push(`conflicts with ${other.cidr} (line ${other.line}, ${other.status})`);
+      }
+    });
+  });
+
+  return rows;
+}
+
+export function applyAllocationImport(tree: SubnetTree, rows: AllocationImportRow[]): SubnetTree {
+  // Broader ranges first so nested lines refine rather than get overwritten
+  return rows
+    .filter((row) => row.errors.length === 0 && row.status)
+    .map((row) => ({ row, range: parseCidrRange(row.cidr) }))
+    .sort((a, b) => a.range.prefix - b.range.prefix)
+    .reduce((current, { row, range }) => updateNodeStatus(current, range.cidr, row.status as ExplicitStatus, true), tree);
 }
@@ -0,0 +1,111 @@
+import type { SubnetInfo } from '../types/subnet';
+import type { RouteParseResult, SummarizeMode, SummaryResult } from '../types/summarize';
+import {
+  calculateSubnet,
+  calculateSubnetFromCidr,
+  detectIPVersion,
+  getSmallestCommonSubnet,
+  intToIP,
+  validateCIDR,
+  validateIPAddress
+} from './subnetCalculations';
+import { cidrSetToCidrs, createCidrSet, getCidrSetSize } from './cidrSet';
+
+/**
+ * Parse a pasted list of IPv4 routes
+ *
+ * @param text - Entries separated by commas, whitespace or newlines
+ * @returns Parsed subnets in input order plus one error string per rejected entry
+ *
+ * @remarks
+ * Entries are `address/prefix`; a bare address is read as a /32 host route.
+ * Entries with host bits set are rejected rather than silently widened.
+ *
+ * @example
+ * ```typescript
+ * parseRouteList('10.0.0.0/24, 10.0.1.0/24\n10.0.2.7')
+ * // subnets: 10.0.0.0/24, 10.0.1.0/24, 10.0.2.7/32
+ * ```
+ */
+export function parseRouteList(text: string): RouteParseResult {
+  const subnets: SubnetInfo[] = [];
+  const errors: string[] = [];
+
+  text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [address, rawPrefix = '32', extra] = entry.split('/');
+      if (extra !== undefined || detectIPVersion(address) !== 4) {
+        errors.push(`"${entry}" is not an IPv4 route`);
+        return;
+      }
+
+      const ipValidation = validateIPAddress(address);
+      const cidrValidation = /^\d+$/.test(rawPrefix)
+        ? validateCIDR(Number(rawPrefix))
+        : { isValid: false, error: `Invalid prefix "${rawPrefix}"` };
+      if (!ipValidation.isValid || !cidrValidation.isValid) {
+        errors.push(`"${entry}": ${ipValidation.error || cidrValidation.error}`);
+        return;
+      }
+
+      const subnet = calculateSubnet({ ipAddress: address, cidr: Number(rawPrefix) });
+      if (subnet.networkAddress !== address) {
+        errors.push(`"${entry}" has host bits set; did you mean ${subnet.networkAddress}/${subnet.cidr}?`);
+        return;
+      }
+
+      subnets.push(subnet);
+    });
+
+  return { subnets, errors };
+}
+
+/**
+ * Collapse a list of IPv4 routes into summary routes
+ *
+ * @param subnets - Routes to summarize, in any order; overlaps and duplicates are fine
+ * @param mode - `exact` or `lossy`
+ * @returns Summary routes sorted by address, with address counts
+ *
+ * @remarks
+ * - `exact` returns the minimal set of CIDR blocks covering precisely the
+ *   input addresses. Buddies merge the way `joinSubnets` does, and
+ *   routes already inside a larger route are dropped. `extraAddresses` is
+ *   always 0.
+ * - `lossy` returns the single smallest supernet containing every route.
+ *   `extraAddresses` is the space it advertises beyond the inputs.
+ *
+ * An empty input gives no summaries.
+ *
+ * @example
+ * ```typescript
+ * const { subnets } = parseRouteList('10.0.0.0/24 10.0.1.0/24 10.0.2.0/24');
+ * summarizeRoutes(subnets, 'exact').summaries    // 10.0.0.0/23, 10.0.2.0/24
+ * summarizeRoutes(subnets, 'lossy').summaries    // 10.0.0.0/22
+ * summarizeRoutes(subnets, 'lossy').extraAddresses  // 256
+ * ```
+ */
+export function summarizeRoutes(subnets: SubnetInfo[], mode: SummarizeMode): SummaryResult {
+  const set = createCidrSet(
+    subnets.filter((subnet) => subnet.version === 4).map((subnet) => `${subnet.networkAddress}/${subnet.cidr}`)
+  );
+  const { ranges } = set;
+  const inputAddresses = getCidrSetSize(set);
+
+  const summaries = ranges.length === 0
+    ? []
+    : mode === 'exact'
+      ? cidrSetToCidrs(set).map(calculateSubnetFromCidr)
+      : [getSmallestCommonSubnet(intToIP(ranges[0].start), intToIP(ranges[ranges.length - 1].end))];
+  const coveredAddresses = summaries.reduce((sum, summary) => sum + summary.totalHosts, 0);
+
+  return {
+    mode,
+    summaries,
+    inputAddresses,
+    coveredAddresses,
+    extraAddresses: coveredAddresses - inputAddresses
+  };
+}
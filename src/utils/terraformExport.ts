@@ -0,0 +1,273 @@
+import type { CloudProviderId, TerraformFormat, TerraformOptions } from '../types/terraform';
+import type { ConfigTarget } from '../types/deviceConfig';
+import type { SubnetInfo } from '../types/subnet';
+import { cloudProviders } from '../config/cloudProviders';
+import {
+  calculateSubnetFromCidr,
+  getSmallestCommonSubnet,
+  getUsableHosts,
+  intToIP,
+  ipToInt,
+  validateCIDR,
+  validateIPAddress
+} from './subnetCalculations';
+
+interface NamedSubnet {
+  name: string;
+  label: string;
+  subnet: SubnetInfo;
+}
+
+function cidrOf(subnet: SubnetInfo): string {
+  return `${subnet.networkAddress}/${subnet.cidr}`;
+}
+
+// Terraform identifiers start with a letter or underscore
+function toIdentifier(text: string): string {
+  const base = text.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(base) ? base : `subnet_${base}`;
+}
+
+/**
+ * Terraform resource names for a list of subnets
+ *
+ * @param targets - Subnets with optional labels
+ * @returns One unique identifier per target, from its label or else its
+ *          CIDR, with `_2`, `_3`... appended to repeats
+ *
+ * @example
+ * ```typescript
+ * getTerraformNames([{ subnet: web, name: 'Web Tier' }, { subnet: db }])
+ * // ['web_tier', 'subnet_10_0_0_128_26']
+ * ```
+ */
+export function getTerraformNames(targets: ConfigTarget[]): string[] {
+  const used = new Set<string>();
+  // Next suffix to try per base, so repeats don't rescan from _2
+  const nextSuffix = new Map<string, number>();
+  return targets.map((target) => {
+    const base = toIdentifier(target.name || `${target.subnet.networkAddress}_${target.subnet.cidr}`);
+    let name = base;
+    let suffix = nextSuffix.get(base) ?? 2;
+    // A suffixed name can equal another target's label, e.g. web, web, web_2
+    while (used.has(name)) name = `${base}_${suffix++}`;
+    nextSuffix.set(base, suffix);
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Usable addresses once the provider's reserved addresses are taken out
+ *
+ * @example
+ * ```typescript
+ * getCloudUsableHosts(calculateSubnetFromCidr('10.0.0.0/24'), 'aws')  // 251
+ * getCloudUsableHosts(calculateSubnetFromCidr('10.0.0.0/30'), 'aws')  // 0
+ * ```
+ */
+export function getCloudUsableHosts(subnet: SubnetInfo, providerId: CloudProviderId): number {
+  return getUsableHosts(subnet.cidr, cloudProviders[providerId].reservation);
+}
+
+/**
+ * New-bit counts that make Terraform's cidrsubnets() reproduce the subnets
+ *
+ * @param base - Range passed as the first cidrsubnets() argument
+ * @param subnets - Subnets in the order cidrsubnets() would allocate them
+ * @returns One new-bit count per subnet, or null when the layout is not what
+ *          cidrsubnets() would produce
+ *
+ * @remarks
+ * cidrsubnets() packs each range at the next address aligned to its size,
+ * so the subnets must be IPv4, in address order and leave no gap that an
+ * aligned block could have filled.
+ */
+export function getCidrsubnetsNewbits(base: SubnetInfo, subnets: SubnetInfo[]): number[] | null {
+  if (base.version !== 4 || subnets.some((subnet) => subnet.version !== 4 || subnet.cidr < base.cidr)) {
+    return null;
+  }
+
+  let cursor = ipToInt(base.networkAddress);
+  const end = ipToInt(base.broadcastAddress);
+  const newbits: number[] = [];
+  for (const subnet of subnets) {
+    const start = Math.ceil(cursor / subnet.totalHosts) * subnet.totalHosts;
+    if (start !== ipToInt(subnet.networkAddress) || start + subnet.totalHosts - 1 > end) return null;
+    newbits.push(subnet.cidr - base.cidr);
+    cursor = start + subnet.totalHosts;
+  }
+  return newbits;
+}
+
+// Pads the keys of consecutive attributes the way `terraform fmt` aligns them
+function attributes(pairs: [string, string][], indent = '  '): string[] {
+  const width = Math.max(...pairs.map(([key]) => key.length));
+  return pairs.map(([key, value]) => `${indent}${key.padEnd(width)} = ${value}`);
+}
+
+function variableBlock(name: string, description: string): string[] {
+  return [`variable "${name}" {`, ...attributes([['description', `"${description}"`], ['type', 'string']]), '}', ''];
+}
+
+function describe(entry: NamedSubnet, providerId: CloudProviderId): string {
+  const { subnet } = entry;
+  const label = entry.label ? ` ${entry.label}` : '';
+  if (subnet.version === 6) return `# ${cidrOf(subnet)}${label}`;
+
+  const provider = cloudProviders[providerId];
+  const reserved = provider.reservation.reservedFirst + provider.reservation.reservedLast;
+  return `# ${cidrOf(subnet)}${label}: ${subnet.totalHosts.toLocaleString()} addresses, ` +
+    `${getCloudUsableHosts(subnet, providerId).toLocaleString()} usable after ${provider.label} reserves ${reserved}`;
+}
+
+function prefixWarning(subnet: SubnetInfo, providerId: CloudProviderId): string[] {
+  const { label, minPrefix, maxPrefix } = cloudProviders[providerId];
+  if (subnet.version === 6 || (subnet.cidr >= minPrefix && subnet.cidr <= maxPrefix)) return [];
+  return [`# WARNING: ${label} only accepts /${minPrefix} to /${maxPrefix} subnets`];
+}
+
+function renderAws(entries: NamedSubnet[]): string[] {
+  return [
+    ...variableBlock('vpc_id', 'VPC the subnets belong to'),
+    ...entries.flatMap((entry) => [
+      describe(entry, 'aws'),
+      ...prefixWarning(entry.subnet, 'aws'),
+      `resource "aws_subnet" "${entry.name}" {`,
+      ...attributes(entry.subnet.version === 4
+        ? [['vpc_id', 'var.vpc_id'], ['cidr_block', `"${cidrOf(entry.subnet)}"`]]
+        : [['vpc_id', 'var.vpc_id'], ['ipv6_cidr_block', `"${cidrOf(entry.subnet)}"`], ['ipv6_native', 'true']]),
+      '',
+      '  tags = {',
+      ...attributes([['Name', `"${entry.label || cidrOf(entry.subnet)}"`]], '    '),
+      '  }',
+      '}',
+      ''
+    ])
+  ];
+}
+
+function renderAzure(entries: NamedSubnet[]): string[] {
+  return [
+    ...variableBlock('resource_group_name', 'Resource group of the virtual network'),
+    ...variableBlock('virtual_network_name', 'Virtual network the subnets belong to'),
+    ...entries.flatMap((entry) => [
+      describe(entry, 'azure'),
+      ...prefixWarning(entry.subnet, 'azure'),
+      `resource "azurerm_subnet" "${entry.name}" {`,
+      ...attributes([
+        ['name', `"${entry.name}"`],
+        ['resource_group_name', 'var.resource_group_name'],
+        ['virtual_network_name', 'var.virtual_network_name'],
+        ['address_prefixes', `["${cidrOf(entry.subnet)}"]`]
+      ]),
+      '}',
+      ''
+    ])
+  ];
+}
+
+function renderGoogle(entries: NamedSubnet[]): string[] {
+  return [
+    ...variableBlock('network', 'VPC network the subnets belong to'),
+    ...variableBlock('region', 'Region for the subnets'),
+    ...entries.flatMap((entry) => {
+      if (entry.subnet.version === 6) {
+        return [`# ${cidrOf(entry.subnet)} skipped: google_compute_subnetwork needs an IPv4 primary range`, ''];
+      }
+      return [
+        describe(entry, 'google'),
+        ...prefixWarning(entry.subnet, 'google'),
+        `resource "google_compute_subnetwork" "${entry.name}" {`,
+        ...attributes([
+          // Google resource names are lowercase letters, digits and hyphens
+          ['name', `"${entry.name.replace(/_+/g, '-').replace(/^-+|-+$/g, '')}"`],
+          ['ip_cidr_range', `"${cidrOf(entry.subnet)}"`],
+          ['region', 'var.region'],
+          ['network', 'var.network']
+        ]),
+        '}',
+        ''
+      ];
+    })
+  ];
+}
+
+function getBaseSubnet(entries: NamedSubnet[], options: TerraformOptions): SubnetInfo | null {
+  if (options.baseCidr) {
+    const [address, prefix] = options.baseCidr.trim().split('/');
+    if (!validateIPAddress(address).isValid || !/^\d+$/.test(prefix ?? '') || !validateCIDR(Number(prefix)).isValid) {
+      throw new Error(`Invalid base range "${options.baseCidr}"`);
+    }
+    return calculateSubnetFromCidr(options.baseCidr);
+  }
+  if (entries.some((entry) => entry.subnet.version !== 4)) return null;
+
+  const first = Math.min(...entries.map((entry) => ipToInt(entry.subnet.networkAddress)));
+  const last = Math.max(...entries.map((entry) => ipToInt(entry.subnet.broadcastAddress)));
+  return getSmallestCommonSubnet(intToIP(first), intToIP(last));
+}
+
+function renderLocals(entries: NamedSubnet[], options: TerraformOptions): string[] {
+  const width = Math.max(...entries.map((entry) => entry.name.length));
+  const usable = (subnet: SubnetInfo) => subnet.version === 4 ? ` (${subnet.usableHosts.toLocaleString()} usable)` : '';
+
+  const base = getBaseSubnet(entries, options);
+  const newbits = base ? getCidrsubnetsNewbits(base, entries.map((entry) => entry.subnet)) : null;
+  if (base && newbits) {
+    return [
+      'locals {',
+      `  # Carved from ${cidrOf(base)} in order by cidrsubnets():`,
+      ...entries.map((entry) => `  #   ${entry.name.padEnd(width)} = ${cidrOf(entry.subnet)}${usable(entry.subnet)}`),
+      '  subnets = zipmap(',
+      `    [${entries.map((entry) => `"${entry.name}"`).join(', ')}],`,
+      `    cidrsubnets("${cidrOf(base)}", ${newbits.join(', ')})`,
+      '  )',
+      '}'
+    ];
+  }
+
+  return [
+    'locals {',
+    '  subnets = {',
+    ...entries.flatMap((entry) => [
+      `    # ${entry.label || cidrOf(entry.subnet)}${usable(entry.subnet)}`,
+      `    ${entry.name.padEnd(width)} = "${cidrOf(entry.subnet)}"`
+    ]),
+    '  }',
+    '}'
+  ];
+}
+
+/**
+ * Render subnets as Terraform HCL
+ *
+ * @param targets - Subnets with optional labels, e.g. from `subnetsToConfigTargets`
+ *                  or `planToConfigTargets`
+ * @param format - `aws`, `azure` or `google` resources, or a `locals` map
+ * @param options - Base range for the locals cidrsubnets() call
+ * @returns HCL with the input variables the resources reference and a comment
+ *          per subnet giving its usable count after the provider's reservations
+ *
+ * @remarks
+ * Resource names come from labels (see {@link getTerraformNames}). The locals
+ * format uses cidrsubnets() when it reproduces the layout exactly and a
+ * literal map otherwise.
+ *
+ * @throws Error if `options.baseCidr` is not a valid CIDR
+ */
+export function generateTerraform(targets: ConfigTarget[], format: TerraformFormat, options: TerraformOptions = {}): string {
+  if (targets.length === 0) return '# No subnets to export';
+
+  const names = getTerraformNames(targets);
+  const entries = targets.map((target, i) => ({ name: names[i], label: target.name ?? '', subnet: target.subnet }));
+
+  const lines = format === 'aws'
+    ? renderAws(entries)
+    : format === 'azure'
+      ? renderAzure(entries)
+      : format === 'google'
+        ? renderGoogle(entries)
+        : renderLocals(entries, options);
+  return lines.join('\n').trimEnd();
+}
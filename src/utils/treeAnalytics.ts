@@ -0,0 +1,129 @@
+import type { SubnetNode, SubnetTree } from '../types/subnetTree';
+import { calculateStatusTotals, getMaximalFreeBlocks, getNode, type StatusTotals } from './subnetTree';
+
+export interface NodeUtilization {
+  nodeId: string;
+  totals: StatusTotals;
+  used: number;
+  usable: number;
+  percent: number;
+}
+
+export interface FragmentationScore {
+  freeIPs: number;
+  pieces: number;
+  idealPieces: number;
+  score: number;
+}
+
+export interface FreeBlockBucket {
+  prefix: number;
+  count: number;
+  totalIPs: number;
+}
+
+function countStatuses(tree: SubnetTree, node: SubnetNode): StatusTotals {
+  if (tree.nodes[node.id]) {
+    return calculateStatusTotals({ ...tree, rootId: node.id });
+  }
+
+  // Positions inside an implicit subtree are uniform
+  const totals: StatusTotals = { total: node.totalIPs, IN_USE: 0, FREE: 0, RESERVED: 0, UNAVAILABLE: 0 };
+  if (node.effectiveStatus !== 'PARTIAL') {
+    totals[node.effectiveStatus] = node.totalIPs;
+  }
+  return totals;
+}
+
+/**
+ * Share of a node's usable space that is taken. In-use and reserved
+ * addresses count as used; unavailable addresses are left out of the
+ * usable space entirely. Returns null for positions outside the tree.
+ */
+export function getNodeUtilization(tree: SubnetTree, nodeId: string): NodeUtilization | null {
+  const node = getNode(tree, nodeId);
+  if (!node) return null;
+
+  const totals = countStatuses(tree, node);
+  const used = totals.IN_USE + totals.RESERVED;
+  const usable = totals.total - totals.UNAVAILABLE;
+  return {
+    nodeId: node.id,
+    totals,
+    used,
+    usable,
+    percent: usable > 0 ? (used / usable) * 100 : 0
+  };
+}
+
+/**
+ * Utilization of each assigned range, taken as the topmost nodes whose
+ * default status is free, in address order
+ */
+export function getAssignedUtilization(tree: SubnetTree): NodeUtilization[] {
+  const assigned: string[] = [];
+  const visit = (nodeId: string) => {
+    const node = tree.nodes[nodeId];
+    if (!node) return;
+    if (node.defaultStatus === 'FREE') {
+      assigned.push(node.id);
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(tree.rootId);
+
+  return assigned.flatMap((nodeId) => getNodeUtilization(tree, nodeId) ?? []);
+}
+
+// Number of set bits, which is the fewest CIDR blocks that add up to a size
+function countBlocks(size: number): number {
+  let count = 0;
+  for (let remaining = size; remaining > 0; remaining = Math.floor(remaining / 2)) {
+    count += remaining % 2;
+  }
+  return count;
+}
+
+/**
+ * How scattered the free space is. Pieces are the maximal free CIDR blocks;
+ * the ideal is the fewest blocks the same number of addresses could form if
+ * it were contiguous. The score runs from 0 (as consolidated as possible)
+ * toward 1 (many small pieces).
+ */
+export function getFragmentation(tree: SubnetTree): FragmentationScore {
+  const blocks = getMaximalFreeBlocks(tree, tree.nodes[tree.rootId]);
+  const freeIPs = blocks.reduce((sum, block) => sum + block.totalIPs, 0);
+  const idealPieces = countBlocks(freeIPs);
+  return {
+    freeIPs,
+    pieces: blocks.length,
+    idealPieces,
+    score: blocks.length > 0 ? (blocks.length - idealPieces) / blocks.length : 0
+  };
+}
+
+// Maximal free blocks counted per prefix, largest blocks first
+export function getFreeBlockHistogram(tree: SubnetTree): FreeBlockBucket[] {
+  const buckets: Record<number, FreeBlockBucket> = {};
+  getMaximalFreeBlocks(tree, tree.nodes[tree.rootId]).forEach((block) => {
+    buckets[block.prefix] ??= { prefix: block.prefix, count: 0, totalIPs: 0 };
+    buckets[block.prefix].count += 1;
+    buckets[block.prefix].totalIPs += block.totalIPs;
+  });
+  return Object.values(buckets).sort((a, b) => a.prefix - b.prefix);
+}
+
+/**
+ * How many more /prefix blocks fit in the free space as it stands. Each
+ * free block holds 2^(prefix - block prefix) of them; blocks smaller than
+ * the prefix hold none. Prefixes the planner can't allocate fit 0.
+ */
+export function forecastCapacity(tree: SubnetTree, prefix: number): number {
+  const root = tree.nodes[tree.rootId];
+  if (!root || !Number.isInteger(prefix) || prefix < root.prefix || prefix > tree.minPrefix) return 0;
+
+  return getMaximalFreeBlocks(tree, root)
+    .filter((block) => block.prefix <= prefix)
+    .reduce((sum, block) => sum + 2 ** (prefix - block.prefix), 0);
+}
@@ -0,0 +1,85 @@
+import type { EffectiveStatus, SubnetNode, SubnetTree } from '../types/subnetTree';
+import { getNetworkAddress, validateCIDR, validateIPAddress } from './subnetCalculations';
+import { cidrKey, getNode, parseCidrRange } from './subnetTree';
+import { metadataMatches } from './nodeMetadata';
+
+export type TreeSearchKind = 'ip' | 'cidr' | 'status' | 'text';
+
+export interface TreeSearchResult {
+  kind: TreeSearchKind;
+  nodeIds: string[];
+}
+
+const SEARCHABLE_STATUSES: EffectiveStatus[] = ['IN_USE', 'FREE', 'RESERVED', 'UNAVAILABLE', 'PARTIAL'];
+
+function byAddress(a: SubnetNode, b: SubnetNode): number {
+  return a.start - b.start || a.prefix - b.prefix;
+}
+
+/**
+ * Deepest node position containing the CIDR, which may sit inside an
+ * implicit subtree, or null when the CIDR falls outside the root
+ */
+function findContainingNode(tree: SubnetTree, cidr: string): SubnetNode | null {
+  const range = parseCidrRange(cidr);
+  const prefix = Math.min(range.prefix, tree.minPrefix);
+  return getNode(tree, cidrKey(getNetworkAddress(range.network, prefix), prefix));
+}
+
+function parseStatusQuery(query: string): EffectiveStatus | null {
+  const normalized = query.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return SEARCHABLE_STATUSES.find((status) => status === normalized) ?? null;
+}
+
+/**
+ * Search the planner tree.
+ *
+ * - An IP address finds the leaf that contains it
+ * - A CIDR finds its node, or the deepest node containing it
+ * - A status name finds the topmost nodes with that effective status
+ * - Anything else is matched against node metadata
+ *
+ * Results are node ids in address order.
+ */
+export function searchPlannerTree(tree: SubnetTree, query: string): TreeSearchResult {
+  const trimmed = query.trim();
+  if (!trimmed) return { kind: 'text', nodeIds: [] };
+
+  if (!trimmed.includes('/') && validateIPAddress(trimmed).isValid) {
+    const node = findContainingNode(tree, `${trimmed}/32`);
+    return { kind: 'ip', nodeIds: node ? [node.id] : [] };
+  }
+
+  const [ip, rawPrefix] = trimmed.split('/');
+  if (rawPrefix !== undefined && /^\d+$/.test(rawPrefix) &&
+      validateIPAddress(ip).isValid && validateCIDR(Number(rawPrefix)).isValid) {
+    const node = findContainingNode(tree, trimmed);
+    return { kind: 'cidr', nodeIds: node ? [node.id] : [] };
+  }
+
+  const status = parseStatusQuery(trimmed);
+  if (status) {
+    // Only the top of each same-status subtree, not every node inside it
+    const nodes = Object.values(tree.nodes).filter((node) =>
+      node.effectiveStatus === status &&
+      (!node.parentId || tree.nodes[node.parentId]?.effectiveStatus !== status)
+    );
+    return { kind: 'status', nodeIds: nodes.sort(byAddress).map((node) => node.id) };
+  }
+
+  const nodes = Object.values(tree.nodes).filter((node) => metadataMatches(node.metadata, trimmed));
+  return { kind: 'text', nodeIds: nodes.sort(byAddress).map((node) => node.id) };
+}
+
+// Worked out from the CIDR, so it also covers positions not yet materialized
+export function getAncestorIds(tree: SubnetTree, nodeId: string): string[] {
+  const root = tree.nodes[tree.rootId];
+  const node = getNode(tree, nodeId);
+  if (!root || !node) return [];
+
+  const ancestors: string[] = [];
+  for (let prefix = root.prefix; prefix < node.prefix; prefix++) {
+    ancestors.push(cidrKey(getNetworkAddress(node.network, prefix), prefix));
+  }
+  return ancestors;
+}
@@ -0,0 +1,159 @@
+import type { ExplicitStatus, StatusOverrides, TreePlanConfig } from '../types/subnetTree';
+import type { CalculatorSession, SharedState } from '../types/workspace';
+import type { ReservationProfile, ReservationProfileId } from '../types/subnet';
+import { reservationProfileLabels, reservationProfiles } from '../config/reservationProfiles';
+import { validatePlanConfig } from './subnetTree';
+import { checkNodeMetadataShape } from './nodeMetadata';
+
+export const SHARE_STATE_VERSION = 1;
+export const SHARE_HASH_KEY = 's';
+
+const EXPLICIT_STATUSES: ExplicitStatus[] = ['IN_USE', 'FREE', 'RESERVED', 'UNAVAILABLE'];
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    }
+  });
+  const stream = source.pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isReservationCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Built-in profiles take their counts from the profile table; only custom counts are read from the link
+function readReservationProfile(value: unknown): ReservationProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const profile = value as Record<string, unknown>;
+  const id = profile.id as ReservationProfileId;
+  if (typeof profile.id !== 'string' || !Object.hasOwn(reservationProfileLabels, id)) return null;
+  if (id !== 'custom') return reservationProfiles[id];
+  if (!isReservationCount(profile.reservedFirst) || !isReservationCount(profile.reservedLast)) return null;
+  return { id, reservedFirst: profile.reservedFirst, reservedLast: profile.reservedLast };
+}
+
+function isCalculatorSession(value: unknown): value is CalculatorSession {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as Record<string, unknown>;
+  const input = session.input as Record<string, unknown> | undefined;
+
+  return (
+    !!input &&
+    typeof input.ipAddress === 'string' &&
+    typeof input.cidr === 'number' &&
+    (input.reservation === undefined || readReservationProfile(input.reservation) !== null) &&
+    (session.calculatedCidr === null || typeof session.calculatedCidr === 'string') &&
+    isStringArray(session.subnetCidrs) &&
+    typeof session.selectedSubnet === 'string'
+  );
+}
+
+function isPlanConfig(value: unknown): value is TreePlanConfig {
+  if (!value || typeof value !== 'object') return false;
+  const plan = value as Record<string, unknown>;
+  const optionalLists = [plan.inUseCidrs, plan.reservedCidrs, plan.unavailableCidrs];
+
+  return (
+    typeof plan.rootCidr === 'string' &&
+    typeof plan.minPrefix === 'number' &&
+    isStringArray(plan.assignedCidrs) &&
+    optionalLists.every((list) => list === undefined || isStringArray(list)) &&
+    (plan.nodeMetadata === undefined || checkNodeMetadataShape(plan.nodeMetadata).length === 0) &&
+    validatePlanConfig(plan as unknown as TreePlanConfig).isValid
+  );
+}
+
+function isStatusOverrides(value: unknown): value is StatusOverrides {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every((status) => EXPLICIT_STATUSES.includes(status as ExplicitStatus));
+}
+
+/**
+ * Encode calculator (and optionally planner) state for a URL hash.
+ * The JSON is deflated and base64url encoded behind a version prefix,
+ * e.g. `1.<payload>`.
+ *
+ * @param state - State to share
+ * @returns Hash-safe encoded string
+ */
+export async function encodeShareState(state: SharedState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(state));
+  const compressed = await pipeThrough(json, new CompressionStream('deflate-raw'));
+  return `${SHARE_STATE_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a string produced by `encodeShareState`
+ *
+ * @param encoded - Versioned payload
+ * @returns Shared state, or null when the payload is malformed, fails
+ * validation, or was written by an unknown version
+ */
+export async function decodeShareState(encoded: string): Promise<SharedState | null> {
+  const separator = encoded.indexOf('.');
+  if (separator === -1) return null;
+
+  const version = Number(encoded.slice(0, separator));
+  if (version !== SHARE_STATE_VERSION) return null;
+
+  try {
+    const compressed = fromBase64Url(encoded.slice(separator + 1));
+    const json = await pipeThrough(compressed, new DecompressionStream('deflate-raw'));
+    const data = JSON.parse(new TextDecoder().decode(json)) as Record<string, unknown>;
+
+    if (!isCalculatorSession(data.calculator)) return null;
+
+    const { calculator } = data;
+    const reservation = calculator.input.reservation && readReservationProfile(calculator.input.reservation);
+    const state: SharedState = {
+      calculator: reservation ? { ...calculator, input: { ...calculator.input, reservation } } : calculator
+    };
+    if (data.planner !== undefined) {
+      const planner = data.planner as Record<string, unknown>;
+      if (!isPlanConfig(planner?.planConfig) || !isStatusOverrides(planner.statusOverrides)) return null;
+      state.planner = { planConfig: planner.planConfig, statusOverrides: planner.statusOverrides };
+    }
+    return state;
+  } catch (err) {
+    console.error('Failed to decode shared state:', err);
+    return null;
+  }
+}
+
+/**
+ * Extract the encoded share state from a location hash (`#s=1.<payload>`)
+ */
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(SHARE_HASH_KEY);
+}
+
+/**
+ * Build a link to the current page that restores the given state on load
+ */
+export async function buildShareUrl(state: SharedState): Promise<string> {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${SHARE_HASH_KEY}=${await encodeShareState(state)}`;
+}
@@ -0,0 +1,74 @@
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Running offsets for a list of item heights. The result has one more
+ * entry than heights; the last entry is the total height.
+ */
+export function getItemOffsets(heights: number[]): number[] {
+  const offsets = new Array<number>(heights.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < heights.length; i++) {
+    offsets[i + 1] = offsets[i] + heights[i];
+  }
+  return offsets;
+}
+
+// Index of the item covering the given offset
+function findIndexAt(offsets: number[], offset: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(low, 0);
+}
+
+/**
+ * Items to render for a scroll position, as a half-open [start, end) range
+ * padded by overscan items on each side
+ */
+export function getVisibleRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 5
+): VisibleRange {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+
+  const first = findIndexAt(offsets, Math.max(scrollTop, 0));
+  const last = findIndexAt(offsets, scrollTop + viewportHeight);
+  return {
+    start: Math.max(first - overscan, 0),
+    end: Math.min(last + overscan + 1, count)
+  };
+}
+
+/**
+ * Scroll position that brings an item into view, centering it when it is
+ * off screen and leaving the position alone when it is already visible
+ */
+export function getScrollTopForIndex(
+  offsets: number[],
+  index: number,
+  scrollTop: number,
+  viewportHeight: number
+): number {
+  if (index < 0 || index >= offsets.length - 1) return scrollTop;
+
+  const top = offsets[index];
+  const bottom = offsets[index + 1];
+  if (top >= scrollTop && bottom <= scrollTop + viewportHeight) return scrollTop;
+
+  const maxScroll = Math.max(offsets[offsets.length - 1] - viewportHeight, 0);
+  const centered = top - (viewportHeight - (bottom - top)) / 2;
+  return Math.min(Math.max(centered, 0), maxScroll);
+}
@@ -0,0 +1,226 @@
+import type { ReservationProfile, SubnetInfo } from '../types/subnet';
+import type {
+  VlsmAllocation,
+  VlsmFailure,
+  VlsmParseResult,
+  VlsmRequirement,
+  VlsmResult
+} from '../types/vlsm';
+import {
+  calculateSubnet,
+  detectIPVersion,
+  getPrefixForHosts,
+  getTotalHosts,
+  intToIP,
+  ipToInt
+} from './subnetCalculations';
+
+interface FreeBlock {
+  start: number;
+  cidr: number;
+}
+
+interface PendingRequest {
+  requirement: VlsmRequirement;
+  prefix: number | null;
+  order: number;
+}
+
+/**
+ * Parse a free-form list of VLSM host requirements
+ *
+ * @param text - Comma or newline separated entries
+ * @param parentPrefix - Prefix of the parent block, which caps the subnet counts
+ * @param reservation - Reservation profile the host counts are sized for
+ * @returns Parsed requirements plus one error string per rejected entry
+ *
+ * @remarks
+ * Each entry is `name: spec` (the name is optional). Accepted specs:
+ * - `500` or `500 hosts` - one subnet with 500 usable hosts
+ * - `2 x 4` or `2x4 hosts` - two subnets with 4 usable hosts each
+ *
+ * Entries without a name are called `Subnet N` by position. Entries asking
+ * for more subnets than the parent block can hold are rejected.
+ *
+ * @example
+ * ```typescript
+ * parseVlsmRequirements('Users: 500 hosts, DMZ: 30, Links: 2 x 4')
+ * // requirements: [
+ * //   { name: 'Users', hosts: 500, count: 1 },
+ * //   { name: 'DMZ', hosts: 30, count: 1 },
+ * //   { name: 'Links', hosts: 4, count: 2 }
+ * // ]
+ * ```
+ */
+export function parseVlsmRequirements(
+  text: string,
+  parentPrefix = 0,
+  reservation?: ReservationProfile
+): VlsmParseResult {
+  const requirements: VlsmRequirement[] = [];
+  const errors: string[] = [];
+
+  text
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry, index) => {
+      const separator = entry.lastIndexOf(':');
+      const name = separator === -1 ? `Subnet ${index + 1}` : entry.slice(0, separator).trim();
+      const spec = (separator === -1 ? entry : entry.slice(separator + 1)).trim();
+
+      const match = spec.match(/^(?:(\d+)\s*[x×*]\s*)?(\d+)(?:\s*hosts?)?$/i);
+      if (!match || !name) {
+        errors.push(`Cannot parse "${entry}"`);
+        return;
+      }
+
+      const count = match[1] ? Number(match[1]) : 1;
+      const hosts = Number(match[2]);
+
+      if (count < 1 || hosts < 1) {
+        errors.push(`"${entry}" must request at least one host`);
+        return;
+      }
+
+      // Oversized subnets fail in allocation; the count only matters when one fits
+      const prefix = getPrefixForHosts(hosts, reservation);
+      const capacity = prefix !== null && prefix >= parentPrefix ? 2 ** (prefix - parentPrefix) : Infinity;
+      if (count > capacity) {
+        errors.push(`"${entry}" asks for ${count.toLocaleString()} subnets; a /${parentPrefix} holds at most ${capacity.toLocaleString()} /${prefix}`);
+        return;
+      }
+
+      requirements.push({ name, hosts, count });
+    });
+
+  return { requirements, errors };
+}
+
+function takeBlock(freeBlocks: FreeBlock[], prefix: number): FreeBlock | null {
+  // Tightest fit: the smallest free block that can hold the prefix, lowest address first
+  let bestIndex = -1;
+  freeBlocks.forEach((block, index) => {
+    if (block.cidr > prefix) return;
+    const best = freeBlocks[bestIndex];
+    if (!best || block.cidr > best.cidr || (block.cidr === best.cidr && block.start < best.start)) {
+      bestIndex = index;
+    }
+  });
+
+  if (bestIndex === -1) return null;
+
+  const [block] = freeBlocks.splice(bestIndex, 1);
+  let current = block;
+
+  // Buddy split: keep the lower half, return the upper half to the free list
+  while (current.cidr < prefix) {
+    const childCidr = current.cidr + 1;
+    freeBlocks.push({ start: current.start + getTotalHosts(childCidr), cidr: childCidr });
+    current = { start: current.start, cidr: childCidr };
+  }
+
+  return current;
+}
+
+/**
+ * Allocate named host requirements inside a parent IPv4 block (VLSM)
+ *
+ * @param parentCidr - Parent block in `address/prefix` notation
+ * @param requirements - Named host requirements, e.g. from {@link parseVlsmRequirements}
+ * @param reservation - Reservation profile the host counts are sized for, classic by default
+ * @returns Allocated subnets, requirements that did not fit, and leftover free blocks
+ *
+ * @throws Error if the parent block is not an IPv4 CIDR
+ *
+ * @remarks
+ * Requirements are sized with `getPrefixForHosts` and placed largest first
+ * (ties keep input order). Each one takes the tightest free block that can
+ * hold it, splitting buddies as needed, so every allocation sits on its
+ * natural boundary and no two allocations overlap. A repeated requirement
+ * that runs out of space is reported as one failure with the missing count.
+ *
+ * Leftover space is reported as aligned CIDR blocks sorted by address.
+ *
+ * @example
+ * ```typescript
+ * allocateVlsm('10.0.0.0/22', [
+ *   { name: 'Users', hosts: 500, count: 1 },
+ *   { name: 'DMZ', hosts: 30, count: 1 }
+ * ])
+ * // allocations: Users 10.0.0.0/23, DMZ 10.0.2.0/27
+ * // freeBlocks: 10.0.2.32/27, 10.0.2.64/26, 10.0.2.128/25, 10.0.3.0/24
+ * ```
+ */
+export function allocateVlsm(
+  parentCidr: string,
+  requirements: VlsmRequirement[],
+  reservation?: ReservationProfile
+): VlsmResult {
+  const [rawNetwork, rawPrefix] = parentCidr.trim().split('/');
+  if (!rawNetwork || rawPrefix === undefined || detectIPVersion(rawNetwork) !== 4) {
+    throw new Error('VLSM allocation requires an IPv4 parent block');
+  }
+
+  const parent = calculateSubnet({ ipAddress: rawNetwork, cidr: Number(rawPrefix), reservation });
+  const freeBlocks: FreeBlock[] = [{ start: ipToInt(parent.networkAddress), cidr: parent.cidr }];
+
+  const pending: PendingRequest[] = requirements.map((requirement, order) => ({
+    requirement,
+    prefix: getPrefixForHosts(requirement.hosts, reservation),
+    order
+  }));
+
+  pending.sort((a, b) => (a.prefix ?? -1) - (b.prefix ?? -1) || a.order - b.order);
+
+  const allocations: VlsmAllocation[] = [];
+  const unallocated: VlsmFailure[] = [];
+
+  // Repeated subnets that don't fit are reported once per requirement, not once per subnet
+  const fail = (requirement: VlsmRequirement, placed: number, reason: string) => {
+    const missing = requirement.count - placed;
+    unallocated.push({
+      name: requirement.name,
+      requestedHosts: requirement.hosts,
+      reason: requirement.count > 1
+        ? `${reason} (${missing.toLocaleString()} of ${requirement.count.toLocaleString()} did not fit)`
+        : reason
+    });
+  };
+
+  pending.forEach(({ requirement, prefix }) => {
+    if (prefix === null || prefix < parent.cidr) {
+      fail(requirement, 0, `Needs a block larger than the parent /${parent.cidr}`);
+      return;
+    }
+
+    for (let index = 0; index < requirement.count; index++) {
+      const block = takeBlock(freeBlocks, prefix);
+      if (!block) {
+        fail(requirement, index, `No free /${prefix} left in ${parent.networkAddress}/${parent.cidr}`);
+        return;
+      }
+
+      allocations.push({
+        name: requirement.count > 1 ? `${requirement.name} ${index + 1}` : requirement.name,
+        requestedHosts: requirement.hosts,
+        subnet: calculateSubnet({ ipAddress: intToIP(block.start), cidr: block.cidr, reservation })
+      });
+    }
+  });
+
+  const leftover: SubnetInfo[] = freeBlocks
+    .sort((a, b) => a.start - b.start)
+    .map((block) => calculateSubnet({ ipAddress: intToIP(block.start), cidr: block.cidr, reservation }));
+
+  const allocatedAddresses = allocations.reduce((acc, allocation) => acc + allocation.subnet.totalHosts, 0);
+
+  return {
+    parent,
+    allocations,
+    unallocated,
+    freeBlocks: leftover,
+    allocatedAddresses,
+    freeAddresses: parent.totalHosts - allocatedAddresses
+  };
+}
@@ -0,0 +1,214 @@
+import type { SubnetInfo, SubnetInput } from '../types/subnet';
+import type { CalculatorSession, Workspace, WorkspaceStore } from '../types/workspace';
+import { defaultPlanConfig } from '../config/samplePlan';
+import { calculateSubnetFromCidr, withReservation } from './subnetCalculations';
+
+export const WORKSPACE_STORAGE_KEY = 'subnetWorkspaces';
+export const WORKSPACE_SCHEMA_VERSION = 1;
+
+type StoredData = Record<string, unknown>;
+
+/**
+ * Upgrade steps keyed by the schema version they upgrade *from*.
+ * Each step must return data valid for the next version.
+ */
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {};
+
+export const defaultCalculatorSession: CalculatorSession = {
+  input: { ipAddress: '192.168.1.0', cidr: 24 },
+  calculatedCidr: null,
+  subnetCidrs: [],
+  selectedSubnet: ''
+};
+
+export interface RestoredCalculatorSession {
+  input: SubnetInput;
+  subnet: SubnetInfo | null;
+  subnets: SubnetInfo[];
+  selectedSubnet: string;
+}
+
+/**
+ * Snapshot calculator state for storage. Subnets are kept as CIDR strings
+ * and recalculated on restore so stored data never goes stale.
+ */
+export function toCalculatorSession(
+  input: SubnetInput,
+  subnet: SubnetInfo | null,
+  subnets: SubnetInfo[],
+  selectedSubnet: string
+): CalculatorSession {
+  return {
+    input,
+    calculatedCidr: subnet ? `${subnet.networkAddress}/${subnet.cidr}` : null,
+    subnetCidrs: subnets.map((s) => `${s.networkAddress}/${s.cidr}`),
+    selectedSubnet
+  };
+}
+
+export function restoreCalculatorSession(session: CalculatorSession): RestoredCalculatorSession {
+  try {
+    // Only CIDRs are stored, so the usable ranges are recalculated under the saved profile
+    const restore = (cidr: string) => withReservation(calculateSubnetFromCidr(cidr), session.input.reservation);
+    return {
+      input: session.input,
+      subnet: session.calculatedCidr ? restore(session.calculatedCidr) : null,
+      subnets: session.subnetCidrs.map(restore),
+      selectedSubnet: session.selectedSubnet
+    };
+  } catch (err) {
+    console.error('Failed to restore calculator session:', err);
+    return { input: session.input ?? defaultCalculatorSession.input, subnet: null, subnets: [], selectedSubnet: '' };
+  }
+}
+
+function generateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create a workspace with the sample plan and an empty calculator session
+ *
+ * @param name - Display name
+ * @param contents - Optional plan, overrides or calculator session to start from
+ */
+export function createWorkspace(
+  name: string,
+  contents: Partial<Pick<Workspace, 'planConfig' | 'statusOverrides' | 'calculator'>> = {}
+): Workspace {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    planConfig: contents.planConfig ?? defaultPlanConfig,
+    statusOverrides: contents.statusOverrides ?? {},
+    calculator: contents.calculator ?? defaultCalculatorSession
+  };
+}
+
+export function createWorkspaceStore(): WorkspaceStore {
+  const workspace = createWorkspace('Default');
+  return {
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    activeWorkspaceId: workspace.id,
+    workspaces: [workspace]
+  };
+}
+
+/**
+ * Bring stored workspace data up to the current schema version
+ *
+ * @param raw - Parsed JSON from storage
+ * @returns Current-version store, or null if the data is unusable or was
+ * written by a newer schema than this build understands
+ */
+export function migrateWorkspaceStore(raw: unknown): WorkspaceStore | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let data = raw as StoredData;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  if (version > WORKSPACE_SCHEMA_VERSION) return null;
+
+  while (version < WORKSPACE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data);
+    version += 1;
+  }
+
+  if (!Array.isArray(data.workspaces) || data.workspaces.length === 0) return null;
+
+  const store = { ...data, schemaVersion: version } as unknown as WorkspaceStore;
+  if (!store.workspaces.some((workspace) => workspace.id === store.activeWorkspaceId)) {
+    store.activeWorkspaceId = store.workspaces[0].id;
+  }
+  return store;
+}
+
+export function loadWorkspaceStore(): WorkspaceStore {
+  if (typeof window === 'undefined') return createWorkspaceStore();
+
+  try {
+    const stored = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+    if (stored) {
+      return migrateWorkspaceStore(JSON.parse(stored)) ?? createWorkspaceStore();
+    }
+  } catch (err) {
+    console.error('Failed to load workspaces:', err);
+  }
+  return createWorkspaceStore();
+}
+
+export function saveWorkspaceStore(store: WorkspaceStore): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.error('Failed to save workspaces:', err);
+  }
+}
+
+export function getActiveWorkspace(store: WorkspaceStore): Workspace {
+  return store.workspaces.find((workspace) => workspace.id === store.activeWorkspaceId) ?? store.workspaces[0];
+}
+
+export function addWorkspace(store: WorkspaceStore, workspace: Workspace): WorkspaceStore {
+  return {
+    ...store,
+    activeWorkspaceId: workspace.id,
+    workspaces: [...store.workspaces, workspace]
+  };
+}
+
+export function updateWorkspace(
+  store: WorkspaceStore,
+  workspaceId: string,
+  patch: Partial<Omit<Workspace, 'id' | 'createdAt'>>
+): WorkspaceStore {
+  return {
+    ...store,
+    workspaces: store.workspaces.map((workspace) =>
+      workspace.id === workspaceId
+        ? { ...workspace, ...patch, updatedAt: new Date().toISOString() }
+        : workspace
+    )
+  };
+}
+
+export function renameWorkspace(store: WorkspaceStore, workspaceId: string, name: string): WorkspaceStore {
+  const trimmed = name.trim();
+  if (!trimmed) return store;
+  return updateWorkspace(store, workspaceId, { name: trimmed });
+}
+
+export function duplicateWorkspace(store: WorkspaceStore, workspaceId: string): WorkspaceStore {
+  const source = store.workspaces.find((workspace) => workspace.id === workspaceId);
+  if (!source) return store;
+
+  return addWorkspace(store, createWorkspace(`${source.name} (copy)`, {
+    planConfig: source.planConfig,
+    statusOverrides: { ...source.statusOverrides },
+    calculator: source.calculator
+  }));
+}
+
+/**
+ * Remove a workspace. Deleting the last workspace replaces it with a fresh
+ * default one so there is always an active workspace.
+ */
+export function deleteWorkspace(store: WorkspaceStore, workspaceId: string): WorkspaceStore {
+  const remaining = store.workspaces.filter((workspace) => workspace.id !== workspaceId);
+  if (remaining.length === 0) {
+    return createWorkspaceStore();
+  }
+
+  return {
+    ...store,
+    activeWorkspaceId: store.activeWorkspaceId === workspaceId ? remaining[0].id : store.activeWorkspaceId,
+    workspaces: remaining
+  };
+}